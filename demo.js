@@ -5,6 +5,14 @@
 
 const API_BASE = 'http://localhost:3000';
 
+// Lending routes act on behalf of the authenticated user; obtain these
+// tokens from /auth/login for a verified borrower and lender account
+const BORROWER_TOKEN = process.env.DEMO_BORROWER_TOKEN;
+const LENDER_TOKEN = process.env.DEMO_LENDER_TOKEN;
+// Registered tokens the loan is denominated in and backed by
+const BORROW_TOKEN_ID = process.env.DEMO_BORROW_TOKEN_ID;
+const COLLATERAL_TOKEN_ID = process.env.DEMO_COLLATERAL_TOKEN_ID;
+
 // Demo data
 const demoBorrower = {
   id: 'borrower_001',
@@ -18,7 +26,7 @@ const demoLender = {
   availableFunds: 100000
 };
 
-async function makeRequest(endpoint, method = 'GET', data = null) {
+async function makeRequest(endpoint, method = 'GET', data = null, token = null) {
   const url = `${API_BASE}${endpoint}`;
   const options = {
     method,
@@ -26,6 +34,10 @@ async function makeRequest(endpoint, method = 'GET', data = null) {
       'Content-Type': 'application/json',
     },
   };
+
+  if (token) {
+    options.headers.Authorization = `Bearer ${token}`;
+  }
   
   if (data) {
     options.body = JSON.stringify(data);
@@ -60,12 +72,13 @@ async function runDemo() {
   // 3. Submit Loan Application
   console.log('3. 📝 Submitting Loan Application');
   const loanApplication = await makeRequest('/lending/submit-application', 'POST', {
-    borrowerId: demoBorrower.id,
     amount: 50000,
     interestRate: 0.08,
     duration: 180, // 6 months
-    collateralRatio: 2.0
-  });
+    collateralRatio: 2.0,
+    borrowTokenId: BORROW_TOKEN_ID,
+    collateralTokenIds: [COLLATERAL_TOKEN_ID]
+  }, BORROWER_TOKEN);
   console.log('');
 
   // 4. Encrypt Lending Parameters
@@ -88,22 +101,21 @@ async function runDemo() {
   if (loanApplication && loanApplication.status === 'approved') {
     console.log('6. 💰 Creating Loan Offer');
     const loanOffer = await makeRequest('/lending/create-offer', 'POST', {
-      lenderId: demoLender.id,
       loanApplicationId: loanApplication.id,
       offeredAmount: 45000,
       offeredInterestRate: 0.075,
       terms: 'Monthly payments, 6-month term',
       expiresInHours: 24
-    });
+    }, LENDER_TOKEN);
     console.log('');
 
     // 7. Accept Loan Offer
     if (loanOffer) {
       console.log('7. ✅ Accepting Loan Offer');
-      const activeLoan = await makeRequest('/lending/accept-offer', 'POST', {
-        offerId: loanOffer.id,
-        borrowerId: demoBorrower.id
-      });
+      const funding = await makeRequest('/lending/accept-offer', 'POST', {
+        offerId: loanOffer.id
+      }, BORROWER_TOKEN);
+      const activeLoan = funding && funding.loan;
       console.log('');
 
       // 8. Process Payment
@@ -111,9 +123,8 @@ async function runDemo() {
         console.log('8. 💸 Processing Loan Payment');
         const payment = await makeRequest('/lending/process-payment', 'POST', {
           loanId: activeLoan.id,
-          paymentAmount: 8000,
-          borrowerSecretKey: borrowerWallet?.secretKey || 'demo-key'
-        });
+          paymentAmount: 8000
+        }, BORROWER_TOKEN);
         console.log('');
       }
     }
@@ -121,12 +132,12 @@ async function runDemo() {
 
   // 9. Get Statistics
   console.log('9. 📊 Platform Statistics');
-  await makeRequest('/lending/statistics');
+  await makeRequest('/lending/statistics', 'GET', null, BORROWER_TOKEN);
   console.log('');
 
   // 10. Get Available Applications
   console.log('10. 📋 Available Loan Applications');
-  await makeRequest('/lending/applications/available');
+  await makeRequest('/lending/applications/available', 'GET', null, LENDER_TOKEN);
   console.log('');
 
   console.log('🎉 Demo completed!');
@@ -14,6 +14,8 @@ import { RiskModule } from './risk/risk.module';
 import { LiquidationModule } from './liquidation/liquidation.module';
 import { GovernanceModule } from './governance/governance.module';
 import { MagicBlockModule } from './magicblock/magicblock.module';
+import { CollateralModule } from './collateral/collateral.module';
+import { TokenModule } from './token/token.module';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 
@@ -35,6 +37,8 @@ import { AppService } from './app.service';
     AuthModule,
     MonitoringModule,
     LendingModule,
+    CollateralModule,
+    TokenModule,
     EncryptionModule,
     SolanaModule,
     ArciumModule,
@@ -4,6 +4,14 @@ import {
   getArciumProgram,
   getMXEPublicKey,
   awaitComputationFinalization,
+  getComputationAccAddress as getComputationAddress,
+  getClusterAccAddress,
+  getCompDefAccAddress,
+  getCompDefAccOffset,
+  getExecutingPoolAccAddress,
+  getMempoolAccAddress,
+  getMXEAccAddress,
+  deserializeLE,
   RescueCipher,
   x25519,
 } from '@arcium-hq/client';
@@ -23,12 +31,43 @@ import { randomBytes } from 'crypto';
 import * as anchor from '@coral-xyz/anchor';
 import { Connection, PublicKey, Keypair } from '@solana/web3.js';
 
+export interface ArciumEncryptedInput {
+  ciphertext: Uint8Array;
+  nonce: Uint8Array;
+  publicKey: Uint8Array; // the x25519 key the input was encrypted with
+}
+
 export interface ArciumComputationRequest {
   functionName: string;
   inputs: any[];
+  // Inputs encrypted by their owner with the MXE public key, passed to
+  // the computation after the service's own inputs without being
+  // decrypted here
+  encryptedInputs?: ArciumEncryptedInput[];
+  // MXE program event that carries the computation's revealed output;
+  // without one the output is decrypted with the service's shared secret
+  resultEvent?: string;
   metadata?: any;
 }
 
+export interface ArciumVoteTally {
+  votesFor: number;
+  votesAgainst: number;
+  votesAbstain: number;
+  invalidPower: number; // power of ballots whose choice was not a valid one
+  computationId: string;
+}
+
+/**
+ * Ballot choices as encoded in the single field a voter encrypts for
+ * the voteTally computation
+ */
+export const BALLOT_CHOICES = {
+  AGAINST: 0,
+  FOR: 1,
+  ABSTAIN: 2,
+};
+
 export interface ArciumComputationResult {
   success: boolean;
   result?: any;
@@ -65,6 +104,7 @@ export class ArciumRealService {
   private connection: Connection;
   private provider: anchor.AnchorProvider;
   private solanaPublicKey: PublicKey;
+  private mxeProgram: anchor.Program;
   private isInitialized = false;
 
   constructor(private configService: ConfigService) {
@@ -147,15 +187,7 @@ export class ArciumRealService {
       const privateKey = x25519.utils.randomSecretKey();
       const publicKey = x25519.getPublicKey(privateKey);
 
-      // Get MXE public key using environment variable
-      const mxePublicKey = await getMXEPublicKey(
-        this.provider,
-        this.solanaPublicKey
-      );
-
-      if (!mxePublicKey) {
-        throw new Error('Failed to get MXE public key');
-      }
+      const mxePublicKey = await this.getMXEPublicKey();
 
       // Generate shared secret
       const sharedSecret = x25519.getSharedSecret(privateKey, mxePublicKey);
@@ -163,26 +195,48 @@ export class ArciumRealService {
       // Encrypt inputs using RescueCipher
       const encryptedInputs = await this.encryptInputs(
         request.inputs,
-        sharedSecret
+        sharedSecret,
+        publicKey
       );
 
       // Queue computation
       const computationOffset = new anchor.BN(randomBytes(8), 'hex');
+      const program = await this.getMXEProgram();
+      const revealed = request.resultEvent
+        ? this.awaitComputationEvent(
+            program,
+            request.resultEvent,
+            computationOffset
+          )
+        : null;
 
-      // In a real implementation, you would queue the computation here
       this.logger.log(
         `Queuing computation with offset: ${computationOffset.toString()}`
       );
+      let result: string;
+      try {
+        await this.queueComputation(
+          program,
+          request.functionName,
+          computationOffset,
+          [encryptedInputs, ...(request.encryptedInputs || [])]
+        );
+
+        // Wait for computation completion
+        result = await awaitComputationFinalization(
+          this.provider,
+          computationOffset,
+          this.solanaPublicKey
+        );
+      } catch (error) {
+        revealed?.cancel();
+        throw error;
+      }
 
-      // Wait for computation completion
-      const result = await awaitComputationFinalization(
-        this.provider,
-        computationOffset,
-        this.solanaPublicKey
-      );
-
-      // Decrypt result
-      const decryptedResult = await this.decryptResult(result, sharedSecret);
+      // Read the revealed output or decrypt the result
+      const decryptedResult = revealed
+        ? await revealed.event
+        : await this.decryptResult(result, sharedSecret);
 
       const executionTime = Date.now() - startTime;
 
@@ -207,17 +261,149 @@ export class ArciumRealService {
     }
   }
 
+  /**
+   * Get the MXE public key that inputs are encrypted with
+   */
+  async getMXEPublicKey(): Promise<Uint8Array> {
+    // Get MXE public key using environment variable
+    const mxePublicKey = await getMXEPublicKey(
+      this.provider,
+      this.solanaPublicKey
+    );
+
+    if (!mxePublicKey) {
+      throw new Error('Failed to get MXE public key');
+    }
+
+    return mxePublicKey;
+  }
+
+  /**
+   * Get the MXE program computations are queued through
+   */
+  private async getMXEProgram(): Promise<anchor.Program> {
+    if (!this.mxeProgram) {
+      this.mxeProgram = await anchor.Program.at(
+        this.solanaPublicKey,
+        this.provider
+      );
+    }
+
+    return this.mxeProgram;
+  }
+
+  /**
+   * Queue a computation on the MXE program. Each encrypted input is passed
+   * as its 32-byte ciphertext fields, the x25519 public key it was
+   * encrypted with and its nonce.
+   */
+  private async queueComputation(
+    program: anchor.Program,
+    functionName: string,
+    computationOffset: anchor.BN,
+    inputs: ArciumEncryptedInput[]
+  ): Promise<string> {
+    const args = inputs.flatMap((input) => [
+      ...this.splitCiphertext(input.ciphertext),
+      Array.from(input.publicKey),
+      new anchor.BN(deserializeLE(input.nonce).toString()),
+    ]);
+    const circuitName = functionName.replace(
+      /[A-Z]/g,
+      (letter) => `_${letter.toLowerCase()}`
+    );
+    const compDefOffset = Buffer.from(
+      getCompDefAccOffset(circuitName)
+    ).readUInt32LE();
+    const clusterOffset = Number(
+      this.configService.get('ARCIUM_CLUSTER_OFFSET', 0)
+    );
+
+    return program.methods[functionName](computationOffset, ...args)
+      .accounts({
+        computationAccount: getComputationAddress(
+          this.solanaPublicKey,
+          computationOffset
+        ),
+        clusterAccount: getClusterAccAddress(clusterOffset),
+        mxeAccount: getMXEAccAddress(this.solanaPublicKey),
+        mempoolAccount: getMempoolAccAddress(this.solanaPublicKey),
+        executingPool: getExecutingPoolAccAddress(this.solanaPublicKey),
+        compDefAccount: getCompDefAccAddress(
+          this.solanaPublicKey,
+          compDefOffset
+        ),
+      })
+      .rpc({ commitment: 'confirmed' });
+  }
+
+  /**
+   * Resolve with the first MXE program event emitted for a computation.
+   * Rejects if none arrives within ARCIUM_COMPUTATION_TIMEOUT_MS; cancel
+   * removes the listener when the computation fails before its event.
+   */
+  private awaitComputationEvent(
+    program: anchor.Program,
+    eventName: string,
+    computationOffset: anchor.BN
+  ): { event: Promise<any>; cancel: () => void } {
+    const timeoutMs = Number(
+      this.configService.get('ARCIUM_COMPUTATION_TIMEOUT_MS', 120000)
+    );
+    let listener: number | null = null;
+    let timer: NodeJS.Timeout;
+    const cancel = () => {
+      clearTimeout(timer);
+      if (listener === null) {
+        return;
+      }
+
+      program
+        .removeEventListener(listener)
+        .catch((error) =>
+          this.logger.warn(`Failed to remove ${eventName} listener`, error)
+        );
+      listener = null;
+    };
+
+    const event = new Promise<any>((resolve, reject) => {
+      listener = program.addEventListener(eventName, (emitted) => {
+        if (!computationOffset.eq(new anchor.BN(emitted.computationOffset))) {
+          return;
+        }
+
+        cancel();
+        resolve(emitted);
+      });
+      timer = setTimeout(() => {
+        cancel();
+        reject(new Error(`Timed out waiting for ${eventName} event`));
+      }, timeoutMs);
+    });
+    // The caller awaits the event only after queuing the computation;
+    // a timeout before then must not surface as an unhandled rejection
+    event.catch(() => undefined);
+
+    return { event, cancel };
+  }
+
+  private splitCiphertext(ciphertext: Uint8Array): number[][] {
+    const fields: number[][] = [];
+    for (let offset = 0; offset < ciphertext.length; offset += 32) {
+      fields.push(Array.from(ciphertext.slice(offset, offset + 32)));
+    }
+
+    return fields;
+  }
+
   /**
    * Encrypt inputs for Arcium computation using RescueCipher
    */
   private async encryptInputs(
     inputs: any[],
-    sharedSecret: Uint8Array
-  ): Promise<{
-    ciphertext: Uint8Array;
-    nonce: Uint8Array;
-    publicKey: Uint8Array;
-  }> {
+    sharedSecret: Uint8Array,
+    publicKey: Uint8Array
+  ): Promise<ArciumEncryptedInput> {
     try {
       // Convert inputs to BigInt array for encryption
       const bigIntInputs = inputs.map((input) => {
@@ -235,7 +421,7 @@ export class ArciumRealService {
       return {
         ciphertext: new Uint8Array(ciphertext.flat()),
         nonce,
-        publicKey: x25519.getPublicKey(x25519.utils.randomSecretKey()),
+        publicKey,
       };
     } catch (error) {
       this.logger.error('Failed to encrypt inputs', error);
@@ -359,6 +545,48 @@ export class ArciumRealService {
     };
   }
 
+  /**
+   * Tally encrypted ballots weighted by voting power. The weights are
+   * encrypted by this service and passed first, followed by one input per
+   * ballot holding one of BALLOT_CHOICES encrypted by the voter with the
+   * MXE public key. The voteTally circuit adds each weight to the chosen
+   * option, adds the weight of any other choice to invalidPower instead,
+   * and reveals only the totals through a VoteTallyEvent.
+   */
+  async performEncryptedVoteTally(
+    ballots: ArciumEncryptedInput[],
+    weights: number[]
+  ): Promise<ArciumVoteTally> {
+    if (ballots.length !== weights.length) {
+      throw new Error('Each ballot needs a voting weight');
+    }
+
+    const request: ArciumComputationRequest = {
+      functionName: 'voteTally',
+      inputs: weights,
+      encryptedInputs: ballots,
+      resultEvent: 'voteTallyEvent',
+      metadata: {
+        type: 'vote_tally',
+        timestamp: new Date().toISOString(),
+      },
+    };
+
+    const result = await this.performEncryptedComputation(request);
+
+    if (!result.success) {
+      throw new Error(`Vote tally failed: ${result.error}`);
+    }
+
+    return {
+      votesFor: Number(result.result.votesFor.toString()),
+      votesAgainst: Number(result.result.votesAgainst.toString()),
+      votesAbstain: Number(result.result.votesAbstain.toString()),
+      invalidPower: Number(result.result.invalidPower.toString()),
+      computationId: result.computationId,
+    };
+  }
+
   /**
    * Get computation status using real Arcium reader
    */
@@ -504,6 +732,7 @@ export class ArciumRealService {
       collateralValidation: 1.5,
       interestCalculation: 1.0,
       liquidationCheck: 2.5,
+      voteTally: 2.0,
       default: 1.0,
     };
     return complexity[functionName] || complexity.default;
@@ -528,10 +757,20 @@ export class ArciumRealService {
   async getAvailableFunctions(): Promise<string[]> {
     try {
       // In a real implementation, this would query available functions
-      return ['riskAssessment', 'collateralValidation', 'interestCalculation'];
+      return [
+        'riskAssessment',
+        'collateralValidation',
+        'interestCalculation',
+        'voteTally',
+      ];
     } catch (error) {
       this.logger.error('Failed to get available functions', error);
-      return ['riskAssessment', 'collateralValidation', 'interestCalculation'];
+      return [
+        'riskAssessment',
+        'collateralValidation',
+        'interestCalculation',
+        'voteTally',
+      ];
     }
   }
 
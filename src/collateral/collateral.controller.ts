@@ -0,0 +1,84 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { CollateralService, LoanCollateral } from './collateral.service';
+import { UserRole } from '../entities/user.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { WhenNotPaused } from '../governance/decorators/when-not-paused.decorator';
+
+export class CollateralAdjustmentDto {
+  amount: number;
+  tokenId?: string;
+}
+
+@ApiTags('collateral')
+@Controller('collateral')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class CollateralController {
+  constructor(private readonly collateralService: CollateralService) {}
+
+  @Get('loans/:id')
+  @ApiOperation({ summary: 'Get the collateral pledged to a loan' })
+  @ApiResponse({ status: 200, description: 'Loan collateral retrieved' })
+  async getLoanCollateral(
+    @Request() req,
+    @Param('id') loanId: string
+  ): Promise<LoanCollateral> {
+    return this.collateralService.getLoanCollateral(loanId, req.user.id);
+  }
+
+  @Post('loans/:id/top-up')
+  @Roles(UserRole.BORROWER)
+  @ApiOperation({ summary: 'Pledge additional collateral to a loan' })
+  @ApiBody({ type: CollateralAdjustmentDto })
+  @ApiResponse({ status: 201, description: 'Collateral topped up' })
+  async topUpCollateral(
+    @Request() req,
+    @Param('id') loanId: string,
+    @Body() adjustment: CollateralAdjustmentDto
+  ): Promise<LoanCollateral> {
+    return this.collateralService.topUpCollateral(
+      loanId,
+      req.user.id,
+      adjustment.amount,
+      adjustment.tokenId
+    );
+  }
+
+  @Post('loans/:id/withdraw')
+  @WhenNotPaused()
+  @Roles(UserRole.BORROWER)
+  @ApiOperation({
+    summary: 'Withdraw collateral in excess of the required ratio',
+  })
+  @ApiBody({ type: CollateralAdjustmentDto })
+  @ApiResponse({ status: 201, description: 'Excess collateral withdrawn' })
+  async withdrawExcessCollateral(
+    @Request() req,
+    @Param('id') loanId: string,
+    @Body() adjustment: CollateralAdjustmentDto
+  ): Promise<LoanCollateral> {
+    return this.collateralService.withdrawExcessCollateral(
+      loanId,
+      req.user.id,
+      adjustment.amount,
+      adjustment.tokenId
+    );
+  }
+}
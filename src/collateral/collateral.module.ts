@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CollateralService } from './collateral.service';
+import { CollateralController } from './collateral.controller';
+import { CollateralPledge } from '../entities/collateral-pledge.entity';
+import { ActiveLoan } from '../entities/active-loan.entity';
+import { LoanParticipation } from '../entities/loan-participation.entity';
+import { MonitoringModule } from '../monitoring/monitoring.module';
+import { OracleModule } from '../oracle/oracle.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([CollateralPledge, ActiveLoan, LoanParticipation]),
+    MonitoringModule,
+    OracleModule,
+  ],
+  providers: [CollateralService],
+  controllers: [CollateralController],
+  exports: [CollateralService],
+})
+export class CollateralModule {}
@@ -0,0 +1,288 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { CollateralService } from './collateral.service';
+import { MonitoringService } from '../monitoring/monitoring.service';
+import { PriceOracleService } from '../oracle/price-oracle.service';
+import {
+  CollateralPledge,
+  CollateralPledgeStatus,
+} from '../entities/collateral-pledge.entity';
+import { ActiveLoan, ActiveLoanStatus } from '../entities/active-loan.entity';
+import { LoanApplication } from '../entities/loan-application.entity';
+import { LoanParticipation } from '../entities/loan-participation.entity';
+import { Token, TokenStatus } from '../entities/token.entity';
+import { TokenBalance } from '../entities/token-balance.entity';
+
+describe('CollateralService', () => {
+  let rows: Map<Function, any[]>;
+  let manager: any;
+  let loan: any;
+  let pledge: any;
+  let service: CollateralService;
+
+  const rowsOf = (entity: Function) => {
+    if (!rows.has(entity)) {
+      rows.set(entity, []);
+    }
+    return rows.get(entity);
+  };
+  const matches = (row: any, where: Record<string, any> = {}) =>
+    Object.entries(where).every(([key, value]) => row[key] === value);
+  const repositoryFor = (entity: Function) => ({
+    provide: getRepositoryToken(entity),
+    useValue: {
+      findOne: jest.fn((options) => manager.findOne(entity, options)),
+      find: jest.fn((options) => manager.find(entity, options)),
+    },
+  });
+  const balanceOf = (userId: string, tokenId: string) =>
+    rowsOf(TokenBalance).find((row) => matches(row, { userId, tokenId }));
+  const holding = (
+    userId: string,
+    tokenId: string,
+    available: number,
+    locked = 0
+  ) =>
+    rowsOf(TokenBalance).push(
+      Object.assign(new TokenBalance(), {
+        userId,
+        tokenId,
+        balance: available + locked,
+        availableBalance: available,
+        lockedBalance: locked,
+      })
+    );
+
+  beforeEach(async () => {
+    rows = new Map();
+    let nextId = 0;
+    manager = {
+      findOne: jest.fn(
+        async (entity, { where }) =>
+          rowsOf(entity).find((row) => matches(row, where)) || null
+      ),
+      find: jest.fn(async (entity, { where }) =>
+        rowsOf(entity).filter((row) => matches(row, where))
+      ),
+      create: jest.fn((entity, data) => Object.assign(new entity(), data)),
+      save: jest.fn(async (entity) => {
+        for (const row of [].concat(entity)) {
+          const table = rowsOf(row.constructor);
+          if (!table.includes(row)) {
+            row.id = row.id || `${row.constructor.name}-${++nextId}`;
+            table.push(row);
+          }
+        }
+        return entity;
+      }),
+    };
+
+    rowsOf(Token).push(
+      Object.assign(new Token(), {
+        id: 'sol',
+        symbol: 'SOL',
+        status: TokenStatus.ACTIVE,
+        priceUSD: 200,
+      }),
+      Object.assign(new Token(), {
+        id: 'usdc',
+        symbol: 'USDC',
+        status: TokenStatus.ACTIVE,
+        priceUSD: 1,
+      })
+    );
+
+    const application = Object.assign(new LoanApplication(), {
+      id: 'application-1',
+      collateralRatio: 1.5,
+      collateralTokenIds: ['sol'],
+    });
+    rowsOf(LoanApplication).push(application);
+
+    // 1000 USDC borrowed against 10 SOL ($2000)
+    loan = Object.assign(new ActiveLoan(), {
+      id: 'loan-1',
+      loanApplicationId: 'application-1',
+      loanApplication: application,
+      borrowerId: 'borrower',
+      lenderId: 'lender',
+      borrowTokenId: 'usdc',
+      status: ActiveLoanStatus.ACTIVE,
+      remainingAmount: 1000,
+      metadata: {},
+    });
+    rowsOf(ActiveLoan).push(loan);
+
+    pledge = Object.assign(new CollateralPledge(), {
+      id: 'pledge-1',
+      activeLoanId: 'loan-1',
+      borrowerId: 'borrower',
+      tokenId: 'sol',
+      amount: 10,
+      status: CollateralPledgeStatus.LOCKED,
+    });
+    rowsOf(CollateralPledge).push(pledge);
+    holding('borrower', 'sol', 5, 10);
+
+    const module = await Test.createTestingModule({
+      providers: [
+        CollateralService,
+        repositoryFor(CollateralPledge),
+        repositoryFor(ActiveLoan),
+        repositoryFor(LoanParticipation),
+        {
+          provide: DataSource,
+          useValue: { manager, transaction: jest.fn((work) => work(manager)) },
+        },
+        {
+          provide: MonitoringService,
+          useValue: { trackLoanEvent: jest.fn() },
+        },
+        {
+          provide: PriceOracleService,
+          useValue: {
+            getPrice: jest.fn(async (token) => ({
+              priceUSD: Number(token.priceUSD),
+            })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(CollateralService);
+  });
+
+  describe('token balances', () => {
+    it('should move tokens between the available and locked balance', async () => {
+      await service.lockTokens(manager, 'borrower', 'sol', 4);
+      expect(balanceOf('borrower', 'sol')).toMatchObject({
+        balance: 15,
+        availableBalance: 1,
+        lockedBalance: 14,
+      });
+
+      await service.unlockTokens(manager, 'borrower', 'sol', 6);
+      expect(balanceOf('borrower', 'sol')).toMatchObject({
+        balance: 15,
+        availableBalance: 7,
+        lockedBalance: 8,
+      });
+    });
+
+    it('should refuse to lock more than the available balance', async () => {
+      await expect(
+        service.lockTokens(manager, 'borrower', 'sol', 6)
+      ).rejects.toThrow('Insufficient available collateral balance');
+    });
+
+    it('should refuse to drive a balance negative', async () => {
+      await expect(
+        service.unlockTokens(manager, 'borrower', 'sol', 11)
+      ).rejects.toThrow('Token balance cannot go negative');
+      await expect(
+        service.payOutLockedTokens(manager, 'lender', 'sol', [
+          { recipientId: 'borrower', amount: 1 },
+        ])
+      ).rejects.toThrow('Token balance cannot go negative');
+    });
+  });
+
+  it('should return released collateral to the borrower', async () => {
+    const released = await service.releaseCollateral(manager, loan);
+
+    expect(released).toEqual([pledge]);
+    expect(pledge.status).toBe(CollateralPledgeStatus.RELEASED);
+    expect(balanceOf('borrower', 'sol')).toMatchObject({
+      balance: 15,
+      availableBalance: 15,
+      lockedBalance: 0,
+    });
+  });
+
+  describe('seizeCollateral', () => {
+    beforeEach(() => {
+      rowsOf(LoanParticipation).push(
+        Object.assign(new LoanParticipation(), {
+          activeLoanId: 'loan-1',
+          lenderId: 'lender-a',
+          share: 0.25,
+        }),
+        Object.assign(new LoanParticipation(), {
+          activeLoanId: 'loan-1',
+          lenderId: 'lender-b',
+          share: 0.75,
+        })
+      );
+    });
+
+    it('should split a fraction of the pledges between the lenders and keep the rest locked', async () => {
+      const transfers = await service.seizeCollateral(manager, loan, 0.4);
+
+      expect(transfers).toEqual([
+        { recipientId: 'lender-a', tokenId: 'sol', amount: 1 },
+        { recipientId: 'lender-b', tokenId: 'sol', amount: 3 },
+      ]);
+      expect(pledge).toMatchObject({
+        amount: 6,
+        status: CollateralPledgeStatus.LOCKED,
+      });
+      expect(balanceOf('borrower', 'sol')).toMatchObject({
+        balance: 11,
+        availableBalance: 5,
+        lockedBalance: 6,
+      });
+      expect(balanceOf('lender-b', 'sol')).toMatchObject({
+        balance: 3,
+        availableBalance: 3,
+        lockedBalance: 0,
+      });
+    });
+
+    it('should seize every pledge in full by default', async () => {
+      await service.seizeCollateral(manager, loan);
+
+      expect(pledge.status).toBe(CollateralPledgeStatus.SEIZED);
+      expect(balanceOf('borrower', 'sol')).toMatchObject({
+        balance: 5,
+        lockedBalance: 0,
+      });
+      expect(balanceOf('lender-a', 'sol').balance).toBe(2.5);
+      expect(balanceOf('lender-b', 'sol').balance).toBe(7.5);
+    });
+  });
+
+  describe('withdrawExcessCollateral', () => {
+    it('should release collateral above the required ratio', async () => {
+      const collateral = await service.withdrawExcessCollateral(
+        'loan-1',
+        'borrower',
+        2
+      );
+
+      expect(pledge.amount).toBe(8);
+      expect(balanceOf('borrower', 'sol')).toMatchObject({
+        availableBalance: 7,
+        lockedBalance: 8,
+      });
+      expect(collateral).toMatchObject({
+        collateralValue: 1600,
+        requiredValue: 1500,
+        excessValue: 100,
+      });
+      expect(loan.currentCollateralRatio).toBe(1.6);
+    });
+
+    it('should refuse a withdrawal that would breach the collateral ratio', async () => {
+      await expect(
+        service.withdrawExcessCollateral('loan-1', 'borrower', 3)
+      ).rejects.toThrow('Collateral withdrawal failed');
+
+      expect(pledge.amount).toBe(10);
+      expect(balanceOf('borrower', 'sol')).toMatchObject({
+        availableBalance: 5,
+        lockedBalance: 10,
+      });
+    });
+  });
+});
@@ -0,0 +1,827 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import {
+  CollateralPledge,
+  CollateralPledgeStatus,
+} from '../entities/collateral-pledge.entity';
+import { ActiveLoan, ActiveLoanStatus } from '../entities/active-loan.entity';
+import { LoanParticipation } from '../entities/loan-participation.entity';
+import { LoanApplication } from '../entities/loan-application.entity';
+import { Token, TokenStatus } from '../entities/token.entity';
+import { TokenBalance } from '../entities/token-balance.entity';
+import { MonitoringService } from '../monitoring/monitoring.service';
+import { PriceOracleService } from '../oracle/price-oracle.service';
+
+export interface LoanCollateral {
+  loanId: string;
+  pledges: CollateralPledge[];
+  collateralValue: number;
+  debtValue: number;
+  requiredValue: number;
+  excessValue: number;
+  collateralRatio: number | null;
+}
+
+export interface CollateralTransfer {
+  recipientId: string;
+  tokenId: string;
+  amount: number;
+}
+
+@Injectable()
+export class CollateralService {
+  private readonly logger = new Logger(CollateralService.name);
+  private readonly MAX_STORED_RATIO = 999.99; // currentCollateralRatio is decimal(5,2)
+
+  constructor(
+    @InjectRepository(CollateralPledge)
+    private collateralPledgeRepository: Repository<CollateralPledge>,
+    @InjectRepository(ActiveLoan)
+    private activeLoanRepository: Repository<ActiveLoan>,
+    @InjectRepository(LoanParticipation)
+    private loanParticipationRepository: Repository<LoanParticipation>,
+    private readonly dataSource: DataSource,
+    private readonly monitoringService: MonitoringService,
+    private readonly priceOracleService: PriceOracleService
+  ) {}
+
+  /**
+   * Check that a loan's borrow and collateral tokens exist, are active and
+   * are priced
+   */
+  async validateLoanTokens(
+    borrowTokenId: string,
+    collateralTokenIds: string[]
+  ): Promise<void> {
+    if (!borrowTokenId) {
+      throw new Error('Borrow token is required');
+    }
+
+    if (!collateralTokenIds || collateralTokenIds.length === 0) {
+      throw new Error('At least one collateral token is required');
+    }
+
+    if (collateralTokenIds.includes(borrowTokenId)) {
+      throw new Error('The borrow token cannot be pledged as collateral');
+    }
+
+    await this.assertTokensActive([borrowTokenId, ...collateralTokenIds]);
+    for (const tokenId of new Set([borrowTokenId, ...collateralTokenIds])) {
+      await this.getTokenPrice(this.dataSource.manager, tokenId);
+    }
+  }
+
+  /**
+   * Reject suspended or inactive tokens, which cannot be used for new
+   * loans or pledges
+   */
+  async assertTokensActive(
+    tokenIds: string[],
+    manager: EntityManager = this.dataSource.manager
+  ): Promise<void> {
+    const uniqueIds = [...new Set(tokenIds.filter(Boolean))];
+    if (uniqueIds.length === 0) {
+      return;
+    }
+
+    const tokens = await manager.find(Token, {
+      where: { id: In(uniqueIds) },
+    });
+    for (const tokenId of uniqueIds) {
+      const token = tokens.find((candidate) => candidate.id === tokenId);
+      if (!token) {
+        throw new Error('Token not found');
+      }
+
+      if (token.status !== TokenStatus.ACTIVE) {
+        throw new Error(`Token ${token.symbol} is ${token.status}`);
+      }
+    }
+  }
+
+  /**
+   * Get the USD price of a loan's borrow token. Loans that predate borrow
+   * tokens are denominated in USD.
+   */
+  async getBorrowTokenPrice(
+    loan: ActiveLoan,
+    manager: EntityManager = this.dataSource.manager
+  ): Promise<number> {
+    return loan.borrowTokenId
+      ? this.getTokenPrice(manager, loan.borrowTokenId)
+      : 1;
+  }
+
+  /**
+   * Value a loan's outstanding balance in USD
+   */
+  async getDebtValue(
+    loan: ActiveLoan,
+    manager: EntityManager = this.dataSource.manager
+  ): Promise<number> {
+    return (
+      Number(loan.remainingAmount) *
+      (await this.getBorrowTokenPrice(loan, manager))
+    );
+  }
+
+  /**
+   * Value a loan's locked pledges in USD at current oracle prices. Loans
+   * that predate pledges keep their stored collateral value.
+   */
+  async getCollateralValue(
+    loan: ActiveLoan,
+    manager: EntityManager = this.dataSource.manager
+  ): Promise<number> {
+    const pledges = await this.getLockedPledges(manager, loan.id);
+    if (pledges.length === 0) {
+      return Number(loan.collateralValue || 0);
+    }
+
+    return this.valuePledges(manager, pledges);
+  }
+
+  /**
+   * Lock enough of the borrower's collateral tokens to cover the USD value
+   * of the loan's outstanding balance at the given ratio, on top of
+   * anything already pledged. Tokens are drawn in the order given, each up
+   * to the borrower's available balance. The caller saves the loan.
+   */
+  async lockRequiredCollateral(
+    manager: EntityManager,
+    loan: ActiveLoan,
+    tokenIds: string[],
+    collateralRatio: number
+  ): Promise<CollateralPledge[]> {
+    const requiredValue =
+      (await this.getDebtValue(loan, manager)) * collateralRatio;
+    const pledgedValue = await this.valuePledges(
+      manager,
+      await this.getLockedPledges(manager, loan.id)
+    );
+    let shortfall = requiredValue - pledgedValue;
+
+    const pledges: CollateralPledge[] = [];
+    for (const tokenId of tokenIds || []) {
+      if (this.roundCurrency(shortfall) <= 0) {
+        break;
+      }
+
+      const price = await this.getTokenPrice(manager, tokenId);
+      const balance = await manager.findOne(TokenBalance, {
+        where: { userId: loan.borrowerId, tokenId },
+      });
+      const amount = Math.min(
+        Number(balance?.availableBalance || 0),
+        Math.ceil((shortfall / price) * 1e8) / 1e8
+      );
+      if (amount <= 0) {
+        continue;
+      }
+
+      pledges.push(await this.pledge(manager, loan, tokenId, amount));
+      shortfall -= amount * price;
+    }
+
+    if (this.roundCurrency(shortfall) > 0) {
+      throw new Error('Insufficient available collateral balance');
+    }
+
+    await this.refreshValuation(manager, loan);
+    return pledges;
+  }
+
+  /**
+   * Return all locked collateral of a repaid loan to the borrower.
+   * The caller saves the loan.
+   */
+  async releaseCollateral(
+    manager: EntityManager,
+    loan: ActiveLoan
+  ): Promise<CollateralPledge[]> {
+    const pledges = await this.getLockedPledges(manager, loan.id);
+    const releasedAt = new Date();
+
+    for (const pledge of pledges) {
+      await this.unlockTokens(
+        manager,
+        pledge.borrowerId,
+        pledge.tokenId,
+        Number(pledge.amount)
+      );
+      pledge.status = CollateralPledgeStatus.RELEASED;
+      pledge.releasedAt = releasedAt;
+    }
+    await manager.save(pledges);
+
+    loan.metadata = {
+      ...(loan.metadata || {}),
+      collateralReleasedAt: releasedAt,
+    };
+
+    return pledges;
+  }
+
+  /**
+   * Move the collateral pledged to one loan onto its replacement
+   */
+  async transferCollateral(
+    manager: EntityManager,
+    fromLoan: ActiveLoan,
+    toLoan: ActiveLoan
+  ): Promise<CollateralPledge[]> {
+    const pledges = await this.getLockedPledges(manager, fromLoan.id);
+
+    for (const pledge of pledges) {
+      pledge.activeLoanId = toLoan.id;
+      pledge.metadata = {
+        ...(pledge.metadata || {}),
+        transferredFrom: fromLoan.id,
+      };
+    }
+    await manager.save(pledges);
+
+    return pledges;
+  }
+
+  /**
+   * Hand a fraction of a liquidated loan's collateral, all of it by
+   * default, to its lenders pro rata to their shares. The last lender
+   * absorbs rounding.
+   */
+  async seizeCollateral(
+    manager: EntityManager,
+    loan: ActiveLoan,
+    fraction = 1
+  ): Promise<CollateralTransfer[]> {
+    const participations = await manager.find(LoanParticipation, {
+      where: { activeLoanId: loan.id },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+    const recipients =
+      participations.length > 0
+        ? participations.map((participation) => ({
+            recipientId: participation.lenderId,
+            share: Number(participation.share),
+          }))
+        : [{ recipientId: loan.lenderId, share: 1 }];
+
+    return this.distributePledges(manager, loan, recipients, fraction);
+  }
+
+  /**
+   * Hand a fraction of each of a loan's pledges, all of them by default,
+   * to a single recipient such as the winner of a liquidation auction.
+   * When collateral remains the loan is revalued; the caller saves it.
+   */
+  async awardCollateral(
+    manager: EntityManager,
+    loan: ActiveLoan,
+    recipientId: string,
+    fraction = 1
+  ): Promise<CollateralTransfer[]> {
+    const transfers = await this.distributePledges(
+      manager,
+      loan,
+      [{ recipientId, share: 1 }],
+      fraction
+    );
+    if (fraction < 1) {
+      await this.refreshValuation(manager, loan);
+    }
+
+    return transfers;
+  }
+
+  /**
+   * Pay tokens out of a user's locked balance to several recipients
+   */
+  async payOutLockedTokens(
+    manager: EntityManager,
+    payerId: string,
+    tokenId: string,
+    payouts: { recipientId: string; amount: number }[]
+  ): Promise<CollateralTransfer[]> {
+    const transfers = payouts
+      .filter((payout) => payout.amount > 0)
+      .map((payout) => ({
+        recipientId: payout.recipientId,
+        tokenId,
+        amount: this.roundUnits(payout.amount),
+      }));
+    const total = transfers.reduce((sum, transfer) => sum + transfer.amount, 0);
+
+    await this.adjustBalance(manager, payerId, tokenId, {
+      balance: -total,
+      lockedBalance: -total,
+    });
+    for (const transfer of transfers) {
+      await this.adjustBalance(manager, transfer.recipientId, tokenId, {
+        balance: transfer.amount,
+        availableBalance: transfer.amount,
+      });
+    }
+
+    return transfers;
+  }
+
+  /**
+   * Move tokens from a user's available balance into their locked balance
+   */
+  async lockTokens(
+    manager: EntityManager,
+    userId: string,
+    tokenId: string,
+    amount: number
+  ): Promise<void> {
+    const balance = await manager.findOne(TokenBalance, {
+      where: { userId, tokenId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!balance || Number(balance.availableBalance) < amount) {
+      throw new Error('Insufficient available collateral balance');
+    }
+
+    await this.adjustBalance(manager, userId, tokenId, {
+      availableBalance: -amount,
+      lockedBalance: amount,
+    });
+  }
+
+  /**
+   * Return tokens from a user's locked balance to their available balance
+   */
+  async unlockTokens(
+    manager: EntityManager,
+    userId: string,
+    tokenId: string,
+    amount: number
+  ): Promise<void> {
+    await this.adjustBalance(manager, userId, tokenId, {
+      availableBalance: amount,
+      lockedBalance: -amount,
+    });
+  }
+
+  /**
+   * Take tokens out of a user's available balance, e.g. into a lending
+   * pool's custody
+   */
+  async debitTokens(
+    manager: EntityManager,
+    userId: string,
+    tokenId: string,
+    amount: number
+  ): Promise<void> {
+    const balance = await manager.findOne(TokenBalance, {
+      where: { userId, tokenId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!balance || Number(balance.availableBalance) < amount) {
+      throw new Error('Insufficient available token balance');
+    }
+
+    await this.adjustBalance(manager, userId, tokenId, {
+      balance: -amount,
+      availableBalance: -amount,
+    });
+  }
+
+  /**
+   * Pay tokens into a user's available balance, e.g. out of a lending
+   * pool's custody
+   */
+  async creditTokens(
+    manager: EntityManager,
+    userId: string,
+    tokenId: string,
+    amount: number
+  ): Promise<void> {
+    await this.adjustBalance(manager, userId, tokenId, {
+      balance: amount,
+      availableBalance: amount,
+    });
+  }
+
+  /**
+   * Pledge additional collateral to an active loan
+   */
+  async topUpCollateral(
+    loanId: string,
+    borrowerId: string,
+    amount: number,
+    tokenId?: string
+  ): Promise<LoanCollateral> {
+    try {
+      if (!(amount > 0)) {
+        throw new Error('Collateral amount must be positive');
+      }
+
+      const loan = await this.dataSource.transaction(async (manager) => {
+        const loan = await this.lockBorrowerLoan(manager, loanId, borrowerId);
+        const acceptedTokenIds = loan.loanApplication.collateralTokenIds || [];
+        const pledgeTokenId =
+          tokenId ||
+          (await this.getLockedPledges(manager, loan.id))[0]?.tokenId ||
+          acceptedTokenIds[0];
+        if (!pledgeTokenId) {
+          throw new Error('Collateral token is required');
+        }
+
+        if (
+          acceptedTokenIds.length > 0 &&
+          !acceptedTokenIds.includes(pledgeTokenId)
+        ) {
+          throw new Error('Token is not accepted as collateral for this loan');
+        }
+        await this.assertTokensActive([pledgeTokenId], manager);
+
+        await this.pledge(manager, loan, pledgeTokenId, amount);
+        await this.refreshValuation(manager, loan);
+        return manager.save(loan);
+      });
+
+      this.logger.log(`Collateral topped up for loan ${loanId}: ${amount}`);
+
+      await this.monitoringService.trackLoanEvent(
+        loanId,
+        'collateral_topped_up',
+        { amount, collateralValue: loan.collateralValue }
+      );
+
+      return this.getLoanCollateral(loanId, borrowerId);
+    } catch (error) {
+      this.logger.error('Failed to top up collateral', error);
+      throw new Error('Collateral top-up failed');
+    }
+  }
+
+  /**
+   * Withdraw collateral above what the loan's collateral ratio requires
+   */
+  async withdrawExcessCollateral(
+    loanId: string,
+    borrowerId: string,
+    amount: number,
+    tokenId?: string
+  ): Promise<LoanCollateral> {
+    try {
+      if (!(amount > 0)) {
+        throw new Error('Collateral amount must be positive');
+      }
+
+      const loan = await this.dataSource.transaction(async (manager) => {
+        const loan = await this.lockBorrowerLoan(manager, loanId, borrowerId);
+        const pledges = await this.getLockedPledges(manager, loan.id);
+        const pledge = tokenId
+          ? pledges.find((candidate) => candidate.tokenId === tokenId)
+          : pledges[0];
+        if (!pledge || Number(pledge.amount) < amount) {
+          throw new Error('Insufficient pledged collateral');
+        }
+
+        const price = await this.getTokenPrice(manager, pledge.tokenId);
+        const remainingValue =
+          (await this.valuePledges(manager, pledges)) - amount * price;
+        const requiredValue =
+          (await this.getDebtValue(loan, manager)) *
+          Number(loan.loanApplication.collateralRatio);
+        if (remainingValue < requiredValue) {
+          throw new Error('Withdrawal would breach the collateral ratio');
+        }
+
+        await this.unlockTokens(manager, borrowerId, pledge.tokenId, amount);
+        pledge.amount = this.roundUnits(Number(pledge.amount) - amount);
+        if (pledge.amount <= 0) {
+          pledge.status = CollateralPledgeStatus.RELEASED;
+          pledge.releasedAt = new Date();
+        }
+        await manager.save(pledge);
+
+        await this.refreshValuation(manager, loan);
+        return manager.save(loan);
+      });
+
+      this.logger.log(`Excess collateral withdrawn from loan ${loanId}`);
+
+      await this.monitoringService.trackLoanEvent(
+        loanId,
+        'collateral_withdrawn',
+        { amount, collateralValue: loan.collateralValue }
+      );
+
+      return this.getLoanCollateral(loanId, borrowerId);
+    } catch (error) {
+      this.logger.error('Failed to withdraw collateral', error);
+      throw new Error('Collateral withdrawal failed');
+    }
+  }
+
+  /**
+   * Get the collateral pledged to a loan and its headroom over the
+   * required ratio
+   */
+  async getLoanCollateral(
+    loanId: string,
+    userId: string
+  ): Promise<LoanCollateral> {
+    const loan = await this.activeLoanRepository.findOne({
+      where: { id: loanId },
+      relations: ['loanApplication'],
+    });
+    if (!loan) {
+      throw new Error('Unauthorized or loan not found');
+    }
+
+    if (loan.borrowerId !== userId && loan.lenderId !== userId) {
+      const participation = await this.loanParticipationRepository.findOne({
+        where: { activeLoanId: loanId, lenderId: userId },
+      });
+      if (!participation) {
+        throw new Error('Unauthorized or loan not found');
+      }
+    }
+
+    const pledges = await this.collateralPledgeRepository.find({
+      where: { activeLoanId: loanId },
+      relations: ['token'],
+      order: { createdAt: 'ASC' },
+    });
+    const collateralValue = this.roundCurrency(
+      await this.valuePledges(
+        this.dataSource.manager,
+        pledges.filter(
+          (pledge) => pledge.status === CollateralPledgeStatus.LOCKED
+        )
+      )
+    );
+    const debtValue = this.roundCurrency(await this.getDebtValue(loan));
+    const requiredValue = this.roundCurrency(
+      debtValue * Number(loan.loanApplication.collateralRatio)
+    );
+
+    return {
+      loanId,
+      pledges,
+      collateralValue,
+      debtValue,
+      requiredValue,
+      excessValue: Math.max(
+        0,
+        this.roundCurrency(collateralValue - requiredValue)
+      ),
+      collateralRatio:
+        debtValue > 0
+          ? Math.round((collateralValue / debtValue) * 1e4) / 1e4
+          : null,
+    };
+  }
+
+  /**
+   * Move a loan's locked pledges out of the borrower's balance and split
+   * them between recipients by share. The last recipient absorbs rounding.
+   */
+  private async distributePledges(
+    manager: EntityManager,
+    loan: ActiveLoan,
+    recipients: { recipientId: string; share: number }[],
+    fraction = 1
+  ): Promise<CollateralTransfer[]> {
+    const pledges = await this.getLockedPledges(manager, loan.id);
+    const seizedAt = new Date();
+    const transfers: CollateralTransfer[] = [];
+
+    for (const pledge of pledges) {
+      const pledged = Number(pledge.amount);
+      const amount =
+        fraction < 1 ? this.roundUnits(pledged * fraction) : pledged;
+      await this.adjustBalance(manager, pledge.borrowerId, pledge.tokenId, {
+        balance: -amount,
+        lockedBalance: -amount,
+      });
+
+      let allocated = 0;
+      const pledgeTransfers: CollateralTransfer[] = [];
+      for (let i = 0; i < recipients.length; i++) {
+        const isLast = i === recipients.length - 1;
+        const portion = isLast
+          ? this.roundUnits(amount - allocated)
+          : this.roundUnits(amount * recipients[i].share);
+        allocated = this.roundUnits(allocated + portion);
+
+        await this.adjustBalance(
+          manager,
+          recipients[i].recipientId,
+          pledge.tokenId,
+          { balance: portion, availableBalance: portion }
+        );
+        pledgeTransfers.push({
+          recipientId: recipients[i].recipientId,
+          tokenId: pledge.tokenId,
+          amount: portion,
+        });
+      }
+
+      // A partly sold pledge stays locked for what is left of it
+      const remaining = this.roundUnits(pledged - amount);
+      if (remaining > 0) {
+        pledge.amount = remaining;
+      } else {
+        pledge.status = CollateralPledgeStatus.SEIZED;
+        pledge.seizedAt = seizedAt;
+      }
+      pledge.metadata = {
+        ...(pledge.metadata || {}),
+        transfers: [...(pledge.metadata?.transfers || []), ...pledgeTransfers],
+      };
+      transfers.push(...pledgeTransfers);
+    }
+    await manager.save(pledges);
+
+    return transfers;
+  }
+
+  private async lockBorrowerLoan(
+    manager: EntityManager,
+    loanId: string,
+    borrowerId: string
+  ): Promise<ActiveLoan> {
+    const loan = await manager.findOne(ActiveLoan, {
+      where: { id: loanId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!loan || loan.borrowerId !== borrowerId) {
+      throw new Error('Unauthorized or loan not found');
+    }
+
+    if (loan.status !== ActiveLoanStatus.ACTIVE) {
+      throw new Error('Loan is not active');
+    }
+
+    // Loaded separately: row locks cannot cover the outer join of a relation
+    loan.loanApplication = await manager.findOne(LoanApplication, {
+      where: { id: loan.loanApplicationId },
+    });
+    return loan;
+  }
+
+  /**
+   * Lock tokens from the borrower's available balance into a pledge on
+   * the loan, adding to an existing pledge of the same token
+   */
+  private async pledge(
+    manager: EntityManager,
+    loan: ActiveLoan,
+    tokenId: string,
+    amount: number
+  ): Promise<CollateralPledge> {
+    await this.lockTokens(manager, loan.borrowerId, tokenId, amount);
+
+    const existing = await manager.findOne(CollateralPledge, {
+      where: {
+        activeLoanId: loan.id,
+        tokenId,
+        status: CollateralPledgeStatus.LOCKED,
+      },
+    });
+    if (existing) {
+      existing.amount = this.roundUnits(Number(existing.amount) + amount);
+      return manager.save(existing);
+    }
+
+    return manager.save(
+      manager.create(CollateralPledge, {
+        activeLoanId: loan.id,
+        borrowerId: loan.borrowerId,
+        tokenId,
+        amount,
+        status: CollateralPledgeStatus.LOCKED,
+      })
+    );
+  }
+
+  /**
+   * Apply deltas to a user's token balance, creating the balance row if
+   * the user has never held the token
+   */
+  private async adjustBalance(
+    manager: EntityManager,
+    userId: string,
+    tokenId: string,
+    delta: {
+      balance?: number;
+      lockedBalance?: number;
+      availableBalance?: number;
+    }
+  ): Promise<TokenBalance> {
+    const balance =
+      (await manager.findOne(TokenBalance, {
+        where: { userId, tokenId },
+        lock: { mode: 'pessimistic_write' },
+      })) ||
+      manager.create(TokenBalance, {
+        userId,
+        tokenId,
+        balance: 0,
+        lockedBalance: 0,
+        availableBalance: 0,
+      });
+
+    balance.balance = this.roundUnits(
+      Number(balance.balance) + (delta.balance || 0)
+    );
+    balance.lockedBalance = this.roundUnits(
+      Number(balance.lockedBalance) + (delta.lockedBalance || 0)
+    );
+    balance.availableBalance = this.roundUnits(
+      Number(balance.availableBalance) + (delta.availableBalance || 0)
+    );
+    if (balance.lockedBalance < 0 || balance.availableBalance < 0) {
+      throw new Error('Token balance cannot go negative');
+    }
+
+    const token = await manager.findOne(Token, { where: { id: tokenId } });
+    if (token?.priceUSD) {
+      balance.valueUSD = this.roundUnits(
+        balance.balance * Number(token.priceUSD)
+      );
+    }
+    balance.lastUpdated = new Date();
+
+    return manager.save(balance);
+  }
+
+  /**
+   * Recompute the loan's USD collateral value and its ratio to the USD
+   * value of the debt from the locked pledges
+   */
+  private async refreshValuation(
+    manager: EntityManager,
+    loan: ActiveLoan
+  ): Promise<void> {
+    const collateralValue = await this.valuePledges(
+      manager,
+      await this.getLockedPledges(manager, loan.id)
+    );
+    const debtValue = await this.getDebtValue(loan, manager);
+
+    loan.collateralValue = this.roundCurrency(collateralValue);
+    loan.currentCollateralRatio =
+      debtValue > 0
+        ? Math.min(
+            this.MAX_STORED_RATIO,
+            this.roundCurrency(collateralValue / debtValue)
+          )
+        : null;
+  }
+
+  private async valuePledges(
+    manager: EntityManager,
+    pledges: CollateralPledge[]
+  ): Promise<number> {
+    if (pledges.length === 0) {
+      return 0;
+    }
+
+    const prices = new Map<string, number>();
+    for (const tokenId of new Set(pledges.map((pledge) => pledge.tokenId))) {
+      prices.set(tokenId, await this.getTokenPrice(manager, tokenId));
+    }
+
+    return pledges.reduce(
+      (sum, pledge) => sum + Number(pledge.amount) * prices.get(pledge.tokenId),
+      0
+    );
+  }
+
+  private async getTokenPrice(
+    manager: EntityManager,
+    tokenId: string
+  ): Promise<number> {
+    const token = await manager.findOne(Token, { where: { id: tokenId } });
+    if (!token) {
+      throw new Error('Token not found');
+    }
+
+    return (await this.priceOracleService.getPrice(token)).priceUSD;
+  }
+
+  private getLockedPledges(
+    manager: EntityManager,
+    loanId: string
+  ): Promise<CollateralPledge[]> {
+    return manager.find(CollateralPledge, {
+      where: { activeLoanId: loanId, status: CollateralPledgeStatus.LOCKED },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  private roundUnits(value: number): number {
+    return Math.round(value * 1e8) / 1e8;
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
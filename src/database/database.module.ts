@@ -9,6 +9,22 @@ import { LoanPayment } from '../entities/loan-payment.entity';
 import { UserWallet } from '../entities/user-wallet.entity';
 import { Token } from '../entities/token.entity';
 import { TokenBalance } from '../entities/token-balance.entity';
+import { TokenPrice } from '../entities/token-price.entity';
+import { LiquidationAuction } from '../entities/liquidation-auction.entity';
+import { AuctionBid } from '../entities/auction-bid.entity';
+import { LoanParticipation } from '../entities/loan-participation.entity';
+import { LendingPool } from '../entities/lending-pool.entity';
+import { PoolPosition } from '../entities/pool-position.entity';
+import { PoolBorrow } from '../entities/pool-borrow.entity';
+import { CollateralPledge } from '../entities/collateral-pledge.entity';
+import { ProtocolParameter } from '../entities/protocol-parameter.entity';
+import { GovernanceProposal } from '../entities/governance-proposal.entity';
+import { Vote } from '../entities/vote.entity';
+import { TimelockEntry } from '../entities/timelock-entry.entity';
+import { GovernanceExecution } from '../entities/governance-execution.entity';
+import { VoteDelegation } from '../entities/vote-delegation.entity';
+import { VotingPowerSnapshot } from '../entities/voting-power-snapshot.entity';
+import { EncryptedBallot } from '../entities/encrypted-ballot.entity';
 
 @Module({
   imports: [
@@ -30,6 +46,22 @@ import { TokenBalance } from '../entities/token-balance.entity';
           UserWallet,
           Token,
           TokenBalance,
+          LoanParticipation,
+          LendingPool,
+          PoolPosition,
+          PoolBorrow,
+          CollateralPledge,
+          TokenPrice,
+          LiquidationAuction,
+          AuctionBid,
+          ProtocolParameter,
+          GovernanceProposal,
+          Vote,
+          TimelockEntry,
+          GovernanceExecution,
+          VoteDelegation,
+          VotingPowerSnapshot,
+          EncryptedBallot,
         ],
         synchronize: configService.get('NODE_ENV') === 'development',
         logging: configService.get('NODE_ENV') === 'development',
@@ -46,6 +78,22 @@ import { TokenBalance } from '../entities/token-balance.entity';
       UserWallet,
       Token,
       TokenBalance,
+      LoanParticipation,
+      LendingPool,
+      PoolPosition,
+      PoolBorrow,
+      CollateralPledge,
+      TokenPrice,
+      LiquidationAuction,
+      AuctionBid,
+      ProtocolParameter,
+      GovernanceProposal,
+      Vote,
+      TimelockEntry,
+      GovernanceExecution,
+      VoteDelegation,
+      VotingPowerSnapshot,
+      EncryptedBallot,
     ]),
   ],
   exports: [TypeOrmModule],
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { EncryptionService } from './encryption.service';
 import { EncryptionController } from './encryption.controller';
+import { GovernanceModule } from '../governance/governance.module';
 
 @Module({
+  imports: [GovernanceModule],
   providers: [EncryptionService],
   controllers: [EncryptionController],
   exports: [EncryptionService],
@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as crypto from 'crypto';
+import { ProtocolConfigService } from '../governance/protocol-config.service';
 
 export interface EncryptedData {
   data: string;
@@ -25,7 +26,10 @@ export class EncryptionService {
   private readonly keyLength = 32; // 256 bits
   private readonly ivLength = 16; // 128 bits
 
-  constructor(private configService: ConfigService) {}
+  constructor(
+    private configService: ConfigService,
+    private protocolConfigService: ProtocolConfigService
+  ) {}
 
   /**
    * Encrypts sensitive lending parameters using AES-256-GCM
@@ -200,8 +204,13 @@ export class EncryptionService {
       else if (params.collateralRatio < 2.0) riskScore += 20;
       else if (params.collateralRatio < 2.5) riskScore += 10;
 
-      const approved = riskScore < 50;
-      const maxAmount = approved ? Math.min(params.amount * 1.2, 200000) : 0;
+      // Approval limits are governance parameters
+      const { maxRiskScore, maxLoanAmount } =
+        this.protocolConfigService.getParameters();
+      const approved = riskScore < maxRiskScore;
+      const maxAmount = approved
+        ? Math.min(params.amount * 1.2, maxLoanAmount)
+        : 0;
 
       this.logger.log(
         `Risk assessment completed. Score: ${riskScore}, Approved: ${approved}`
@@ -12,6 +12,9 @@ import {
 import { User } from './user.entity';
 import { LoanApplication } from './loan-application.entity';
 import { LoanPayment } from './loan-payment.entity';
+import { LoanParticipation } from './loan-participation.entity';
+import { CollateralPledge } from './collateral-pledge.entity';
+import { Token } from './token.entity';
 
 export enum ActiveLoanStatus {
   ACTIVE = 'active',
@@ -39,8 +42,11 @@ export class ActiveLoan {
   @Column('uuid')
   lenderId: string;
 
+  @Column('uuid', { nullable: true })
+  borrowTokenId: string;
+
   @Column({ type: 'decimal', precision: 15, scale: 2 })
-  principalAmount: number;
+  principalAmount: number; // in units of the borrow token
 
   @Column({ type: 'decimal', precision: 5, scale: 4 })
   interestRate: number;
@@ -65,7 +71,7 @@ export class ActiveLoan {
   status: ActiveLoanStatus;
 
   @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true })
-  collateralValue: number;
+  collateralValue: number; // in USD
 
   @Column({ type: 'decimal', precision: 5, scale: 2, nullable: true })
   currentCollateralRatio: number;
@@ -101,6 +107,19 @@ export class ActiveLoan {
   @JoinColumn({ name: 'lenderId' })
   lender: User;
 
+  @ManyToOne(() => Token)
+  @JoinColumn({ name: 'borrowTokenId' })
+  borrowToken: Token;
+
   @OneToMany(() => LoanPayment, (payment) => payment.activeLoan)
   payments: LoanPayment[];
+
+  @OneToMany(
+    () => LoanParticipation,
+    (participation) => participation.activeLoan
+  )
+  participations: LoanParticipation[];
+
+  @OneToMany(() => CollateralPledge, (pledge) => pledge.activeLoan)
+  collateralPledges: CollateralPledge[];
 }
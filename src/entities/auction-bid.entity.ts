@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { LiquidationAuction } from './liquidation-auction.entity';
+
+export enum AuctionBidStatus {
+  LEADING = 'leading',
+  OUTBID = 'outbid',
+  WON = 'won',
+  REFUNDED = 'refunded',
+}
+
+@Entity('auction_bids')
+@Index(['auctionId'])
+@Index(['bidderId'])
+export class AuctionBid {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  auctionId: string;
+
+  @Column('uuid')
+  bidderId: string;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  amount: number; // in units of the auction's borrow token
+
+  @Column({
+    type: 'enum',
+    enum: AuctionBidStatus,
+    default: AuctionBidStatus.LEADING,
+  })
+  status: AuctionBidStatus;
+
+  @Column({ type: 'json', nullable: true })
+  metadata: any;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => LiquidationAuction, (auction) => auction.bids)
+  @JoinColumn({ name: 'auctionId' })
+  auction: LiquidationAuction;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'bidderId' })
+  bidder: User;
+}
@@ -0,0 +1,75 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Token } from './token.entity';
+import { ActiveLoan } from './active-loan.entity';
+
+export enum CollateralPledgeStatus {
+  LOCKED = 'locked',
+  RELEASED = 'released',
+  SEIZED = 'seized',
+}
+
+@Entity('collateral_pledges')
+@Index(['activeLoanId'])
+@Index(['borrowerId'])
+@Index(['status'])
+export class CollateralPledge {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  activeLoanId: string;
+
+  @Column('uuid')
+  borrowerId: string;
+
+  @Column('uuid')
+  tokenId: string;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  amount: number; // token units held in escrow
+
+  @Column({
+    type: 'enum',
+    enum: CollateralPledgeStatus,
+    default: CollateralPledgeStatus.LOCKED,
+  })
+  status: CollateralPledgeStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  releasedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  seizedAt: Date;
+
+  @Column({ type: 'json', nullable: true })
+  metadata: any;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => ActiveLoan, (loan) => loan.collateralPledges)
+  @JoinColumn({ name: 'activeLoanId' })
+  activeLoan: ActiveLoan;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'borrowerId' })
+  borrower: User;
+
+  @ManyToOne(() => Token)
+  @JoinColumn({ name: 'tokenId' })
+  token: Token;
+}
@@ -0,0 +1,63 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { GovernanceProposal } from './governance-proposal.entity';
+
+/**
+ * A secret ballot on a proposal. The choice is encrypted by the voter with
+ * the Arcium MXE public key and is never decrypted by the protocol; it is
+ * only counted inside the MPC tally.
+ */
+@Entity('governance_encrypted_ballots')
+@Index(['proposalId', 'voterId'], { unique: true })
+@Index(['receipt'], { unique: true })
+export class EncryptedBallot {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  proposalId: string;
+
+  @Column('uuid')
+  voterId: string;
+
+  @Column('text')
+  ciphertext: string; // base64
+
+  @Column()
+  nonce: string; // base64
+
+  @Column()
+  publicKey: string; // base64 x25519 key of the voter
+
+  @Column({ type: 'decimal', precision: 20, scale: 4 })
+  votingPower: number;
+
+  @Column()
+  receipt: string; // sha256 of the proposal and the encrypted ballot
+
+  @Column({ default: false })
+  counted: boolean;
+
+  @Column({ nullable: true })
+  tallyComputationId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Relations
+  @ManyToOne(() => GovernanceProposal)
+  @JoinColumn({ name: 'proposalId' })
+  proposal: GovernanceProposal;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'voterId' })
+  voter: User;
+}
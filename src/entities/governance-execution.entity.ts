@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { GovernanceProposal, ProposalType } from './governance-proposal.entity';
+
+export interface ParameterChange {
+  parameter: string;
+  before: any;
+  after: any;
+}
+
+/**
+ * Audit record of an executed proposal. Written once and never updated.
+ */
+@Entity('governance_executions')
+@Index(['proposalId'])
+@Index(['executedAt'])
+export class GovernanceExecution {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  proposalId: string;
+
+  @Column('uuid')
+  timelockEntryId: string;
+
+  @Column({ type: 'enum', enum: ProposalType })
+  proposalType: ProposalType;
+
+  @Column({ type: 'uuid', nullable: true })
+  executedBy: string; // null when executed by the timelock scheduler
+
+  @Column({ type: 'json' })
+  parametersBefore: Record<string, any>;
+
+  @Column({ type: 'json' })
+  parametersAfter: Record<string, any>;
+
+  @Column({ type: 'json' })
+  changes: ParameterChange[];
+
+  @CreateDateColumn()
+  executedAt: Date;
+
+  // Relations
+  @ManyToOne(() => GovernanceProposal)
+  @JoinColumn({ name: 'proposalId' })
+  proposal: GovernanceProposal;
+}
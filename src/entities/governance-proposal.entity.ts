@@ -0,0 +1,110 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Vote } from './vote.entity';
+
+export enum ProposalType {
+  PARAMETER_CHANGE = 'PARAMETER_CHANGE',
+  PROTOCOL_UPGRADE = 'PROTOCOL_UPGRADE',
+  EMERGENCY_PAUSE = 'EMERGENCY_PAUSE',
+  TREASURY_ALLOCATION = 'TREASURY_ALLOCATION',
+}
+
+export enum ProposalStatus {
+  DRAFT = 'DRAFT',
+  ACTIVE = 'ACTIVE',
+  PASSED = 'PASSED',
+  REJECTED = 'REJECTED',
+  QUEUED = 'QUEUED', // passed and waiting out the timelock
+  EXECUTED = 'EXECUTED',
+  CANCELLED = 'CANCELLED',
+}
+
+@Entity('governance_proposals')
+@Index(['status', 'endTime'])
+@Index(['proposerId'])
+export class GovernanceProposal {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  title: string;
+
+  @Column('text')
+  description: string;
+
+  @Column('uuid')
+  proposerId: string;
+
+  @Column({ type: 'enum', enum: ProposalType })
+  proposalType: ProposalType;
+
+  @Column({ type: 'json' })
+  parameters: Record<string, any>;
+
+  @Column({
+    type: 'enum',
+    enum: ProposalStatus,
+    default: ProposalStatus.DRAFT,
+  })
+  status: ProposalStatus;
+
+  @Column({ default: false })
+  secretBallot: boolean; // votes are encrypted and tallied through Arcium
+
+  @Column({ type: 'timestamp', nullable: true })
+  startTime: Date; // set on activation
+
+  @Column({ type: 'timestamp', nullable: true })
+  endTime: Date;
+
+  @Column({ type: 'decimal', precision: 20, scale: 4, default: 0 })
+  votesFor: number; // voting power
+
+  @Column({ type: 'decimal', precision: 20, scale: 4, default: 0 })
+  votesAgainst: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 4, default: 0 })
+  votesAbstain: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 4, default: 0 })
+  totalVotes: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 4, default: 0 })
+  invalidVotePower: number; // secret ballots dropped for an invalid choice
+
+  @Column({ type: 'decimal', precision: 20, scale: 4 })
+  quorum: number; // voting power that must be cast for or against
+
+  @Column({ nullable: true })
+  tallyComputationId: string; // Arcium computation that revealed a secret tally
+
+  @Column({ type: 'uuid', nullable: true })
+  executedBy: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  executedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'proposerId' })
+  proposer: User;
+
+  @OneToMany(() => Vote, (vote) => vote.proposal)
+  votes: Vote[];
+}
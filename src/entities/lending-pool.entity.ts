@@ -0,0 +1,78 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+  Index,
+} from 'typeorm';
+import { PoolPosition } from './pool-position.entity';
+import { PoolBorrow } from './pool-borrow.entity';
+
+export enum LendingPoolStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+  CLOSED = 'closed',
+}
+
+@Entity('lending_pools')
+@Index(['asset'])
+@Index(['status'])
+export class LendingPool {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ unique: true })
+  name: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  asset: string;
+
+  @Column({
+    type: 'enum',
+    enum: LendingPoolStatus,
+    default: LendingPoolStatus.ACTIVE,
+  })
+  status: LendingPoolStatus;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, default: 0 })
+  cash: number; // liquidity available to borrow or withdraw
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, default: 0 })
+  totalBorrowed: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, default: 0 })
+  totalReserves: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, default: 0 })
+  totalShares: number;
+
+  @Column({ type: 'decimal', precision: 24, scale: 18, default: 1 })
+  borrowIndex: number;
+
+  @Column({ type: 'decimal', precision: 5, scale: 4, default: 0.8 })
+  optimalUtilization: number; // kink of the interest rate curve
+
+  @Column({ type: 'decimal', precision: 5, scale: 4, default: 0.1 })
+  reserveFactor: number;
+
+  @Column({ type: 'timestamp' })
+  lastAccruedAt: Date;
+
+  @Column({ type: 'json', nullable: true })
+  metadata: any;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @OneToMany(() => PoolPosition, (position) => position.pool)
+  positions: PoolPosition[];
+
+  @OneToMany(() => PoolBorrow, (borrow) => borrow.pool)
+  borrows: PoolBorrow[];
+}
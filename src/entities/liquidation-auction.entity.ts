@@ -0,0 +1,108 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ActiveLoan } from './active-loan.entity';
+import { Token } from './token.entity';
+import { AuctionBid } from './auction-bid.entity';
+
+export enum AuctionType {
+  DUTCH = 'dutch',
+  ENGLISH = 'english',
+}
+
+export enum AuctionStatus {
+  OPEN = 'open',
+  SETTLED = 'settled',
+  EXPIRED = 'expired',
+  CANCELLED = 'cancelled',
+}
+
+@Entity('liquidation_auctions')
+@Index(['activeLoanId'])
+@Index(['status'])
+@Index(['endsAt'])
+export class LiquidationAuction {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  activeLoanId: string;
+
+  @Column('uuid')
+  borrowTokenId: string; // bids are paid in the loan's borrow token
+
+  @Column({ type: 'enum', enum: AuctionType })
+  type: AuctionType;
+
+  @Column({
+    type: 'enum',
+    enum: AuctionStatus,
+    default: AuctionStatus.OPEN,
+  })
+  status: AuctionStatus;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  debtAmount: number;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  collateralValue: number; // in USD of the collateral on sale when the auction opened
+
+  @Column({ type: 'decimal', precision: 9, scale: 8, default: 1 })
+  collateralShare: number; // fraction of each pledge on sale; below 1 for a partial liquidation
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  startPrice: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  reservePrice: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  minBidIncrement: number;
+
+  @Column({ type: 'uuid', nullable: true })
+  highestBidId: string;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, nullable: true })
+  highestBidAmount: number;
+
+  @Column({ type: 'uuid', nullable: true })
+  winnerId: string;
+
+  @Column({ type: 'timestamp' })
+  startsAt: Date;
+
+  @Column({ type: 'timestamp' })
+  endsAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  settledAt: Date;
+
+  @Column({ type: 'json', nullable: true })
+  metadata: any;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => ActiveLoan)
+  @JoinColumn({ name: 'activeLoanId' })
+  activeLoan: ActiveLoan;
+
+  @ManyToOne(() => Token)
+  @JoinColumn({ name: 'borrowTokenId' })
+  borrowToken: Token;
+
+  @OneToMany(() => AuctionBid, (bid) => bid.auction)
+  bids: AuctionBid[];
+}
@@ -12,6 +12,7 @@ import {
 import { User } from './user.entity';
 import { LoanOffer } from './loan-offer.entity';
 import { ActiveLoan } from './active-loan.entity';
+import { Token } from './token.entity';
 
 export enum LoanApplicationStatus {
   PENDING = 'pending',
@@ -22,6 +23,12 @@ export enum LoanApplicationStatus {
   CANCELLED = 'cancelled',
 }
 
+export enum RepaymentType {
+  EQUAL_INSTALLMENT = 'equal_installment',
+  INTEREST_ONLY_BALLOON = 'interest_only_balloon',
+  STRAIGHT_LINE = 'straight_line',
+}
+
 @Entity('loan_applications')
 @Index(['borrowerId'])
 @Index(['status'])
@@ -33,8 +40,11 @@ export class LoanApplication {
   @Column('uuid')
   borrowerId: string;
 
+  @Column('uuid', { nullable: true })
+  borrowTokenId: string;
+
   @Column({ type: 'decimal', precision: 15, scale: 2 })
-  amount: number;
+  amount: number; // in units of the borrow token
 
   @Column({ type: 'decimal', precision: 5, scale: 4 })
   interestRate: number;
@@ -45,6 +55,16 @@ export class LoanApplication {
   @Column({ type: 'decimal', precision: 5, scale: 2 })
   collateralRatio: number;
 
+  @Column('simple-array', { nullable: true })
+  collateralTokenIds: string[]; // accepted collateral, in order of preference
+
+  @Column({
+    type: 'enum',
+    enum: RepaymentType,
+    default: RepaymentType.EQUAL_INSTALLMENT,
+  })
+  repaymentType: RepaymentType;
+
   @Column({
     type: 'enum',
     enum: LoanApplicationStatus,
@@ -84,6 +104,10 @@ export class LoanApplication {
   @JoinColumn({ name: 'borrowerId' })
   borrower: User;
 
+  @ManyToOne(() => Token)
+  @JoinColumn({ name: 'borrowTokenId' })
+  borrowToken: Token;
+
   @OneToMany(() => LoanOffer, (offer) => offer.loanApplication)
   offers: LoanOffer[];
 
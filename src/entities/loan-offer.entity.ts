@@ -10,6 +10,7 @@ import {
 } from 'typeorm';
 import { User } from './user.entity';
 import { LoanApplication } from './loan-application.entity';
+import { Token } from './token.entity';
 
 export enum LoanOfferStatus {
   PENDING = 'pending',
@@ -34,8 +35,11 @@ export class LoanOffer {
   @Column('uuid')
   loanApplicationId: string;
 
+  @Column('uuid', { nullable: true })
+  borrowTokenId: string;
+
   @Column({ type: 'decimal', precision: 15, scale: 2 })
-  offeredAmount: number;
+  offeredAmount: number; // in units of the borrow token
 
   @Column({ type: 'decimal', precision: 5, scale: 4 })
   offeredInterestRate: number;
@@ -76,4 +80,8 @@ export class LoanOffer {
   @ManyToOne(() => LoanApplication, (application) => application.offers)
   @JoinColumn({ name: 'loanApplicationId' })
   loanApplication: LoanApplication;
+
+  @ManyToOne(() => Token)
+  @JoinColumn({ name: 'borrowTokenId' })
+  borrowToken: Token;
 }
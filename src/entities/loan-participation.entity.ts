@@ -0,0 +1,71 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { ActiveLoan } from './active-loan.entity';
+import { LoanOffer } from './loan-offer.entity';
+
+@Entity('loan_participations')
+@Index(['activeLoanId'])
+@Index(['lenderId'])
+@Index(['loanOfferId'], { unique: true })
+export class LoanParticipation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  activeLoanId: string;
+
+  @Column('uuid')
+  lenderId: string;
+
+  @Column('uuid')
+  loanOfferId: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  principalAmount: number;
+
+  @Column({ type: 'decimal', precision: 5, scale: 4 })
+  interestRate: number;
+
+  @Column({ type: 'decimal', precision: 9, scale: 8 })
+  share: number; // fraction of the loan principal
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  principalRepaid: number;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  interestEarned: number;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  feesEarned: number;
+
+  @Column({ type: 'json', nullable: true })
+  metadata: any;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => ActiveLoan, (loan) => loan.participations)
+  @JoinColumn({ name: 'activeLoanId' })
+  activeLoan: ActiveLoan;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'lenderId' })
+  lender: User;
+
+  @ManyToOne(() => LoanOffer)
+  @JoinColumn({ name: 'loanOfferId' })
+  loanOffer: LoanOffer;
+}
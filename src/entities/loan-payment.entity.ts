@@ -22,6 +22,8 @@ export enum PaymentType {
   PRINCIPAL_AND_INTEREST = 'principal_and_interest',
   EARLY_REPAYMENT = 'early_repayment',
   LATE_FEE = 'late_fee',
+  REFINANCE = 'refinance',
+  LIQUIDATION = 'liquidation',
 }
 
 @Entity('loan_payments')
@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { LendingPool } from './lending-pool.entity';
+import { Token } from './token.entity';
+
+@Entity('pool_borrows')
+@Index(['borrowerId'])
+@Index(['poolId', 'borrowerId'], { unique: true })
+export class PoolBorrow {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  poolId: string;
+
+  @Column('uuid')
+  borrowerId: string;
+
+  @Column({ type: 'decimal', precision: 30, scale: 18, default: 0 })
+  scaledDebt: number; // debt divided by the pool borrow index
+
+  @Column({ type: 'uuid', nullable: true })
+  collateralTokenId: string;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, default: 0 })
+  collateralAmount: number; // token units locked in the borrower's balance
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, default: 0 })
+  collateralValue: number; // USD value at the last oracle valuation
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, default: 0 })
+  totalBorrowed: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, default: 0 })
+  totalRepaid: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => LendingPool, (pool) => pool.borrows)
+  @JoinColumn({ name: 'poolId' })
+  pool: LendingPool;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'borrowerId' })
+  borrower: User;
+
+  @ManyToOne(() => Token)
+  @JoinColumn({ name: 'collateralTokenId' })
+  collateralToken: Token;
+}
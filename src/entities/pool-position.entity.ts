@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { LendingPool } from './lending-pool.entity';
+
+@Entity('pool_positions')
+@Index(['userId'])
+@Index(['poolId', 'userId'], { unique: true })
+export class PoolPosition {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  poolId: string;
+
+  @Column('uuid')
+  userId: string;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, default: 0 })
+  shares: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, default: 0 })
+  totalDeposited: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, default: 0 })
+  totalWithdrawn: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => LendingPool, (pool) => pool.positions)
+  @JoinColumn({ name: 'poolId' })
+  pool: LendingPool;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
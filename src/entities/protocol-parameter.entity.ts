@@ -0,0 +1,25 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+@Entity('protocol_parameters')
+export class ProtocolParameter {
+  @PrimaryColumn()
+  key: string; // name of a ProtocolParameters field
+
+  @Column({ type: 'json' })
+  value: any;
+
+  @Column({ nullable: true })
+  updatedBy: string; // user or proposal that last changed the value
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
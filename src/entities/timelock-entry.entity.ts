@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { GovernanceProposal } from './governance-proposal.entity';
+
+export enum TimelockStatus {
+  QUEUED = 'queued',
+  EXECUTED = 'executed',
+  CANCELLED = 'cancelled',
+  FAILED = 'failed',
+}
+
+@Entity('timelock_entries')
+@Index(['proposalId'], { unique: true })
+@Index(['status', 'eta'])
+export class TimelockEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  proposalId: string;
+
+  @Column({
+    type: 'enum',
+    enum: TimelockStatus,
+    default: TimelockStatus.QUEUED,
+  })
+  status: TimelockStatus;
+
+  @Column({ type: 'timestamp' })
+  eta: Date; // earliest execution time
+
+  @Column({ type: 'uuid', nullable: true })
+  cancelledBy: string;
+
+  @Column({ type: 'text', nullable: true })
+  cancelReason: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  cancelledAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  executedAt: Date;
+
+  @Column({ type: 'text', nullable: true })
+  error: string; // why the last execution attempt failed
+
+  @CreateDateColumn()
+  queuedAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => GovernanceProposal)
+  @JoinColumn({ name: 'proposalId' })
+  proposal: GovernanceProposal;
+}
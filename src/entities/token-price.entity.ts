@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Token } from './token.entity';
+
+@Entity('token_prices')
+@Index(['tokenId', 'recordedAt'])
+export class TokenPrice {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  tokenId: string;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  priceUSD: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, nullable: true })
+  marketCap: number;
+
+  @Column()
+  source: string; // name of the price source that reported the quote
+
+  @CreateDateColumn()
+  recordedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Token)
+  @JoinColumn({ name: 'tokenId' })
+  token: Token;
+}
@@ -17,6 +17,7 @@ export enum UserRole {
   LENDER = 'lender',
   ADMIN = 'admin',
   LIQUIDATOR = 'liquidator',
+  GUARDIAN = 'guardian', // can pause the protocol in an emergency
 }
 
 export enum UserStatus {
@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+@Entity('governance_delegations')
+@Index(['delegatorId'], { unique: true, where: '"revokedAt" IS NULL' })
+@Index(['delegateId'])
+export class VoteDelegation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  delegatorId: string;
+
+  @Column('uuid')
+  delegateId: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date; // null while the delegation is active
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Relations
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'delegatorId' })
+  delegator: User;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'delegateId' })
+  delegate: User;
+}
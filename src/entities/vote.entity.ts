@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { GovernanceProposal } from './governance-proposal.entity';
+
+export enum VoteType {
+  FOR = 'FOR',
+  AGAINST = 'AGAINST',
+  ABSTAIN = 'ABSTAIN',
+}
+
+@Entity('governance_votes')
+@Index(['proposalId', 'voterId'], { unique: true })
+@Index(['voterId'])
+export class Vote {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  proposalId: string;
+
+  @Column('uuid')
+  voterId: string;
+
+  @Column({ type: 'enum', enum: VoteType })
+  voteType: VoteType;
+
+  @Column({ type: 'decimal', precision: 20, scale: 4 })
+  votingPower: number;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Relations
+  @ManyToOne(() => GovernanceProposal, (proposal) => proposal.votes)
+  @JoinColumn({ name: 'proposalId' })
+  proposal: GovernanceProposal;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'voterId' })
+  voter: User;
+}
@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { GovernanceProposal } from './governance-proposal.entity';
+
+/**
+ * A user's voting power on a proposal, fixed when the proposal is
+ * activated so that activity or delegation changes during the vote
+ * do not move it.
+ */
+@Entity('voting_power_snapshots')
+@Index(['proposalId', 'userId'], { unique: true })
+export class VotingPowerSnapshot {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  proposalId: string;
+
+  @Column('uuid')
+  userId: string;
+
+  @Column({ type: 'decimal', precision: 20, scale: 4 })
+  ownPower: number; // zero when the user had delegated
+
+  @Column({ type: 'decimal', precision: 20, scale: 4 })
+  delegatedPower: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 4 })
+  votingPower: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Relations
+  @ManyToOne(() => GovernanceProposal)
+  @JoinColumn({ name: 'proposalId' })
+  proposal: GovernanceProposal;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const WHEN_NOT_PAUSED_KEY = 'whenNotPaused';
+
+/**
+ * Block a route while the protocol is under emergency pause
+ */
+export const WhenNotPaused = () => SetMetadata(WHEN_NOT_PAUSED_KEY, true);
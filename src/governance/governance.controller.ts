@@ -1,24 +1,68 @@
-import { Controller, Post, Get, Body, Param, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
-import { GovernanceService, GovernanceProposal, Vote, ProtocolParameters } from './governance.service';
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Request,
+  UseGuards,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { BallotReceipt, GovernanceService, VotingPowerBreakdown } from './governance.service';
+import { TimelockService } from './timelock.service';
+import { ProtocolParameterSchema, ProtocolParameters } from './protocol-config.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../entities/user.entity';
+import { GovernanceProposal, ProposalStatus, ProposalType } from '../entities/governance-proposal.entity';
+import { Vote, VoteType } from '../entities/vote.entity';
+import { VoteDelegation } from '../entities/vote-delegation.entity';
+import { TimelockEntry } from '../entities/timelock-entry.entity';
+import { GovernanceExecution } from '../entities/governance-execution.entity';
 
 export class CreateProposalDto {
   title: string;
   description: string;
-  proposalType: 'PARAMETER_CHANGE' | 'PROTOCOL_UPGRADE' | 'EMERGENCY_PAUSE' | 'TREASURY_ALLOCATION';
+  proposalType: ProposalType;
   parameters: Record<string, any>;
+  secretBallot?: boolean;
 }
 
 export class VoteDto {
-  voteType: 'FOR' | 'AGAINST' | 'ABSTAIN';
+  voteType: VoteType;
   reason?: string;
 }
 
+export class EncryptedBallotDto {
+  ciphertext: string;
+  nonce: string;
+  publicKey: string;
+}
+
+export class EmergencyPauseDto {
+  reason?: string;
+}
+
+export class CancelProposalDto {
+  reason?: string;
+}
+
+export class DelegateDto {
+  delegateId: string;
+}
+
 @ApiTags('governance')
 @Controller('governance')
 export class GovernanceController {
-  constructor(private readonly governanceService: GovernanceService) {}
+  constructor(
+    private readonly governanceService: GovernanceService,
+    private readonly timelockService: TimelockService,
+  ) {}
 
   @Post('proposals')
   @UseGuards(JwtAuthGuard)
@@ -27,10 +71,22 @@ export class GovernanceController {
   @ApiBody({ type: CreateProposalDto })
   @ApiResponse({ status: 201, description: 'Proposal created successfully' })
   async createProposal(
+    @Request() req,
     @Body() proposalData: CreateProposalDto,
-    @Param('userId') userId: string,
   ): Promise<GovernanceProposal> {
-    return this.governanceService.createProposal(userId, proposalData);
+    return this.governanceService.createProposal(req.user.id, proposalData);
+  }
+
+  @Post('proposals/:proposalId/activate')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Open a draft proposal for voting (proposer or admin)' })
+  @ApiResponse({ status: 201, description: 'Proposal activated successfully' })
+  async activateProposal(
+    @Request() req,
+    @Param('proposalId') proposalId: string,
+  ): Promise<GovernanceProposal> {
+    return this.governanceService.activateProposal(proposalId, req.user.id);
   }
 
   @Post('proposals/:proposalId/vote')
@@ -40,33 +96,105 @@ export class GovernanceController {
   @ApiBody({ type: VoteDto })
   @ApiResponse({ status: 200, description: 'Vote cast successfully' })
   async voteOnProposal(
+    @Request() req,
     @Param('proposalId') proposalId: string,
     @Body() voteData: VoteDto,
-    @Param('userId') userId: string,
   ): Promise<Vote> {
-    return this.governanceService.voteOnProposal(proposalId, userId, voteData.voteType, voteData.reason);
+    return this.governanceService.voteOnProposal(proposalId, req.user.id, voteData.voteType, voteData.reason);
+  }
+
+  @Get('ballot-key')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the MXE public key and choice encoding for secret ballots' })
+  @ApiResponse({ status: 200, description: 'Ballot key retrieved successfully' })
+  async getBallotKey(): Promise<{ mxePublicKey: string; choices: Record<string, number> }> {
+    return this.governanceService.getBallotKey();
+  }
+
+  @Post('proposals/:proposalId/encrypted-vote')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Cast a secret ballot encrypted with the MXE public key' })
+  @ApiBody({ type: EncryptedBallotDto })
+  @ApiResponse({ status: 201, description: 'Ballot cast; returns the receipt' })
+  async castEncryptedBallot(
+    @Request() req,
+    @Param('proposalId') proposalId: string,
+    @Body() ballotData: EncryptedBallotDto,
+  ): Promise<BallotReceipt> {
+    return this.governanceService.castEncryptedBallot(proposalId, req.user.id, ballotData);
+  }
+
+  @Get('proposals/:proposalId/receipts/:receipt')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Check that a secret ballot was counted in the revealed tally' })
+  @ApiResponse({ status: 200, description: 'Ballot receipt retrieved successfully' })
+  async getBallotReceipt(
+    @Param('proposalId') proposalId: string,
+    @Param('receipt') receipt: string,
+  ): Promise<BallotReceipt> {
+    return this.governanceService.getBallotReceipt(proposalId, receipt);
   }
 
   @Post('proposals/:proposalId/execute')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Execute a passed proposal' })
+  @ApiOperation({ summary: 'Execute a queued proposal after its timelock delay' })
   @ApiResponse({ status: 200, description: 'Proposal executed successfully' })
   async executeProposal(
+    @Request() req,
     @Param('proposalId') proposalId: string,
-    @Param('executorId') executorId: string,
   ): Promise<{ success: boolean }> {
-    const success = await this.governanceService.executeProposal(proposalId, executorId);
+    const success = await this.governanceService.executeProposal(proposalId, req.user.id);
     return { success };
   }
 
+  @Post('proposals/:proposalId/cancel')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.GUARDIAN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Cancel a queued proposal during its timelock delay (guardian only)' })
+  @ApiBody({ type: CancelProposalDto })
+  @ApiResponse({ status: 201, description: 'Queued proposal cancelled' })
+  async cancelProposal(
+    @Request() req,
+    @Param('proposalId') proposalId: string,
+    @Body() cancelData: CancelProposalDto,
+  ): Promise<TimelockEntry> {
+    return this.timelockService.cancel(proposalId, req.user.id, cancelData.reason);
+  }
+
+  @Get('timelock')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get proposals queued in the timelock with their ETA' })
+  @ApiResponse({ status: 200, description: 'Timelock queue retrieved successfully' })
+  async getTimelockQueue(): Promise<TimelockEntry[]> {
+    return this.timelockService.getQueue();
+  }
+
+  @Get('executions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the audit log of executed proposals and the parameters they changed' })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  @ApiResponse({ status: 200, description: 'Executions retrieved successfully' })
+  async getExecutions(
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+  ): Promise<GovernanceExecution[]> {
+    return this.timelockService.getExecutions(limit);
+  }
+
   @Get('proposals')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get all proposals' })
+  @ApiQuery({ name: 'status', enum: ProposalStatus, required: false })
   @ApiResponse({ status: 200, description: 'Proposals retrieved successfully' })
-  async getProposals(@Param('status') status?: string): Promise<GovernanceProposal[]> {
-    return this.governanceService.getProposals(status as any);
+  async getProposals(@Query('status') status?: ProposalStatus): Promise<GovernanceProposal[]> {
+    return this.governanceService.getProposals(status);
   }
 
   @Get('proposals/:proposalId')
@@ -96,13 +224,61 @@ export class GovernanceController {
     return this.governanceService.getCurrentParameters();
   }
 
+  @Get('parameters/schema')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the type, bounds and maximum change per proposal of each protocol parameter' })
+  @ApiResponse({ status: 200, description: 'Parameter schema retrieved successfully' })
+  async getParameterSchema(): Promise<ProtocolParameterSchema> {
+    return this.governanceService.getParameterSchema();
+  }
+
+  @Post('emergency-pause')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.GUARDIAN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Pause the protocol immediately (guardian only; unpausing requires a proposal)' })
+  @ApiBody({ type: EmergencyPauseDto })
+  @ApiResponse({ status: 201, description: 'Protocol paused' })
+  async pauseProtocol(
+    @Request() req,
+    @Body() pauseData: EmergencyPauseDto,
+  ): Promise<ProtocolParameters> {
+    return this.governanceService.pauseProtocol(req.user.id, pauseData.reason);
+  }
+
+  @Post('delegation')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delegate your voting power to another user' })
+  @ApiBody({ type: DelegateDto })
+  @ApiResponse({ status: 201, description: 'Voting power delegated' })
+  async delegateVotingPower(
+    @Request() req,
+    @Body() delegateData: DelegateDto,
+  ): Promise<VoteDelegation> {
+    return this.governanceService.delegateVotingPower(req.user.id, delegateData.delegateId);
+  }
+
+  @Delete('delegation')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke your voting power delegation' })
+  @ApiResponse({ status: 200, description: 'Delegation revoked' })
+  async revokeDelegation(@Request() req): Promise<VoteDelegation> {
+    return this.governanceService.revokeDelegation(req.user.id);
+  }
+
   @Get('voting-power/:userId')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Get user voting power' })
+  @ApiOperation({ summary: 'Get user voting power split into own and delegated power' })
+  @ApiQuery({ name: 'proposalId', required: false, description: 'Return the power snapshotted for this proposal' })
   @ApiResponse({ status: 200, description: 'Voting power retrieved successfully' })
-  async getVotingPower(@Param('userId') userId: string): Promise<{ votingPower: number }> {
-    const votingPower = await this.governanceService.getVotingPower(userId);
-    return { votingPower };
+  async getVotingPower(
+    @Param('userId') userId: string,
+    @Query('proposalId') proposalId?: string,
+  ): Promise<VotingPowerBreakdown> {
+    return this.governanceService.getVotingPowerBreakdown(userId, proposalId);
   }
 }
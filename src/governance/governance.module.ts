@@ -1,13 +1,44 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { GovernanceService } from './governance.service';
 import { GovernanceController } from './governance.controller';
+import { ProtocolConfigService } from './protocol-config.service';
+import { TimelockService } from './timelock.service';
+import { EmergencyPauseGuard } from './guards/emergency-pause.guard';
+import { ArciumModule } from '../arcium/arcium.module';
 import { User } from '../entities/user.entity';
+import { ProtocolParameter } from '../entities/protocol-parameter.entity';
+import { GovernanceProposal } from '../entities/governance-proposal.entity';
+import { Vote } from '../entities/vote.entity';
+import { TimelockEntry } from '../entities/timelock-entry.entity';
+import { GovernanceExecution } from '../entities/governance-execution.entity';
+import { VoteDelegation } from '../entities/vote-delegation.entity';
+import { VotingPowerSnapshot } from '../entities/voting-power-snapshot.entity';
+import { EncryptedBallot } from '../entities/encrypted-ballot.entity';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User])],
-  providers: [GovernanceService],
+  imports: [
+    ArciumModule,
+    TypeOrmModule.forFeature([
+      User,
+      ProtocolParameter,
+      GovernanceProposal,
+      Vote,
+      TimelockEntry,
+      GovernanceExecution,
+      VoteDelegation,
+      VotingPowerSnapshot,
+      EncryptedBallot,
+    ]),
+  ],
+  providers: [
+    GovernanceService,
+    ProtocolConfigService,
+    TimelockService,
+    { provide: APP_GUARD, useClass: EmergencyPauseGuard },
+  ],
   controllers: [GovernanceController],
-  exports: [GovernanceService],
+  exports: [GovernanceService, ProtocolConfigService],
 })
 export class GovernanceModule {}
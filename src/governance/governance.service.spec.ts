@@ -0,0 +1,442 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { GovernanceService } from './governance.service';
+import {
+  GovernanceProposal,
+  ProposalStatus,
+  ProposalType,
+} from '../entities/governance-proposal.entity';
+import { Vote, VoteType } from '../entities/vote.entity';
+import { VoteDelegation } from '../entities/vote-delegation.entity';
+import { VotingPowerSnapshot } from '../entities/voting-power-snapshot.entity';
+import { EncryptedBallot } from '../entities/encrypted-ballot.entity';
+import { User, UserRole } from '../entities/user.entity';
+import { ProtocolParameter } from '../entities/protocol-parameter.entity';
+import { ProtocolConfigService } from './protocol-config.service';
+import { TimelockService } from './timelock.service';
+import { ArciumRealService } from '../arcium/arcium-real.service';
+
+describe('GovernanceService', () => {
+  let proposal: GovernanceProposal;
+  let votes: Vote[];
+  let users: any[];
+  let delegations: any[];
+  let snapshots: any[];
+  let ballots: any[];
+  let manager: any;
+  let timelockService: any;
+  let arciumRealService: any;
+  let governanceService: GovernanceService;
+
+  beforeEach(async () => {
+    proposal = {
+      id: 'proposal-1',
+      proposerId: 'proposer',
+      proposalType: ProposalType.PARAMETER_CHANGE,
+      parameters: { lateFeeRate: 0.04 },
+      status: ProposalStatus.ACTIVE,
+      endTime: new Date(Date.now() + 60 * 60 * 1000),
+      votesFor: 0,
+      votesAgainst: 0,
+      votesAbstain: 0,
+      totalVotes: 0,
+      quorum: 10,
+    } as any;
+    votes = [];
+    users = [
+      {
+        id: 'admin',
+        role: UserRole.ADMIN,
+        totalBorrowed: '0',
+        totalLent: '0',
+        creditScore: '700',
+      },
+      {
+        id: 'lender',
+        role: UserRole.LENDER,
+        totalBorrowed: '0',
+        totalLent: '99999',
+        creditScore: '700',
+      },
+      {
+        id: 'borrower',
+        role: UserRole.BORROWER,
+        totalBorrowed: '999',
+        totalLent: '0',
+        creditScore: '700',
+      },
+    ];
+    delegations = [];
+    snapshots = [];
+    ballots = [];
+
+    manager = {
+      findOne: jest.fn(async (entity, { where }) => {
+        if (entity === GovernanceProposal) {
+          return proposal;
+        }
+        if (entity === VotingPowerSnapshot) {
+          return (
+            snapshots.find(
+              (snapshot) =>
+                snapshot.proposalId === where.proposalId &&
+                snapshot.userId === where.userId,
+            ) || null
+          );
+        }
+        if (entity === EncryptedBallot) {
+          return (
+            ballots.find(
+              (ballot) =>
+                ballot.proposalId === where.proposalId &&
+                ballot.voterId === where.voterId,
+            ) || null
+          );
+        }
+        return (
+          votes.find(
+            (vote) =>
+              vote.proposalId === where.proposalId &&
+              vote.voterId === where.voterId,
+          ) || null
+        );
+      }),
+      find: jest.fn(async (entity) =>
+        entity === User
+          ? users
+          : entity === VoteDelegation
+            ? delegations
+            : votes,
+      ),
+      create: jest.fn((_entity, data) => data),
+      save: jest.fn(async (entity) => {
+        if (Array.isArray(entity)) {
+          snapshots.push(...entity);
+        } else if (entity.ciphertext) {
+          entity.id = `ballot-${ballots.length + 1}`;
+          ballots.push(entity);
+        } else if (entity.voterId) {
+          votes.push(entity);
+        }
+        return entity;
+      }),
+      update: jest.fn(),
+    };
+    const userRepository = {
+      findOne: jest.fn(
+        async ({ where }) => users.find((user) => user.id === where.id) || null,
+      ),
+      find: jest.fn(async () =>
+        users.filter((user) =>
+          delegations.some((d) => d.delegatorId === user.id),
+        ),
+      ),
+    };
+    const delegationRepository = {
+      findOne: jest.fn(
+        async ({ where }) =>
+          delegations.find((d) => d.delegatorId === where.delegatorId) || null,
+      ),
+      find: jest.fn(async ({ where }) =>
+        delegations.filter((d) => d.delegateId === where.delegateId),
+      ),
+    };
+
+    timelockService = {
+      queue: jest.fn(async (_manager, queued) => {
+        queued.status = ProposalStatus.QUEUED;
+      }),
+    };
+
+    arciumRealService = { performEncryptedVoteTally: jest.fn() };
+
+    const proposalRepository = {
+      findOne: jest.fn(async () => proposal),
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => {
+        proposal = { id: 'proposal-1', ...data };
+        return proposal;
+      }),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        GovernanceService,
+        ProtocolConfigService,
+        { provide: getRepositoryToken(User), useValue: userRepository },
+        {
+          provide: getRepositoryToken(GovernanceProposal),
+          useValue: proposalRepository,
+        },
+        { provide: getRepositoryToken(Vote), useValue: {} },
+        {
+          provide: getRepositoryToken(VoteDelegation),
+          useValue: delegationRepository,
+        },
+        { provide: getRepositoryToken(VotingPowerSnapshot), useValue: {} },
+        {
+          provide: getRepositoryToken(EncryptedBallot),
+          useValue: { find: jest.fn(async () => ballots) },
+        },
+        {
+          provide: getRepositoryToken(ProtocolParameter),
+          useValue: { find: jest.fn(async () => []) },
+        },
+        { provide: TimelockService, useValue: timelockService },
+        { provide: ArciumRealService, useValue: arciumRealService },
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn((work) => work(manager)) },
+        },
+      ],
+    }).compile();
+
+    governanceService = module.get(GovernanceService);
+  });
+
+  it('should record one vote per user and add it to the tally', async () => {
+    snapshots = [
+      { proposalId: proposal.id, userId: 'lender', votingPower: '11' },
+    ];
+
+    await governanceService.voteOnProposal(proposal.id, 'lender', VoteType.FOR);
+
+    expect(proposal.votesFor).toBe(11);
+    expect(proposal.totalVotes).toBe(11);
+    await expect(
+      governanceService.voteOnProposal(proposal.id, 'lender', VoteType.AGAINST),
+    ).rejects.toThrow('Already voted on this proposal');
+    await expect(
+      governanceService.voteOnProposal(proposal.id, 'admin', VoteType.FOR),
+    ).rejects.toThrow('No voting power for this proposal');
+  });
+
+  it('should snapshot own and delegated power at activation without role bonuses', async () => {
+    proposal.status = ProposalStatus.DRAFT;
+    delegations = [{ delegatorId: 'borrower', delegateId: 'lender' }];
+
+    await governanceService.activateProposal(proposal.id, 'admin');
+
+    expect(proposal.status).toBe(ProposalStatus.ACTIVE);
+    expect(snapshots).toEqual([
+      {
+        proposalId: proposal.id,
+        userId: 'admin',
+        ownPower: 1,
+        delegatedPower: 0,
+        votingPower: 1,
+      },
+      {
+        proposalId: proposal.id,
+        userId: 'lender',
+        ownPower: 11,
+        delegatedPower: 7,
+        votingPower: 18,
+      },
+    ]);
+  });
+
+  it('should break current voting power down into own and delegated power', async () => {
+    delegations = [{ delegatorId: 'borrower', delegateId: 'lender' }];
+
+    expect(
+      await governanceService.getVotingPowerBreakdown('lender'),
+    ).toMatchObject({
+      ownPower: 11,
+      delegatedPower: 7,
+      votingPower: 18,
+      delegatedTo: null,
+      delegators: [{ delegatorId: 'borrower', votingPower: 7 }],
+    });
+    expect(
+      await governanceService.getVotingPowerBreakdown('borrower'),
+    ).toMatchObject({ ownPower: 0, votingPower: 0, delegatedTo: 'lender' });
+  });
+
+  it('should let active users create, pass and queue a proposal under the default thresholds', async () => {
+    users = [
+      ...users,
+      ...['lender-2', 'lender-3', 'lender-4', 'lender-5'].map((id) => ({
+        id,
+        role: UserRole.LENDER,
+        totalBorrowed: '0',
+        totalLent: '99999',
+        creditScore: '700',
+      })),
+    ];
+
+    await expect(
+      governanceService.createProposal('borrower', {
+        title: 'Lower late fees',
+        description: 'Cut the late fee to 4%',
+        proposalType: ProposalType.PARAMETER_CHANGE,
+        parameters: { lateFeeRate: 0.04 },
+      }),
+    ).rejects.toThrow('Insufficient voting power to create proposal');
+
+    await governanceService.createProposal('lender', {
+      title: 'Lower late fees',
+      description: 'Cut the late fee to 4%',
+      proposalType: ProposalType.PARAMETER_CHANGE,
+      parameters: { lateFeeRate: 0.04 },
+    });
+    expect(proposal).toMatchObject({
+      status: ProposalStatus.DRAFT,
+      quorum: 50,
+    });
+
+    await governanceService.activateProposal(proposal.id, 'lender');
+    for (const voterId of ['lender', 'lender-2', 'lender-3', 'lender-4']) {
+      await governanceService.voteOnProposal(
+        proposal.id,
+        voterId,
+        VoteType.FOR,
+      );
+    }
+    await governanceService.voteOnProposal(
+      proposal.id,
+      'borrower',
+      VoteType.AGAINST,
+    );
+    proposal.endTime = new Date(Date.now() - 1000);
+
+    expect(await governanceService.checkProposalStatus(proposal.id)).toBe(
+      ProposalStatus.QUEUED,
+    );
+    expect(proposal).toMatchObject({ votesFor: 44, votesAgainst: 7 });
+  });
+
+  it('should recount the votes and queue a passed proposal once voting ends', async () => {
+    votes = [
+      { voterId: 'a', voteType: VoteType.FOR, votingPower: '8' },
+      { voterId: 'b', voteType: VoteType.AGAINST, votingPower: '3' },
+      { voterId: 'c', voteType: VoteType.ABSTAIN, votingPower: '20' },
+    ] as any[];
+    proposal.endTime = new Date(Date.now() - 1000);
+
+    const status = await governanceService.checkProposalStatus(proposal.id);
+
+    expect(status).toBe(ProposalStatus.QUEUED);
+    expect(timelockService.queue).toHaveBeenCalledWith(
+      expect.anything(),
+      proposal,
+    );
+    expect(proposal).toMatchObject({
+      votesFor: 8,
+      votesAgainst: 3,
+      votesAbstain: 20,
+      totalVotes: 31,
+    });
+  });
+
+  it('should reject a proposal that misses quorum', async () => {
+    votes = [
+      { voterId: 'a', voteType: VoteType.FOR, votingPower: '5' },
+    ] as any[];
+    proposal.endTime = new Date(Date.now() - 1000);
+
+    expect(await governanceService.checkProposalStatus(proposal.id)).toBe(
+      ProposalStatus.REJECTED,
+    );
+    expect(timelockService.queue).not.toHaveBeenCalled();
+  });
+
+  it('should keep secret ballots encrypted and reveal only the tally through Arcium', async () => {
+    proposal.secretBallot = true;
+    snapshots = [
+      { proposalId: proposal.id, userId: 'lender', votingPower: '11' },
+    ];
+    const ballot = {
+      ciphertext: Buffer.alloc(32, 1).toString('base64'),
+      nonce: Buffer.alloc(16, 2).toString('base64'),
+      publicKey: Buffer.alloc(32, 3).toString('base64'),
+    };
+
+    await expect(
+      governanceService.voteOnProposal(proposal.id, 'lender', VoteType.FOR),
+    ).rejects.toThrow('Proposal uses secret ballots');
+    const receipt = await governanceService.castEncryptedBallot(
+      proposal.id,
+      'lender',
+      ballot,
+    );
+
+    expect(receipt.receipt).toMatch(/^[0-9a-f]{64}$/);
+    expect(receipt.counted).toBe(false);
+    expect(proposal.votesFor).toBe(0);
+    expect(proposal.totalVotes).toBe(11);
+
+    proposal.endTime = new Date(Date.now() - 1000);
+    arciumRealService.performEncryptedVoteTally.mockResolvedValue({
+      votesFor: 11,
+      votesAgainst: 0,
+      votesAbstain: 0,
+      invalidPower: 0,
+      computationId: 'computation-1',
+    });
+
+    expect(await governanceService.checkProposalStatus(proposal.id)).toBe(
+      ProposalStatus.QUEUED,
+    );
+    expect(arciumRealService.performEncryptedVoteTally).toHaveBeenCalledWith(
+      [
+        {
+          ciphertext: Buffer.alloc(32, 1),
+          nonce: Buffer.alloc(16, 2),
+          publicKey: Buffer.alloc(32, 3),
+        },
+      ],
+      [11],
+    );
+    expect(manager.update).toHaveBeenCalledWith(
+      EncryptedBallot,
+      expect.anything(),
+      { counted: true, tallyComputationId: 'computation-1' },
+    );
+    expect(proposal).toMatchObject({
+      votesFor: 11,
+      totalVotes: 11,
+      tallyComputationId: 'computation-1',
+    });
+  });
+
+  it('should count secret ballots with an invalid choice as dropped power', async () => {
+    proposal.secretBallot = true;
+    proposal.endTime = new Date(Date.now() - 1000);
+    ballots = [
+      {
+        id: 'ballot-1',
+        proposalId: proposal.id,
+        ciphertext: Buffer.alloc(32, 1).toString('base64'),
+        nonce: Buffer.alloc(16, 2).toString('base64'),
+        publicKey: Buffer.alloc(32, 3).toString('base64'),
+        votingPower: '11',
+      },
+      {
+        id: 'ballot-2',
+        proposalId: proposal.id,
+        ciphertext: Buffer.alloc(32, 4).toString('base64'),
+        nonce: Buffer.alloc(16, 5).toString('base64'),
+        publicKey: Buffer.alloc(32, 6).toString('base64'),
+        votingPower: '7',
+      },
+    ] as any[];
+    arciumRealService.performEncryptedVoteTally.mockResolvedValue({
+      votesFor: 11,
+      votesAgainst: 0,
+      votesAbstain: 0,
+      invalidPower: 7,
+      computationId: 'computation-1',
+    });
+
+    expect(await governanceService.checkProposalStatus(proposal.id)).toBe(
+      ProposalStatus.QUEUED,
+    );
+    expect(proposal).toMatchObject({
+      votesFor: 11,
+      totalVotes: 11,
+      invalidVotePower: 7,
+    });
+  });
+});
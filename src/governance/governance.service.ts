@@ -1,88 +1,78 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, EntityManager, In, IsNull, LessThan, Repository } from 'typeorm';
+import { createHash } from 'crypto';
 import { User, UserRole } from '../entities/user.entity';
+import { GovernanceProposal, ProposalStatus, ProposalType } from '../entities/governance-proposal.entity';
+import { Vote, VoteType } from '../entities/vote.entity';
+import { VoteDelegation } from '../entities/vote-delegation.entity';
+import { VotingPowerSnapshot } from '../entities/voting-power-snapshot.entity';
+import { EncryptedBallot } from '../entities/encrypted-ballot.entity';
+import { ProtocolConfigService, ProtocolParameterSchema, ProtocolParameters } from './protocol-config.service';
+import { TimelockService } from './timelock.service';
+import { ArciumRealService, ArciumVoteTally, BALLOT_CHOICES } from '../arcium/arcium-real.service';
+
+export interface VotingPowerBreakdown {
+  userId: string;
+  ownPower: number;
+  delegatedPower: number;
+  votingPower: number;
+  delegatedTo: string | null;
+  delegators: { delegatorId: string; votingPower: number }[];
+  proposalId?: string;
+}
 
-export interface GovernanceProposal {
-  id: string;
-  title: string;
-  description: string;
-  proposerId: string;
-  proposalType: 'PARAMETER_CHANGE' | 'PROTOCOL_UPGRADE' | 'EMERGENCY_PAUSE' | 'TREASURY_ALLOCATION';
-  parameters: Record<string, any>;
-  status: 'DRAFT' | 'ACTIVE' | 'PASSED' | 'REJECTED' | 'EXECUTED';
-  startTime: Date;
-  endTime: Date;
-  votesFor: number;
-  votesAgainst: number;
-  totalVotes: number;
-  quorum: number;
-  createdAt: Date;
-  updatedAt: Date;
+export interface EncryptedBallotData {
+  ciphertext: string; // base64
+  nonce: string; // base64
+  publicKey: string; // base64
 }
 
-export interface Vote {
-  id: string;
+export interface BallotReceipt {
   proposalId: string;
-  voterId: string;
-  voteType: 'FOR' | 'AGAINST' | 'ABSTAIN';
+  receipt: string;
   votingPower: number;
-  reason?: string;
-  createdAt: Date;
-}
-
-export interface ProtocolParameters {
-  // Lending parameters
-  maxLoanAmount: number;
-  minCollateralRatio: number;
-  liquidationThreshold: number;
-  liquidationPenalty: number;
-  
-  // Interest rate parameters
-  baseInterestRate: number;
-  maxInterestRate: number;
-  interestRateStep: number;
-  
-  // Risk parameters
-  maxRiskScore: number;
-  creditScoreWeight: number;
-  marketVolatilityWeight: number;
-  
-  // Protocol parameters
-  protocolFee: number;
-  treasuryFee: number;
-  emergencyPause: boolean;
-  
-  // Governance parameters
-  proposalThreshold: number;
-  votingPeriod: number;
-  quorumThreshold: number;
-  executionDelay: number;
+  castAt: Date;
+  counted: boolean;
+  tallyComputationId: string | null;
 }
 
 @Injectable()
 export class GovernanceService {
   private readonly logger = new Logger(GovernanceService.name);
-  private currentParameters: ProtocolParameters;
 
   constructor(
     @InjectRepository(User)
     private userRepository: Repository<User>,
-  ) {
-    // Initialize with default parameters
-    this.currentParameters = this.getDefaultParameters();
-  }
+    @InjectRepository(GovernanceProposal)
+    private proposalRepository: Repository<GovernanceProposal>,
+    @InjectRepository(Vote)
+    private voteRepository: Repository<Vote>,
+    @InjectRepository(VoteDelegation)
+    private delegationRepository: Repository<VoteDelegation>,
+    @InjectRepository(VotingPowerSnapshot)
+    private snapshotRepository: Repository<VotingPowerSnapshot>,
+    @InjectRepository(EncryptedBallot)
+    private ballotRepository: Repository<EncryptedBallot>,
+    private protocolConfigService: ProtocolConfigService,
+    private timelockService: TimelockService,
+    private arciumRealService: ArciumRealService,
+    private dataSource: DataSource,
+  ) {}
 
   /**
-   * Create a new governance proposal
+   * Create a new governance proposal as a draft. Voting opens once the
+   * proposal is activated.
    */
   async createProposal(
     proposerId: string,
     proposalData: {
       title: string;
       description: string;
-      proposalType: GovernanceProposal['proposalType'];
+      proposalType: ProposalType;
       parameters: Record<string, any>;
+      secretBallot?: boolean;
     },
   ): Promise<GovernanceProposal> {
     // Check if user has sufficient voting power
@@ -95,41 +85,82 @@ export class GovernanceService {
     }
 
     const votingPower = await this.getVotingPower(proposerId);
-    if (votingPower < this.currentParameters.proposalThreshold) {
+    const parameters = this.protocolConfigService.getParameters();
+    if (votingPower < parameters.proposalThreshold) {
       throw new Error('Insufficient voting power to create proposal');
     }
 
-    const proposal: GovernanceProposal = {
-      id: `prop_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      title: proposalData.title,
-      description: proposalData.description,
-      proposerId,
-      proposalType: proposalData.proposalType,
-      parameters: proposalData.parameters,
-      status: 'DRAFT',
-      startTime: new Date(),
-      endTime: new Date(Date.now() + this.currentParameters.votingPeriod * 24 * 60 * 60 * 1000),
-      votesFor: 0,
-      votesAgainst: 0,
-      totalVotes: 0,
-      quorum: this.currentParameters.quorumThreshold,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    if (!Object.values(ProposalType).includes(proposalData.proposalType)) {
+      throw new Error('Invalid proposal type');
+    }
+
+    if (proposalData.proposalType === ProposalType.PARAMETER_CHANGE) {
+      this.protocolConfigService.validateProposalChanges(proposalData.parameters);
+    }
+
+    const proposal = await this.proposalRepository.save(
+      this.proposalRepository.create({
+        title: proposalData.title,
+        description: proposalData.description,
+        proposerId,
+        proposalType: proposalData.proposalType,
+        parameters: proposalData.parameters || {},
+        secretBallot: proposalData.secretBallot === true,
+        status: ProposalStatus.DRAFT,
+        quorum: parameters.quorumThreshold,
+      }),
+    );
 
-    // In production, save to database
     this.logger.log(`Proposal created: ${proposal.id} by ${proposerId}`);
     
     return proposal;
   }
 
   /**
-   * Vote on a proposal
+   * Open a draft proposal for voting for the governance voting period and
+   * snapshot every user's voting power. Only the proposer or an admin can
+   * activate it.
+   */
+  async activateProposal(proposalId: string, userId: string): Promise<GovernanceProposal> {
+    const proposal = await this.getProposal(proposalId);
+    if (!proposal) {
+      throw new Error('Proposal not found');
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user || (proposal.proposerId !== userId && user.role !== UserRole.ADMIN)) {
+      throw new Error('Only the proposer or an admin can activate a proposal');
+    }
+
+    if (proposal.status !== ProposalStatus.DRAFT) {
+      throw new Error('Only draft proposals can be activated');
+    }
+
+    const parameters = this.protocolConfigService.getParameters();
+    const startTime = new Date();
+    proposal.status = ProposalStatus.ACTIVE;
+    proposal.startTime = startTime;
+    proposal.endTime = new Date(startTime.getTime() + parameters.votingPeriod * 24 * 60 * 60 * 1000);
+    proposal.quorum = parameters.quorumThreshold;
+
+    const voters = await this.dataSource.transaction(async (manager) => {
+      await manager.save(proposal);
+      return this.snapshotVotingPower(manager, proposalId);
+    });
+
+    this.logger.log(`Proposal activated: ${proposalId}, ${voters} eligible voters, voting ends ${proposal.endTime.toISOString()}`);
+
+    return proposal;
+  }
+
+  /**
+   * Vote on an active proposal with the voting power snapshotted at
+   * activation. Each user votes once per proposal.
    */
   async voteOnProposal(
     proposalId: string,
     voterId: string,
-    voteType: Vote['voteType'],
+    voteType: VoteType,
     reason?: string,
   ): Promise<Vote> {
     // Check if user can vote
@@ -141,33 +172,49 @@ export class GovernanceService {
       throw new Error('Voter not found');
     }
 
-    const votingPower = await this.getVotingPower(voterId);
-    if (votingPower <= 0) {
-      throw new Error('No voting power');
+    if (!Object.values(VoteType).includes(voteType)) {
+      throw new Error('Invalid vote type');
     }
 
-    // Check if proposal is active
-    const proposal = await this.getProposal(proposalId);
-    if (!proposal || proposal.status !== 'ACTIVE') {
-      throw new Error('Proposal not active');
-    }
+    const vote = await this.dataSource.transaction(async (manager) => {
+      // Check if proposal is active
+      const proposal = await manager.findOne(GovernanceProposal, {
+        where: { id: proposalId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!proposal || proposal.status !== ProposalStatus.ACTIVE) {
+        throw new Error('Proposal not active');
+      }
 
-    if (new Date() > proposal.endTime) {
-      throw new Error('Voting period has ended');
-    }
+      if (proposal.secretBallot) {
+        throw new Error('Proposal uses secret ballots; submit an encrypted ballot');
+      }
 
-    const vote: Vote = {
-      id: `vote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      proposalId,
-      voterId,
-      voteType,
-      votingPower,
-      reason,
-      createdAt: new Date(),
-    };
+      if (new Date() > proposal.endTime) {
+        throw new Error('Voting period has ended');
+      }
+
+      const existing = await manager.findOne(Vote, { where: { proposalId, voterId } });
+      if (existing) {
+        throw new Error('Already voted on this proposal');
+      }
+
+      const snapshot = await manager.findOne(VotingPowerSnapshot, { where: { proposalId, userId: voterId } });
+      const votingPower = Number(snapshot?.votingPower || 0);
+      if (votingPower <= 0) {
+        throw new Error('No voting power for this proposal');
+      }
 
-    // Update proposal votes
-    await this.updateProposalVotes(proposalId, voteType, votingPower);
+      const vote = await manager.save(
+        manager.create(Vote, { proposalId, voterId, voteType, votingPower, reason }),
+      );
+
+      // Update proposal votes
+      this.addToTally(proposal, voteType, votingPower);
+      await manager.save(proposal);
+
+      return vote;
+    });
 
     this.logger.log(`Vote cast: ${voteType} on ${proposalId} by ${voterId}`);
     
@@ -175,211 +222,500 @@ export class GovernanceService {
   }
 
   /**
-   * Execute a passed proposal
+   * Get the MXE public key secret ballots are encrypted with and the
+   * encoding of each choice
    */
-  async executeProposal(proposalId: string, executorId: string): Promise<boolean> {
-    const proposal = await this.getProposal(proposalId);
-    
-    if (!proposal) {
-      throw new Error('Proposal not found');
-    }
+  async getBallotKey(): Promise<{ mxePublicKey: string; choices: typeof BALLOT_CHOICES }> {
+    const mxePublicKey = await this.arciumRealService.getMXEPublicKey();
+    return { mxePublicKey: Buffer.from(mxePublicKey).toString('base64'), choices: BALLOT_CHOICES };
+  }
 
-    if (proposal.status !== 'PASSED') {
-      throw new Error('Proposal has not passed');
-    }
+  /**
+   * Cast a secret ballot on an active proposal with the voting power
+   * snapshotted at activation. The choice stays encrypted until the tally
+   * is revealed at the end of voting; the voter keeps the receipt to
+   * check that the ballot was counted.
+   */
+  async castEncryptedBallot(
+    proposalId: string,
+    voterId: string,
+    ballotData: EncryptedBallotData,
+  ): Promise<BallotReceipt> {
+    this.validateEncryptedBallot(ballotData);
+
+    const ballot = await this.dataSource.transaction(async (manager) => {
+      const proposal = await manager.findOne(GovernanceProposal, {
+        where: { id: proposalId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!proposal || proposal.status !== ProposalStatus.ACTIVE) {
+        throw new Error('Proposal not active');
+      }
 
-    // Check execution delay
-    const executionTime = new Date(proposal.endTime.getTime() + this.currentParameters.executionDelay * 60 * 60 * 1000);
-    if (new Date() < executionTime) {
-      throw new Error('Execution delay not yet passed');
-    }
+      if (!proposal.secretBallot) {
+        throw new Error('Proposal does not use secret ballots');
+      }
 
-    // Execute the proposal
-    await this.executeProposalChanges(proposal);
+      if (new Date() > proposal.endTime) {
+        throw new Error('Voting period has ended');
+      }
 
-    // Update proposal status
-    proposal.status = 'EXECUTED';
-    proposal.updatedAt = new Date();
+      const existing = await manager.findOne(EncryptedBallot, { where: { proposalId, voterId } });
+      if (existing) {
+        throw new Error('Already voted on this proposal');
+      }
 
-    this.logger.log(`Proposal executed: ${proposalId} by ${executorId}`);
-    
+      const snapshot = await manager.findOne(VotingPowerSnapshot, { where: { proposalId, userId: voterId } });
+      const votingPower = Number(snapshot?.votingPower || 0);
+      if (votingPower <= 0) {
+        throw new Error('No voting power for this proposal');
+      }
+
+      const receipt = createHash('sha256')
+        .update([proposalId, ballotData.ciphertext, ballotData.nonce, ballotData.publicKey].join(':'))
+        .digest('hex');
+      const ballot = await manager.save(
+        manager.create(EncryptedBallot, {
+          proposalId,
+          voterId,
+          ciphertext: ballotData.ciphertext,
+          nonce: ballotData.nonce,
+          publicKey: ballotData.publicKey,
+          votingPower,
+          receipt,
+        }),
+      );
+
+      // Turnout is public; how the power was cast is not until the reveal
+      proposal.totalVotes = Number(proposal.totalVotes) + votingPower;
+      await manager.save(proposal);
+
+      return ballot;
+    });
+
+    this.logger.log(`Secret ballot cast on ${proposalId} by ${voterId}`);
+
+    return this.toBallotReceipt(ballot);
+  }
+
+  /**
+   * Look up a secret ballot by its receipt to check it was counted
+   */
+  async getBallotReceipt(proposalId: string, receipt: string): Promise<BallotReceipt> {
+    const ballot = await this.ballotRepository.findOne({ where: { proposalId, receipt } });
+    if (!ballot) {
+      throw new Error('Ballot receipt not found');
+    }
+
+    return this.toBallotReceipt(ballot);
+  }
+
+  /**
+   * Execute a queued proposal whose timelock delay has passed. Due
+   * proposals are also executed by the timelock scheduler.
+   */
+  async executeProposal(proposalId: string, executorId: string): Promise<boolean> {
+    await this.timelockService.execute(proposalId, executorId);
     return true;
   }
 
+  /**
+   * Pause the protocol immediately. Only governance can unpause it, by
+   * executing a proposal that sets emergencyPause back to false.
+   */
+  async pauseProtocol(guardianId: string, reason?: string): Promise<ProtocolParameters> {
+    const parameters = await this.protocolConfigService.updateParameters({ emergencyPause: true }, guardianId);
+    this.logger.warn(`Protocol paused by guardian ${guardianId}${reason ? `: ${reason}` : ''}`);
+
+    return parameters;
+  }
+
   /**
    * Get current protocol parameters
    */
   getCurrentParameters(): ProtocolParameters {
-    return { ...this.currentParameters };
+    return this.protocolConfigService.getParameters();
+  }
+
+  /**
+   * Get the schema parameter change proposals are validated against
+   */
+  getParameterSchema(): ProtocolParameterSchema {
+    return this.protocolConfigService.getSchema();
   }
 
   /**
    * Update protocol parameters
    */
-  async updateParameters(updates: Partial<ProtocolParameters>): Promise<void> {
-    this.currentParameters = { ...this.currentParameters, ...updates };
-    this.logger.log('Protocol parameters updated', updates);
+  async updateParameters(updates: Partial<ProtocolParameters>, updatedBy?: string): Promise<void> {
+    await this.protocolConfigService.updateParameters(updates, updatedBy);
   }
 
   /**
-   * Get user's voting power
+   * Delegate the user's voting power to another user, replacing any
+   * existing delegation. Proposals already active keep their snapshot.
    */
-  async getVotingPower(userId: string): Promise<number> {
-    const user = await this.userRepository.findOne({
-      where: { id: userId },
+  async delegateVotingPower(delegatorId: string, delegateId: string): Promise<VoteDelegation> {
+    if (delegatorId === delegateId) {
+      throw new Error('Cannot delegate voting power to yourself');
+    }
+
+    const delegate = await this.userRepository.findOne({ where: { id: delegateId } });
+    if (!delegate) {
+      throw new Error('Delegate not found');
+    }
+
+    const delegation = await this.dataSource.transaction(async (manager) => {
+      await manager.update(VoteDelegation, { delegatorId, revokedAt: IsNull() }, { revokedAt: new Date() });
+      return manager.save(manager.create(VoteDelegation, { delegatorId, delegateId }));
     });
 
-    if (!user) return 0;
+    this.logger.log(`Voting power delegated: ${delegatorId} to ${delegateId}`);
 
-    // Calculate voting power based on user's stake in the protocol
-    // This could be based on:
-    // - Amount lent/borrowed
-    // - Token holdings
-    // - Reputation score
-    // - Time in protocol
-    
-    let votingPower = 0;
-    
-    // Base voting power
-    votingPower += 1;
-    
-    // Based on total activity
-    votingPower += Math.log10(user.totalBorrowed + user.totalLent + 1) * 2;
-    
-    // Based on credit score
-    votingPower += user.creditScore / 1000;
-    
-    // Based on role
-    if (user.role === UserRole.ADMIN) {
-      votingPower += 100;
-    } else if (user.role === UserRole.LENDER) {
-      votingPower += 5;
+    return delegation;
+  }
+
+  /**
+   * Revoke the user's active delegation so they vote with their own power
+   */
+  async revokeDelegation(delegatorId: string): Promise<VoteDelegation> {
+    const delegation = await this.delegationRepository.findOne({
+      where: { delegatorId, revokedAt: IsNull() },
+    });
+    if (!delegation) {
+      throw new Error('No active delegation');
     }
 
-    return Math.floor(votingPower);
+    delegation.revokedAt = new Date();
+    await this.delegationRepository.save(delegation);
+
+    this.logger.log(`Voting power delegation revoked: ${delegatorId} from ${delegation.delegateId}`);
+
+    return delegation;
+  }
+
+  /**
+   * Get user's current voting power
+   */
+  async getVotingPower(userId: string): Promise<number> {
+    const breakdown = await this.getVotingPowerBreakdown(userId);
+    return breakdown.votingPower;
+  }
+
+  /**
+   * Get a user's voting power split into their own and delegated power,
+   * either as it is now or as snapshotted for a proposal
+   */
+  async getVotingPowerBreakdown(userId: string, proposalId?: string): Promise<VotingPowerBreakdown> {
+    if (proposalId) {
+      const snapshot = await this.snapshotRepository.findOne({ where: { proposalId, userId } });
+      return {
+        userId,
+        proposalId,
+        ownPower: Number(snapshot?.ownPower || 0),
+        delegatedPower: Number(snapshot?.delegatedPower || 0),
+        votingPower: Number(snapshot?.votingPower || 0),
+        delegatedTo: null,
+        delegators: [],
+      };
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const delegation = await this.delegationRepository.findOne({
+      where: { delegatorId: userId, revokedAt: IsNull() },
+    });
+    const received = await this.delegationRepository.find({
+      where: { delegateId: userId, revokedAt: IsNull() },
+    });
+    const delegatorUsers = received.length
+      ? await this.userRepository.find({ where: { id: In(received.map((d) => d.delegatorId)) } })
+      : [];
+
+    const delegators = delegatorUsers.map((delegator) => ({
+      delegatorId: delegator.id,
+      votingPower: this.calculateOwnPower(delegator),
+    }));
+    const ownPower = delegation ? 0 : this.calculateOwnPower(user);
+    const delegatedPower = delegators.reduce((sum, delegator) => sum + delegator.votingPower, 0);
+
+    return {
+      userId,
+      ownPower,
+      delegatedPower,
+      votingPower: ownPower + delegatedPower,
+      delegatedTo: delegation?.delegateId || null,
+      delegators,
+    };
   }
 
   /**
    * Get all proposals
    */
-  async getProposals(status?: GovernanceProposal['status']): Promise<GovernanceProposal[]> {
-    // In production, this would query the database
-    return [];
+  async getProposals(status?: ProposalStatus): Promise<GovernanceProposal[]> {
+    return this.proposalRepository.find({
+      where: status ? { status } : {},
+      order: { createdAt: 'DESC' },
+    });
   }
 
   /**
    * Get proposal by ID
    */
   async getProposal(proposalId: string): Promise<GovernanceProposal | null> {
-    // In production, this would query the database
-    return null;
+    return this.proposalRepository.findOne({ where: { id: proposalId } });
   }
 
   /**
    * Get votes for a proposal
    */
   async getProposalVotes(proposalId: string): Promise<Vote[]> {
-    // In production, this would query the database
-    return [];
+    return this.voteRepository.find({
+      where: { proposalId },
+      order: { createdAt: 'ASC' },
+    });
   }
 
   /**
-   * Check if proposal has passed
+   * Close proposals whose voting period has ended - runs every minute
    */
-  async checkProposalStatus(proposalId: string): Promise<GovernanceProposal['status']> {
-    const proposal = await this.getProposal(proposalId);
-    
-    if (!proposal) return 'REJECTED';
-
-    if (proposal.status !== 'ACTIVE') {
-      return proposal.status;
+  @Cron(CronExpression.EVERY_MINUTE)
+  async closeEndedProposals(): Promise<void> {
+    try {
+      const ended = await this.proposalRepository.find({
+        where: { status: ProposalStatus.ACTIVE, endTime: LessThan(new Date()) },
+      });
+
+      for (const proposal of ended) {
+        try {
+          const status = await this.checkProposalStatus(proposal.id);
+          this.logger.log(`Proposal ${proposal.id} closed: ${status}`);
+        } catch (error) {
+          // A secret tally that fails is retried on the next run
+          this.logger.error(`Error closing proposal ${proposal.id}`, error);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Error closing ended proposals', error);
     }
+  }
 
-    // Check if voting period has ended
-    if (new Date() > proposal.endTime) {
-      // Check if proposal passed
-      const totalVotingPower = proposal.votesFor + proposal.votesAgainst;
-      const quorumMet = totalVotingPower >= proposal.quorum;
-      const majorityFor = proposal.votesFor > proposal.votesAgainst;
-
-      if (quorumMet && majorityFor) {
-        proposal.status = 'PASSED';
-      } else {
-        proposal.status = 'REJECTED';
+  /**
+   * Check if proposal has passed. Once voting has ended the tally is
+   * recounted from the recorded votes, or revealed through Arcium for
+   * secret ballots, and the outcome saved; a passed proposal is queued in
+   * the timelock.
+   */
+  async checkProposalStatus(proposalId: string): Promise<ProposalStatus> {
+    // Run the MPC tally before locking the proposal
+    const secretTally = await this.tallySecretBallots(proposalId);
+
+    return this.dataSource.transaction(async (manager) => {
+      const proposal = await manager.findOne(GovernanceProposal, {
+        where: { id: proposalId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      
+      if (!proposal) return ProposalStatus.REJECTED;
+
+      if (proposal.status !== ProposalStatus.ACTIVE) {
+        return proposal.status;
+      }
+
+      // Check if voting period has ended
+      if (new Date() > proposal.endTime) {
+        if (proposal.secretBallot && !secretTally) {
+          // Voting ended after the tally check; reveal on the next run
+          return proposal.status;
+        }
+
+        proposal.votesFor = 0;
+        proposal.votesAgainst = 0;
+        proposal.votesAbstain = 0;
+        proposal.totalVotes = 0;
+        if (proposal.secretBallot) {
+          this.addToTally(proposal, VoteType.FOR, secretTally.votesFor);
+          this.addToTally(proposal, VoteType.AGAINST, secretTally.votesAgainst);
+          this.addToTally(proposal, VoteType.ABSTAIN, secretTally.votesAbstain);
+          proposal.invalidVotePower = secretTally.invalidPower;
+          proposal.tallyComputationId = secretTally.computationId;
+          if (secretTally.ballotIds.length) {
+            await manager.update(
+              EncryptedBallot,
+              { id: In(secretTally.ballotIds) },
+              { counted: true, tallyComputationId: secretTally.computationId },
+            );
+          }
+        } else {
+          const votes = await manager.find(Vote, { where: { proposalId } });
+          for (const vote of votes) {
+            this.addToTally(proposal, vote.voteType, Number(vote.votingPower));
+          }
+        }
+
+        // Check if proposal passed
+        const totalVotingPower = proposal.votesFor + proposal.votesAgainst;
+        const quorumMet = totalVotingPower >= Number(proposal.quorum);
+        const majorityFor = proposal.votesFor > proposal.votesAgainst;
+
+        if (quorumMet && majorityFor) {
+          // Passed proposals wait out the execution delay in the timelock
+          await this.timelockService.queue(manager, proposal);
+        } else {
+          proposal.status = ProposalStatus.REJECTED;
+        }
+
+        await manager.save(proposal);
       }
 
-      proposal.updatedAt = new Date();
+      return proposal.status;
+    });
+  }
+
+  /**
+   * Record every user's voting power on a proposal. Delegated power moves
+   * one level only: power a delegate receives is not passed on if the
+   * delegate has delegated too. Returns the number of users with power.
+   */
+  private async snapshotVotingPower(manager: EntityManager, proposalId: string): Promise<number> {
+    const users = await manager.find(User);
+    const delegations = await manager.find(VoteDelegation, { where: { revokedAt: IsNull() } });
+    const delegatedTo = new Map(delegations.map((d) => [d.delegatorId, d.delegateId]));
+
+    const powers = new Map<string, { ownPower: number; delegatedPower: number }>();
+    for (const user of users) {
+      powers.set(user.id, { ownPower: 0, delegatedPower: 0 });
+    }
+    for (const user of users) {
+      const power = this.calculateOwnPower(user);
+      const delegateId = delegatedTo.get(user.id);
+      if (delegateId && powers.has(delegateId)) {
+        powers.get(delegateId).delegatedPower += power;
+      } else if (!delegateId) {
+        powers.get(user.id).ownPower += power;
+      }
     }
 
-    return proposal.status;
+    const snapshots = [...powers.entries()]
+      .map(([userId, { ownPower, delegatedPower }]) =>
+        manager.create(VotingPowerSnapshot, {
+          proposalId,
+          userId,
+          ownPower,
+          delegatedPower,
+          votingPower: ownPower + delegatedPower,
+        }),
+      )
+      .filter((snapshot) => snapshot.votingPower > 0);
+    await manager.save(snapshots);
+
+    return snapshots.length;
   }
 
   /**
-   * Get default protocol parameters
+   * Voting power a user earns from their own protocol activity and credit
+   * score. Roles carry no voting power.
    */
-  private getDefaultParameters(): ProtocolParameters {
-    return {
-      // Lending parameters
-      maxLoanAmount: 2000000, // $2M
-      minCollateralRatio: 1.5,
-      liquidationThreshold: 1.2,
-      liquidationPenalty: 0.05, // 5%
-      
-      // Interest rate parameters
-      baseInterestRate: 0.08, // 8%
-      maxInterestRate: 0.25, // 25%
-      interestRateStep: 0.01, // 1%
-      
-      // Risk parameters
-      maxRiskScore: 70,
-      creditScoreWeight: 0.35,
-      marketVolatilityWeight: 0.25,
-      
-      // Protocol parameters
-      protocolFee: 0.01, // 1%
-      treasuryFee: 0.005, // 0.5%
-      emergencyPause: false,
-      
-      // Governance parameters
-      proposalThreshold: 1000, // voting power
-      votingPeriod: 7, // days
-      quorumThreshold: 10000, // voting power
-      executionDelay: 24, // hours
-    };
+  private calculateOwnPower(user: User): number {
+    let votingPower = 1;
+    votingPower += Math.log10(Number(user.totalBorrowed) + Number(user.totalLent) + 1) * 2;
+    votingPower += Number(user.creditScore) / 1000;
+
+    return Math.floor(votingPower);
   }
 
   /**
-   * Update proposal votes
+   * Reveal the aggregate tally of a secret-ballot proposal whose voting
+   * has ended. Returns null for any other proposal.
    */
-  private async updateProposalVotes(
+  private async tallySecretBallots(
     proposalId: string,
-    voteType: Vote['voteType'],
-    votingPower: number,
-  ): Promise<void> {
-    // In production, this would update the database
-    this.logger.log(`Updating votes for proposal ${proposalId}: ${voteType} (+${votingPower})`);
+  ): Promise<(ArciumVoteTally & { ballotIds: string[] }) | null> {
+    const proposal = await this.proposalRepository.findOne({ where: { id: proposalId } });
+    if (!proposal?.secretBallot || proposal.status !== ProposalStatus.ACTIVE || new Date() <= proposal.endTime) {
+      return null;
+    }
+
+    const ballots = await this.ballotRepository.find({ where: { proposalId } });
+    if (!ballots.length) {
+      return { votesFor: 0, votesAgainst: 0, votesAbstain: 0, invalidPower: 0, computationId: null, ballotIds: [] };
+    }
+
+    try {
+      const weights = ballots.map((ballot) => Number(ballot.votingPower));
+      const tally = await this.arciumRealService.performEncryptedVoteTally(
+        ballots.map((ballot) => ({
+          ciphertext: Buffer.from(ballot.ciphertext, 'base64'),
+          nonce: Buffer.from(ballot.nonce, 'base64'),
+          publicKey: Buffer.from(ballot.publicKey, 'base64'),
+        })),
+        weights,
+      );
+
+      // Every ballot's power must land in exactly one choice, or be
+      // dropped by the circuit for an invalid one
+      const castPower = weights.reduce((sum, weight) => sum + weight, 0);
+      const talliedPower = tally.votesFor + tally.votesAgainst + tally.votesAbstain + tally.invalidPower;
+      if (Math.abs(talliedPower - castPower) > 1e-6) {
+        throw new Error('Tally does not match the voting power cast');
+      }
+
+      if (tally.invalidPower > 0) {
+        this.logger.warn(`Secret tally for ${proposalId} dropped ${tally.invalidPower} voting power cast for invalid choices`);
+      }
+      this.logger.log(`Secret tally revealed for ${proposalId}: computation ${tally.computationId}`);
+
+      return { ...tally, ballotIds: ballots.map((ballot) => ballot.id) };
+    } catch (error) {
+      this.logger.error(`Failed to tally secret ballots for ${proposalId}`, error);
+      throw new Error(`Secret ballot tally failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Check that a secret ballot is well-formed: a single encrypted field
+   * with a 16-byte nonce and the voter's 32-byte x25519 public key
+   */
+  private validateEncryptedBallot(ballotData: EncryptedBallotData): void {
+    const lengths = {
+      ciphertext: 32,
+      nonce: 16,
+      publicKey: 32,
+    };
+
+    for (const [field, length] of Object.entries(lengths)) {
+      const value = ballotData?.[field];
+      if (typeof value !== 'string' || Buffer.from(value, 'base64').length !== length) {
+        throw new Error(`Encrypted ballot ${field} must be ${length} base64-encoded bytes`);
+      }
+    }
+  }
+
+  private toBallotReceipt(ballot: EncryptedBallot): BallotReceipt {
+    return {
+      proposalId: ballot.proposalId,
+      receipt: ballot.receipt,
+      votingPower: Number(ballot.votingPower),
+      castAt: ballot.createdAt,
+      counted: ballot.counted || false,
+      tallyComputationId: ballot.tallyComputationId || null,
+    };
   }
 
   /**
-   * Execute proposal changes
+   * Add a vote's power to the proposal's tally
    */
-  private async executeProposalChanges(proposal: GovernanceProposal): Promise<void> {
-    switch (proposal.proposalType) {
-      case 'PARAMETER_CHANGE':
-        await this.updateParameters(proposal.parameters);
-        break;
-      case 'PROTOCOL_UPGRADE':
-        // Handle protocol upgrade
-        this.logger.log('Protocol upgrade executed', proposal.parameters);
-        break;
-      case 'EMERGENCY_PAUSE':
-        this.currentParameters.emergencyPause = true;
-        this.logger.warn('Protocol paused due to emergency proposal');
-        break;
-      case 'TREASURY_ALLOCATION':
-        // Handle treasury allocation
-        this.logger.log('Treasury allocation executed', proposal.parameters);
-        break;
+  private addToTally(proposal: GovernanceProposal, voteType: VoteType, votingPower: number): void {
+    if (voteType === VoteType.FOR) {
+      proposal.votesFor = Number(proposal.votesFor) + votingPower;
+    } else if (voteType === VoteType.AGAINST) {
+      proposal.votesAgainst = Number(proposal.votesAgainst) + votingPower;
+    } else {
+      proposal.votesAbstain = Number(proposal.votesAbstain) + votingPower;
     }
+    proposal.totalVotes = Number(proposal.totalVotes) + votingPower;
   }
 }
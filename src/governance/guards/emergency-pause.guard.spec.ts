@@ -0,0 +1,59 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { EmergencyPauseGuard } from './emergency-pause.guard';
+import { ProtocolConfigService } from '../protocol-config.service';
+import { WhenNotPaused } from '../decorators/when-not-paused.decorator';
+
+class PausableController {
+  @WhenNotPaused()
+  borrow() {}
+
+  repay() {}
+}
+
+describe('EmergencyPauseGuard', () => {
+  let emergencyPause: boolean;
+  let guard: EmergencyPauseGuard;
+
+  const contextFor = (handler: () => void) =>
+    ({
+      getHandler: () => handler,
+      getClass: () => PausableController,
+    }) as any;
+
+  beforeEach(async () => {
+    emergencyPause = false;
+
+    const module = await Test.createTestingModule({
+      providers: [
+        EmergencyPauseGuard,
+        Reflector,
+        {
+          provide: ProtocolConfigService,
+          useValue: { getParameters: () => ({ emergencyPause }) },
+        },
+      ],
+    }).compile();
+
+    guard = module.get(EmergencyPauseGuard);
+  });
+
+  it('should block pausable routes only while paused', () => {
+    const borrow = contextFor(PausableController.prototype.borrow);
+    expect(guard.canActivate(borrow)).toBe(true);
+
+    emergencyPause = true;
+    expect(() => guard.canActivate(borrow)).toThrow(
+      ServiceUnavailableException,
+    );
+  });
+
+  it('should keep other routes such as repayments open while paused', () => {
+    emergencyPause = true;
+
+    expect(
+      guard.canActivate(contextFor(PausableController.prototype.repay)),
+    ).toBe(true);
+  });
+});
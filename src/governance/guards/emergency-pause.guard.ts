@@ -0,0 +1,34 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ProtocolConfigService } from '../protocol-config.service';
+import { WHEN_NOT_PAUSED_KEY } from '../decorators/when-not-paused.decorator';
+
+/**
+ * Global guard rejecting routes marked with @WhenNotPaused while the
+ * emergencyPause protocol parameter is set
+ */
+@Injectable()
+export class EmergencyPauseGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private protocolConfigService: ProtocolConfigService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const pausable = this.reflector.getAllAndOverride<boolean>(
+      WHEN_NOT_PAUSED_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (pausable && this.protocolConfigService.getParameters().emergencyPause) {
+      throw new ServiceUnavailableException('Protocol is paused');
+    }
+
+    return true;
+  }
+}
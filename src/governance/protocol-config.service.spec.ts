@@ -0,0 +1,114 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ProtocolConfigService } from './protocol-config.service';
+import { ProtocolParameter } from '../entities/protocol-parameter.entity';
+
+describe('ProtocolConfigService', () => {
+  let stored: any[];
+  let protocolConfigService: ProtocolConfigService;
+
+  beforeEach(async () => {
+    stored = [];
+    const protocolParameterRepository = {
+      find: jest.fn(async () => stored),
+      create: jest.fn((parameter) => parameter),
+      save: jest.fn(async (parameters) => {
+        stored.push(...parameters);
+        return parameters;
+      }),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ProtocolConfigService,
+        {
+          provide: getRepositoryToken(ProtocolParameter),
+          useValue: protocolParameterRepository,
+        },
+      ],
+    }).compile();
+
+    protocolConfigService = module.get(ProtocolConfigService);
+  });
+
+  it('should persist updates and apply them immediately', async () => {
+    await protocolConfigService.updateParameters(
+      { liquidationThreshold: 1.3 },
+      'proposal-1',
+    );
+
+    expect(protocolConfigService.getParameters().liquidationThreshold).toBe(
+      1.3,
+    );
+    expect(stored).toEqual([
+      { key: 'liquidationThreshold', value: 1.3, updatedBy: 'proposal-1' },
+    ]);
+  });
+
+  it('should load persisted values over the defaults', async () => {
+    stored = [
+      { key: 'maxRiskScore', value: 40 },
+      { key: 'retiredParameter', value: 1 },
+    ];
+
+    await protocolConfigService.reloadParameters();
+
+    const parameters = protocolConfigService.getParameters();
+    expect(parameters.maxRiskScore).toBe(40);
+    expect(parameters.liquidationPenalty).toBe(0.05);
+    expect(parameters).not.toHaveProperty('retiredParameter');
+  });
+
+  it('should reject unknown or mistyped parameters', async () => {
+    await expect(
+      protocolConfigService.updateParameters({ unknown: 1 } as any),
+    ).rejects.toThrow('Unknown protocol parameter: unknown');
+    await expect(
+      protocolConfigService.updateParameters({ emergencyPause: 'yes' } as any),
+    ).rejects.toThrow('Protocol parameter emergencyPause must be a boolean');
+    expect(stored).toEqual([]);
+  });
+
+  it('should enforce bounds and keep thresholds consistent', async () => {
+    await expect(
+      protocolConfigService.updateParameters({ liquidationThreshold: 0 }),
+    ).rejects.toThrow(
+      'Protocol parameter liquidationThreshold must be between 1.01 and 2.5',
+    );
+    await expect(
+      protocolConfigService.updateParameters({ votingPeriod: 2.5 }),
+    ).rejects.toThrow('Protocol parameter votingPeriod must be an integer');
+    await expect(
+      protocolConfigService.updateParameters({ liquidationThreshold: 1.6 }),
+    ).rejects.toThrow('liquidationThreshold must be below minCollateralRatio');
+    await expect(
+      protocolConfigService.updateParameters({
+        minCollateralRatio: 1.15,
+        liquidationThreshold: 1.1,
+        liquidationPenalty: 0.15,
+      }),
+    ).rejects.toThrow(
+      'minCollateralRatio must exceed 1 plus liquidationPenalty',
+    );
+    expect(stored).toEqual([]);
+  });
+
+  it('should limit how far a proposal can move a parameter', () => {
+    expect(() =>
+      protocolConfigService.validateProposalChanges({
+        liquidationThreshold: 1.25,
+        maxRiskScore: 60,
+      }),
+    ).not.toThrow();
+    expect(() =>
+      protocolConfigService.validateProposalChanges({
+        liquidationThreshold: 1.4,
+      }),
+    ).toThrow(
+      'Protocol parameter liquidationThreshold can change by at most 0.1 per proposal',
+    );
+    expect(() => protocolConfigService.validateProposalChanges({})).toThrow(
+      'Parameter change proposal has no parameters',
+    );
+  });
+});
@@ -0,0 +1,427 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { EntityManager, Repository } from 'typeorm';
+import { ProtocolParameter } from '../entities/protocol-parameter.entity';
+
+export interface ProtocolParameters {
+  // Lending parameters
+  maxLoanAmount: number;
+  minCollateralRatio: number;
+  liquidationThreshold: number;
+  liquidationPenalty: number;
+  gracePeriodDays: number;
+  lateFeeRate: number;
+  maxMissedPayments: number;
+  prepaymentPenaltyRate: number;
+
+  // Interest rate parameters
+  baseInterestRate: number;
+  maxInterestRate: number;
+  interestRateStep: number;
+
+  // Risk parameters
+  maxRiskScore: number;
+  creditScoreWeight: number;
+  marketVolatilityWeight: number;
+
+  // Protocol parameters
+  protocolFee: number;
+  treasuryFee: number;
+  emergencyPause: boolean;
+
+  // Governance parameters
+  proposalThreshold: number;
+  votingPeriod: number;
+  quorumThreshold: number;
+  executionDelay: number;
+}
+
+export interface ParameterSchema {
+  type: 'number' | 'integer' | 'boolean';
+  description: string;
+  min?: number;
+  max?: number;
+  // Largest absolute change a single proposal may make
+  maxChange?: number;
+}
+
+export type ProtocolParameterSchema = Record<
+  keyof ProtocolParameters,
+  ParameterSchema
+>;
+
+const PARAMETER_SCHEMA: ProtocolParameterSchema = {
+  // Lending parameters
+  maxLoanAmount: {
+    type: 'number',
+    description: 'Largest loan amount that can be approved',
+    min: 1000,
+    max: 10000000,
+    maxChange: 1000000,
+  },
+  minCollateralRatio: {
+    type: 'number',
+    description: 'Collateral ratio below which a margin call is issued',
+    min: 1.1,
+    max: 3,
+    maxChange: 0.25,
+  },
+  liquidationThreshold: {
+    type: 'number',
+    description: 'Collateral ratio below which a loan is liquidated',
+    min: 1.01,
+    max: 2.5,
+    maxChange: 0.1,
+  },
+  liquidationPenalty: {
+    type: 'number',
+    description:
+      'Penalty added to liquidated debt, paid to lenders from the auction proceeds',
+    min: 0,
+    max: 0.2,
+    maxChange: 0.05,
+  },
+  gracePeriodDays: {
+    type: 'integer',
+    description: 'Days after a due date before a payment is late',
+    min: 0,
+    max: 30,
+    maxChange: 5,
+  },
+  lateFeeRate: {
+    type: 'number',
+    description: 'Late fee as a share of the missed installment',
+    min: 0,
+    max: 0.2,
+    maxChange: 0.05,
+  },
+  maxMissedPayments: {
+    type: 'integer',
+    description: 'Missed installments before a loan defaults',
+    min: 1,
+    max: 12,
+    maxChange: 3,
+  },
+  prepaymentPenaltyRate: {
+    type: 'number',
+    description: 'Penalty as a share of principal repaid before maturity',
+    min: 0,
+    max: 0.1,
+    maxChange: 0.02,
+  },
+
+  // Interest rate parameters
+  baseInterestRate: {
+    type: 'number',
+    description: 'Annual interest rate before risk adjustments',
+    min: 0,
+    max: 0.5,
+    maxChange: 0.05,
+  },
+  maxInterestRate: {
+    type: 'number',
+    description: 'Highest annual interest rate',
+    min: 0.01,
+    max: 1,
+    maxChange: 0.1,
+  },
+  interestRateStep: {
+    type: 'number',
+    description: 'Granularity of interest rate adjustments',
+    min: 0.001,
+    max: 0.1,
+    maxChange: 0.01,
+  },
+
+  // Risk parameters
+  maxRiskScore: {
+    type: 'integer',
+    description: 'Risk score at or above which a loan is not approved',
+    min: 0,
+    max: 100,
+    maxChange: 10,
+  },
+  creditScoreWeight: {
+    type: 'number',
+    description: 'Weight of the credit score in risk scoring',
+    min: 0,
+    max: 1,
+    maxChange: 0.1,
+  },
+  marketVolatilityWeight: {
+    type: 'number',
+    description: 'Weight of market volatility in risk scoring',
+    min: 0,
+    max: 1,
+    maxChange: 0.1,
+  },
+
+  // Protocol parameters
+  protocolFee: {
+    type: 'number',
+    description: 'Protocol fee as a share of the loan amount',
+    min: 0,
+    max: 0.05,
+    maxChange: 0.005,
+  },
+  treasuryFee: {
+    type: 'number',
+    description: 'Treasury fee as a share of the loan amount',
+    min: 0,
+    max: 0.05,
+    maxChange: 0.005,
+  },
+  emergencyPause: {
+    type: 'boolean',
+    description: 'Whether lending and withdrawals are paused',
+  },
+
+  // Governance parameters
+  proposalThreshold: {
+    type: 'number',
+    description: 'Voting power needed to create a proposal',
+    min: 1,
+    max: 1000,
+    maxChange: 10,
+  },
+  votingPeriod: {
+    type: 'integer',
+    description: 'Days a proposal is open for voting',
+    min: 1,
+    max: 30,
+    maxChange: 7,
+  },
+  quorumThreshold: {
+    type: 'number',
+    description: 'Voting power that must vote for or against a proposal',
+    min: 1,
+    max: 1000000,
+    maxChange: 500,
+  },
+  executionDelay: {
+    type: 'integer',
+    description: 'Hours a passed proposal waits in the timelock',
+    min: 1,
+    max: 336,
+    maxChange: 72,
+  },
+};
+
+/**
+ * Protocol parameters shared by every service that enforces them. Values
+ * are persisted, so a change made by governance applies to all instances
+ * without a redeploy; each instance reads them from an in-memory copy
+ * that is reloaded every minute.
+ */
+@Injectable()
+export class ProtocolConfigService implements OnModuleInit {
+  private readonly logger = new Logger(ProtocolConfigService.name);
+  private parameters: ProtocolParameters = this.getDefaultParameters();
+
+  constructor(
+    @InjectRepository(ProtocolParameter)
+    private protocolParameterRepository: Repository<ProtocolParameter>,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.reloadParameters();
+  }
+
+  /**
+   * Get current protocol parameters
+   */
+  getParameters(): ProtocolParameters {
+    return { ...this.parameters };
+  }
+
+  /**
+   * Get the type, bounds and maximum change per proposal of each parameter
+   */
+  getSchema(): ProtocolParameterSchema {
+    return JSON.parse(JSON.stringify(PARAMETER_SCHEMA));
+  }
+
+  /**
+   * Validate the changes a proposal would make against the schema,
+   * including the maximum change per proposal from the current values
+   */
+  validateProposalChanges(updates: Record<string, any>): void {
+    if (!updates || Object.keys(updates).length === 0) {
+      throw new Error('Parameter change proposal has no parameters');
+    }
+
+    this.validateParameters(updates);
+
+    for (const [key, value] of Object.entries(updates)) {
+      const { maxChange } = PARAMETER_SCHEMA[key];
+      if (
+        maxChange !== undefined &&
+        Math.abs(value - this.parameters[key]) > maxChange
+      ) {
+        throw new Error(
+          `Protocol parameter ${key} can change by at most ${maxChange} per proposal`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Persist parameter changes and apply them immediately
+   */
+  async updateParameters(
+    updates: Partial<ProtocolParameters>,
+    updatedBy?: string,
+  ): Promise<ProtocolParameters> {
+    this.validateParameters(updates);
+
+    await this.protocolParameterRepository.save(
+      Object.entries(updates).map(([key, value]) =>
+        this.protocolParameterRepository.create({ key, value, updatedBy }),
+      ),
+    );
+
+    return this.applyParameters(updates);
+  }
+
+  /**
+   * Validate and persist parameter changes inside the caller's
+   * transaction. They take effect once the caller applies them with
+   * applyParameters after the transaction commits.
+   */
+  async saveParameters(
+    manager: EntityManager,
+    updates: Partial<ProtocolParameters>,
+    updatedBy?: string,
+  ): Promise<void> {
+    this.validateParameters(updates);
+
+    await manager.save(
+      Object.entries(updates).map(([key, value]) =>
+        manager.create(ProtocolParameter, { key, value, updatedBy }),
+      ),
+    );
+  }
+
+  /**
+   * Apply persisted parameter changes to the parameters in memory
+   */
+  applyParameters(updates: Partial<ProtocolParameters>): ProtocolParameters {
+    this.parameters = { ...this.parameters, ...updates };
+    this.logger.log('Protocol parameters updated', updates);
+
+    return this.getParameters();
+  }
+
+  /**
+   * Reload persisted parameters over the defaults - runs every minute so
+   * changes made through another instance are picked up
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async reloadParameters(): Promise<void> {
+    try {
+      const stored = await this.protocolParameterRepository.find();
+      const defaults = this.getDefaultParameters();
+
+      this.parameters = stored
+        .filter((parameter) => parameter.key in defaults)
+        .reduce(
+          (parameters, parameter) => ({
+            ...parameters,
+            [parameter.key]: parameter.value,
+          }),
+          defaults,
+        );
+    } catch (error) {
+      // Keep serving the last known parameters
+      this.logger.error('Failed to reload protocol parameters', error);
+    }
+  }
+
+  /**
+   * Check types and bounds, and that the parameters remain consistent
+   * with each other once the updates are applied
+   */
+  private validateParameters(updates: Record<string, any>): void {
+    for (const [key, value] of Object.entries(updates)) {
+      if (!Object.prototype.hasOwnProperty.call(PARAMETER_SCHEMA, key)) {
+        throw new Error(`Unknown protocol parameter: ${key}`);
+      }
+      const schema: ParameterSchema = PARAMETER_SCHEMA[key];
+
+      if (schema.type === 'boolean') {
+        if (typeof value !== 'boolean') {
+          throw new Error(`Protocol parameter ${key} must be a boolean`);
+        }
+        continue;
+      }
+
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`Protocol parameter ${key} must be a number`);
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        throw new Error(`Protocol parameter ${key} must be an integer`);
+      }
+      if (value < schema.min || value > schema.max) {
+        throw new Error(
+          `Protocol parameter ${key} must be between ${schema.min} and ${schema.max}`,
+        );
+      }
+    }
+
+    const merged = { ...this.parameters, ...updates };
+    if (merged.liquidationThreshold >= merged.minCollateralRatio) {
+      throw new Error('liquidationThreshold must be below minCollateralRatio');
+    }
+    // Partial liquidations restore the ratio by dividing by
+    // minCollateralRatio - 1 - liquidationPenalty
+    if (merged.minCollateralRatio <= 1 + merged.liquidationPenalty) {
+      throw new Error(
+        'minCollateralRatio must exceed 1 plus liquidationPenalty',
+      );
+    }
+    if (merged.baseInterestRate > merged.maxInterestRate) {
+      throw new Error('baseInterestRate must not exceed maxInterestRate');
+    }
+  }
+
+  /**
+   * Get default protocol parameters
+   */
+  private getDefaultParameters(): ProtocolParameters {
+    return {
+      // Lending parameters
+      maxLoanAmount: 200000, // $200K
+      minCollateralRatio: 1.5,
+      liquidationThreshold: 1.2,
+      liquidationPenalty: 0.05, // 5%
+      gracePeriodDays: 5, // days after a due date before a payment is late
+      lateFeeRate: 0.05, // 5% of the missed installment
+      maxMissedPayments: 3, // missed installments before default
+      prepaymentPenaltyRate: 0.02, // 2% of principal repaid before maturity
+
+      // Interest rate parameters
+      baseInterestRate: 0.08, // 8%
+      maxInterestRate: 0.25, // 25%
+      interestRateStep: 0.01, // 1%
+
+      // Risk parameters
+      maxRiskScore: 50, // approve scores below 50
+      creditScoreWeight: 0.35,
+      marketVolatilityWeight: 0.25,
+
+      // Protocol parameters
+      protocolFee: 0.01, // 1%
+      treasuryFee: 0.005, // 0.5%
+      emergencyPause: false,
+
+      // Governance parameters
+      // A user's own power is 1 + 2 * log10(volume + 1) + creditScore / 1000,
+      // so about 10 after $30K borrowed or lent and about 20 at most
+      proposalThreshold: 10, // voting power
+      votingPeriod: 7, // days
+      quorumThreshold: 50, // voting power
+      executionDelay: 24, // hours
+    };
+  }
+}
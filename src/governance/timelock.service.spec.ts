@@ -0,0 +1,151 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { TimelockService } from './timelock.service';
+import { ProtocolConfigService } from './protocol-config.service';
+import {
+  GovernanceProposal,
+  ProposalStatus,
+  ProposalType,
+} from '../entities/governance-proposal.entity';
+import {
+  TimelockEntry,
+  TimelockStatus,
+} from '../entities/timelock-entry.entity';
+import { GovernanceExecution } from '../entities/governance-execution.entity';
+
+describe('TimelockService', () => {
+  let parameters: any;
+  let entry: any;
+  let proposal: any;
+  let saved: any[];
+  let protocolConfigService: any;
+  let dataSource: { transaction: jest.Mock };
+  let timelockService: TimelockService;
+
+  beforeEach(async () => {
+    parameters = { liquidationThreshold: 1.2, executionDelay: 24 };
+    entry = {
+      id: 'entry-1',
+      proposalId: 'proposal-1',
+      status: TimelockStatus.QUEUED,
+      eta: new Date(Date.now() - 1000),
+    };
+    proposal = {
+      id: 'proposal-1',
+      proposalType: ProposalType.PARAMETER_CHANGE,
+      parameters: { liquidationThreshold: 1.25 },
+      status: ProposalStatus.QUEUED,
+    };
+    saved = [];
+
+    const manager = {
+      findOne: jest.fn(async (entity) =>
+        entity === TimelockEntry
+          ? entry
+          : entity === GovernanceProposal
+            ? proposal
+            : null,
+      ),
+      create: jest.fn((_entity, data) => data),
+      save: jest.fn(async (entity) => {
+        saved.push({ ...entity });
+        return entity;
+      }),
+      update: jest.fn(),
+    };
+    protocolConfigService = {
+      getParameters: () => ({ ...parameters }),
+      validateProposalChanges: jest.fn(),
+      saveParameters: jest.fn(async (_manager, updates) => {
+        if (updates.liquidationThreshold <= 0) {
+          throw new Error('Invalid liquidationThreshold');
+        }
+        saved.push({ ...updates });
+      }),
+      applyParameters: jest.fn((updates) => {
+        parameters = { ...parameters, ...updates };
+      }),
+    };
+
+    dataSource = { transaction: jest.fn((work) => work(manager)) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        TimelockService,
+        {
+          provide: getRepositoryToken(TimelockEntry),
+          useValue: { findOne: jest.fn(async () => entry) },
+        },
+        { provide: getRepositoryToken(GovernanceExecution), useValue: {} },
+        { provide: ProtocolConfigService, useValue: protocolConfigService },
+        { provide: DataSource, useValue: dataSource },
+      ],
+    }).compile();
+
+    timelockService = module.get(TimelockService);
+  });
+
+  it('should execute a due proposal and record the parameter diff', async () => {
+    const execution = await timelockService.execute(proposal.id, 'executor');
+
+    expect(execution.changes).toEqual([
+      { parameter: 'liquidationThreshold', before: 1.2, after: 1.25 },
+    ]);
+    expect(execution.parametersBefore.liquidationThreshold).toBe(1.2);
+    expect(entry.status).toBe(TimelockStatus.EXECUTED);
+    expect(proposal.status).toBe(ProposalStatus.EXECUTED);
+    expect(protocolConfigService.saveParameters).toHaveBeenCalledWith(
+      expect.anything(),
+      { liquidationThreshold: 1.25 },
+      'executor',
+    );
+    expect(parameters.liquidationThreshold).toBe(1.25);
+  });
+
+  it('should leave the parameters in memory untouched when the transaction fails', async () => {
+    dataSource.transaction.mockImplementationOnce(async (work) => {
+      await work({
+        findOne: jest.fn(async (entity) =>
+          entity === TimelockEntry ? entry : proposal,
+        ),
+        create: jest.fn((_entity, data) => data),
+        save: jest.fn(async (entity) => entity),
+      });
+      throw new Error('could not serialize access');
+    });
+
+    await expect(timelockService.execute(proposal.id, null)).rejects.toThrow(
+      'Proposal execution failed: could not serialize access',
+    );
+    expect(protocolConfigService.saveParameters).toHaveBeenCalled();
+    expect(protocolConfigService.applyParameters).not.toHaveBeenCalled();
+    expect(parameters.liquidationThreshold).toBe(1.2);
+  });
+
+  it('should keep a failed execution for retry', async () => {
+    proposal.parameters = { liquidationThreshold: 0 };
+
+    await expect(timelockService.execute(proposal.id, null)).rejects.toThrow(
+      'Proposal execution failed: Invalid liquidationThreshold',
+    );
+    expect(entry.status).toBe(TimelockStatus.FAILED);
+    expect(proposal.status).toBe(ProposalStatus.QUEUED);
+    expect(saved.some((record) => record.changes)).toBe(false);
+  });
+
+  it('should only let a guardian cancel during the delay', async () => {
+    await expect(
+      timelockService.cancel(proposal.id, 'guardian'),
+    ).rejects.toThrow('Timelock delay has already passed');
+
+    entry.eta = new Date(Date.now() + 60 * 60 * 1000);
+    await timelockService.cancel(proposal.id, 'guardian', 'Bad oracle');
+
+    expect(entry).toMatchObject({
+      status: TimelockStatus.CANCELLED,
+      cancelledBy: 'guardian',
+      cancelReason: 'Bad oracle',
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, EntityManager, LessThanOrEqual, Repository } from 'typeorm';
+import { GovernanceProposal, ProposalStatus, ProposalType } from '../entities/governance-proposal.entity';
+import { TimelockEntry, TimelockStatus } from '../entities/timelock-entry.entity';
+import { GovernanceExecution, ParameterChange } from '../entities/governance-execution.entity';
+import { ProtocolConfigService, ProtocolParameters } from './protocol-config.service';
+
+/**
+ * Holds passed proposals for the governance execution delay before they
+ * take effect. A guardian can cancel a queued proposal during the delay;
+ * every execution is recorded with the parameters before and after.
+ */
+@Injectable()
+export class TimelockService {
+  private readonly logger = new Logger(TimelockService.name);
+
+  constructor(
+    @InjectRepository(TimelockEntry)
+    private timelockRepository: Repository<TimelockEntry>,
+    @InjectRepository(GovernanceExecution)
+    private executionRepository: Repository<GovernanceExecution>,
+    private protocolConfigService: ProtocolConfigService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Queue a passed proposal with an ETA of now plus the execution delay.
+   * The caller saves the proposal.
+   */
+  async queue(manager: EntityManager, proposal: GovernanceProposal): Promise<TimelockEntry> {
+    const { executionDelay } = this.protocolConfigService.getParameters();
+    const entry = await manager.save(
+      manager.create(TimelockEntry, {
+        proposalId: proposal.id,
+        status: TimelockStatus.QUEUED,
+        eta: new Date(Date.now() + executionDelay * 60 * 60 * 1000),
+      }),
+    );
+    proposal.status = ProposalStatus.QUEUED;
+
+    this.logger.log(`Proposal ${proposal.id} queued for execution at ${entry.eta.toISOString()}`);
+
+    return entry;
+  }
+
+  /**
+   * Cancel a queued proposal before its ETA (guardian only)
+   */
+  async cancel(proposalId: string, guardianId: string, reason?: string): Promise<TimelockEntry> {
+    const entry = await this.dataSource.transaction(async (manager) => {
+      const entry = await manager.findOne(TimelockEntry, {
+        where: { proposalId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!entry || entry.status !== TimelockStatus.QUEUED) {
+        throw new Error('Proposal is not queued');
+      }
+
+      if (new Date() >= entry.eta) {
+        throw new Error('Timelock delay has already passed');
+      }
+
+      entry.status = TimelockStatus.CANCELLED;
+      entry.cancelledBy = guardianId;
+      entry.cancelReason = reason;
+      entry.cancelledAt = new Date();
+      await manager.save(entry);
+      await manager.update(GovernanceProposal, proposalId, { status: ProposalStatus.CANCELLED });
+
+      return entry;
+    });
+
+    this.logger.warn(`Queued proposal ${proposalId} cancelled by guardian ${guardianId}`);
+
+    return entry;
+  }
+
+  /**
+   * Execute a queued proposal once its ETA has passed and record the
+   * resulting parameter changes. The changes are saved in the same
+   * transaction and applied in memory only once it commits. A failed
+   * execution is kept for retry.
+   */
+  async execute(proposalId: string, executorId: string | null): Promise<GovernanceExecution> {
+    try {
+      const applied = await this.dataSource.transaction(async (manager) => {
+        const entry = await manager.findOne(TimelockEntry, {
+          where: { proposalId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!entry || ![TimelockStatus.QUEUED, TimelockStatus.FAILED].includes(entry.status)) {
+          throw new Error('Proposal is not queued');
+        }
+
+        if (new Date() < entry.eta) {
+          throw new Error('Execution delay not yet passed');
+        }
+
+        const proposal = await manager.findOne(GovernanceProposal, {
+          where: { id: proposalId },
+          lock: { mode: 'pessimistic_write' },
+        });
+
+        const parametersBefore = this.protocolConfigService.getParameters();
+        let updates: Partial<ProtocolParameters>;
+        try {
+          updates = await this.applyProposal(manager, proposal, executorId);
+        } catch (error) {
+          entry.status = TimelockStatus.FAILED;
+          entry.error = error.message;
+          await manager.save(entry);
+          return null;
+        }
+        const parametersAfter = { ...parametersBefore, ...updates };
+
+        const executedAt = new Date();
+        const execution = await manager.save(
+          manager.create(GovernanceExecution, {
+            proposalId,
+            timelockEntryId: entry.id,
+            proposalType: proposal.proposalType,
+            executedBy: executorId,
+            parametersBefore,
+            parametersAfter,
+            changes: this.diffParameters(parametersBefore, parametersAfter),
+          }),
+        );
+
+        entry.status = TimelockStatus.EXECUTED;
+        entry.executedAt = executedAt;
+        entry.error = null;
+        await manager.save(entry);
+
+        proposal.status = ProposalStatus.EXECUTED;
+        proposal.executedBy = executorId;
+        proposal.executedAt = executedAt;
+        await manager.save(proposal);
+
+        return { execution, updates };
+      });
+
+      if (!applied) {
+        const entry = await this.timelockRepository.findOne({ where: { proposalId } });
+        throw new Error(entry?.error || 'Proposal could not be applied');
+      }
+
+      const { execution, updates } = applied;
+      if (Object.keys(updates).length) {
+        this.protocolConfigService.applyParameters(updates);
+      }
+
+      this.logger.log(`Proposal executed: ${proposalId} by ${executorId || 'timelock'}`);
+
+      return execution;
+    } catch (error) {
+      this.logger.error(`Failed to execute proposal ${proposalId}`, error);
+      throw new Error(`Proposal execution failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Execute queued proposals whose ETA has passed - runs every minute
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async executeDueProposals(): Promise<void> {
+    try {
+      const due = await this.timelockRepository.find({
+        where: { status: TimelockStatus.QUEUED, eta: LessThanOrEqual(new Date()) },
+        order: { eta: 'ASC' },
+      });
+
+      for (const entry of due) {
+        try {
+          await this.execute(entry.proposalId, null);
+        } catch (error) {
+          // Logged by execute; the entry is left FAILED for a manual retry
+        }
+      }
+    } catch (error) {
+      this.logger.error('Error executing due proposals', error);
+    }
+  }
+
+  /**
+   * Get queued proposals, soonest first
+   */
+  async getQueue(): Promise<TimelockEntry[]> {
+    return this.timelockRepository.find({
+      where: { status: TimelockStatus.QUEUED },
+      relations: ['proposal'],
+      order: { eta: 'ASC' },
+    });
+  }
+
+  /**
+   * Get the execution audit log, most recent first
+   */
+  async getExecutions(limit: number = 50): Promise<GovernanceExecution[]> {
+    return this.executionRepository.find({
+      order: { executedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Save a proposal's changes through the execution's transaction and
+   * return the parameter updates to apply once it commits
+   */
+  private async applyProposal(
+    manager: EntityManager,
+    proposal: GovernanceProposal,
+    executorId: string | null,
+  ): Promise<Partial<ProtocolParameters>> {
+    const updatedBy = executorId || `proposal:${proposal.id}`;
+
+    switch (proposal.proposalType) {
+      case ProposalType.PARAMETER_CHANGE:
+        // Revalidate against the parameters as they are now, which other
+        // proposals may have changed since this one was created
+        this.protocolConfigService.validateProposalChanges(proposal.parameters);
+        await this.protocolConfigService.saveParameters(manager, proposal.parameters, updatedBy);
+        return proposal.parameters;
+      case ProposalType.PROTOCOL_UPGRADE:
+        // Handle protocol upgrade
+        this.logger.log('Protocol upgrade executed', proposal.parameters);
+        return {};
+      case ProposalType.EMERGENCY_PAUSE: {
+        // Pauses unless the proposal sets emergencyPause to false
+        const emergencyPause = proposal.parameters?.emergencyPause !== false;
+        await this.protocolConfigService.saveParameters(manager, { emergencyPause }, updatedBy);
+        this.logger.warn(`Protocol ${emergencyPause ? 'paused' : 'unpaused'} by emergency proposal`);
+        return { emergencyPause };
+      }
+      case ProposalType.TREASURY_ALLOCATION:
+        // Handle treasury allocation
+        this.logger.log('Treasury allocation executed', proposal.parameters);
+        return {};
+    }
+
+    return {};
+  }
+
+  private diffParameters(before: ProtocolParameters, after: ProtocolParameters): ParameterChange[] {
+    return Object.keys(after)
+      .filter((parameter) => JSON.stringify(before[parameter]) !== JSON.stringify(after[parameter]))
+      .map((parameter) => ({ parameter, before: before[parameter], after: after[parameter] }));
+  }
+}
@@ -0,0 +1,143 @@
+import { AmortizationService } from './amortization.service';
+import { RepaymentType } from '../entities/loan-application.entity';
+
+describe('AmortizationService', () => {
+  let amortizationService: AmortizationService;
+  const startDate = new Date('2025-01-15T00:00:00Z');
+
+  beforeEach(() => {
+    amortizationService = new AmortizationService();
+  });
+
+  describe('equal installment', () => {
+    it('should produce level payments that fully repay the principal', () => {
+      const schedule = amortizationService.generateSchedule({
+        principal: 12000,
+        annualInterestRate: 0.12,
+        durationDays: 360,
+        startDate,
+      });
+
+      expect(schedule.termMonths).toBe(12);
+      expect(schedule.installments).toHaveLength(12);
+      expect(schedule.installments[0].payment).toBe(1066.19);
+      expect(schedule.installments[0].interest).toBe(120);
+      expect(schedule.installments[11].remainingBalance).toBe(0);
+
+      const repaid = schedule.installments.reduce(
+        (sum, installment) => sum + installment.principal,
+        0
+      );
+      expect(repaid).toBeCloseTo(12000, 2);
+    });
+
+    it('should split principal evenly when the rate is zero', () => {
+      const schedule = amortizationService.generateSchedule({
+        principal: 900,
+        annualInterestRate: 0,
+        durationDays: 90,
+        startDate,
+      });
+
+      expect(schedule.totalInterest).toBe(0);
+      schedule.installments.forEach((installment) => {
+        expect(installment.payment).toBe(300);
+      });
+    });
+  });
+
+  describe('interest only then balloon', () => {
+    it('should defer all principal to the final installment', () => {
+      const schedule = amortizationService.generateSchedule({
+        principal: 10000,
+        annualInterestRate: 0.06,
+        durationDays: 90,
+        repaymentType: RepaymentType.INTEREST_ONLY_BALLOON,
+        startDate,
+      });
+
+      expect(schedule.installments.map((i) => i.principal)).toEqual([
+        0, 0, 10000,
+      ]);
+      expect(schedule.installments.map((i) => i.interest)).toEqual([
+        50, 50, 50,
+      ]);
+      expect(schedule.totalPayment).toBe(10150);
+    });
+  });
+
+  describe('straight line', () => {
+    it('should repay equal principal with declining interest', () => {
+      const schedule = amortizationService.generateSchedule({
+        principal: 3000,
+        annualInterestRate: 0.12,
+        durationDays: 90,
+        repaymentType: RepaymentType.STRAIGHT_LINE,
+        startDate,
+      });
+
+      expect(schedule.installments.map((i) => i.principal)).toEqual([
+        1000, 1000, 1000,
+      ]);
+      expect(schedule.installments.map((i) => i.interest)).toEqual([
+        30, 20, 10,
+      ]);
+    });
+  });
+
+  it('should compound the nominal rate monthly for the effective APR', () => {
+    expect(amortizationService.calculateEffectiveApr(0.12)).toBeCloseTo(
+      0.126825,
+      6
+    );
+    expect(amortizationService.calculateEffectiveApr(0)).toBe(0);
+  });
+
+  it('should set maturity to the last installment due date', () => {
+    const schedule = amortizationService.generateSchedule({
+      principal: 1000,
+      annualInterestRate: 0.1,
+      durationDays: 60,
+      startDate,
+    });
+
+    expect(schedule.maturityDate).toEqual(schedule.installments[1].dueDate);
+    expect(schedule.maturityDate.getUTCMonth()).toBe(2);
+  });
+
+  it('should clamp due dates to the end of shorter months', () => {
+    const schedule = amortizationService.generateSchedule({
+      principal: 1000,
+      annualInterestRate: 0.1,
+      durationDays: 120,
+      startDate: new Date(2025, 0, 31),
+    });
+
+    expect(schedule.installments.map((i) => i.dueDate)).toEqual([
+      new Date(2025, 1, 28),
+      new Date(2025, 2, 31),
+      new Date(2025, 3, 30),
+      new Date(2025, 4, 31),
+    ]);
+  });
+
+  it('should count an installment as paid only once it is fully covered', () => {
+    const schedule = amortizationService.generateSchedule({
+      principal: 1200,
+      annualInterestRate: 0,
+      durationDays: 90,
+      repaymentType: RepaymentType.STRAIGHT_LINE,
+      startDate,
+    });
+
+    const partial = amortizationService.applyPayment(schedule.installments, 1);
+    expect(partial[0].amountPaid).toBe(1);
+    expect(amortizationService.isInstallmentPaid(partial[0])).toBe(false);
+
+    const paid = amortizationService.applyPayment(partial, 550);
+    expect(paid.map((i) => i.amountPaid || 0)).toEqual([400, 151, 0]);
+    expect(
+      paid.filter((i) => amortizationService.isInstallmentPaid(i))
+    ).toHaveLength(1);
+  });
+});
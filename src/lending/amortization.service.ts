@@ -0,0 +1,245 @@
+import { Injectable } from '@nestjs/common';
+import { RepaymentType } from '../entities/loan-application.entity';
+
+export interface ScheduledInstallment {
+  installmentNumber: number;
+  dueDate: Date;
+  payment: number;
+  principal: number;
+  interest: number;
+  remainingBalance: number;
+  amountPaid?: number; // paid towards this installment so far
+}
+
+export interface PaymentSchedule {
+  repaymentType: RepaymentType;
+  principal: number;
+  annualInterestRate: number;
+  termMonths: number;
+  totalInterest: number;
+  totalPayment: number;
+  maturityDate: Date;
+  installments: ScheduledInstallment[];
+}
+
+export interface ScheduleParams {
+  principal: number;
+  annualInterestRate: number;
+  durationDays: number;
+  repaymentType?: RepaymentType;
+  startDate?: Date;
+}
+
+@Injectable()
+export class AmortizationService {
+  private readonly DAYS_PER_PERIOD = 30;
+
+  /**
+   * Generate a monthly repayment schedule for a loan
+   */
+  generateSchedule(params: ScheduleParams): PaymentSchedule {
+    const principal = this.roundCurrency(Number(params.principal));
+    const annualInterestRate = Number(params.annualInterestRate);
+    const repaymentType =
+      params.repaymentType || RepaymentType.EQUAL_INSTALLMENT;
+    const startDate = params.startDate || new Date();
+    const termMonths = this.getTermMonths(params.durationDays);
+
+    if (principal <= 0) {
+      throw new Error('Principal must be positive');
+    }
+
+    if (annualInterestRate < 0) {
+      throw new Error('Interest rate cannot be negative');
+    }
+
+    const monthlyRate = annualInterestRate / 12;
+    const level = this.calculateLevelPayment(
+      principal,
+      monthlyRate,
+      termMonths
+    );
+    const installments: ScheduledInstallment[] = [];
+    let balance = principal;
+
+    for (let period = 1; period <= termMonths; period++) {
+      const isFinal = period === termMonths;
+      const interest = this.roundCurrency(balance * monthlyRate);
+      let principalPortion: number;
+
+      switch (repaymentType) {
+        case RepaymentType.INTEREST_ONLY_BALLOON:
+          principalPortion = isFinal ? balance : 0;
+          break;
+        case RepaymentType.STRAIGHT_LINE:
+          principalPortion = isFinal
+            ? balance
+            : this.roundCurrency(principal / termMonths);
+          break;
+        case RepaymentType.EQUAL_INSTALLMENT:
+        default:
+          principalPortion = isFinal
+            ? balance
+            : this.roundCurrency(level - interest);
+          break;
+      }
+
+      balance = this.roundCurrency(balance - principalPortion);
+
+      installments.push({
+        installmentNumber: period,
+        dueDate: this.addMonths(startDate, period),
+        payment: this.roundCurrency(principalPortion + interest),
+        principal: principalPortion,
+        interest,
+        remainingBalance: balance,
+      });
+    }
+
+    const totalInterest = this.roundCurrency(
+      installments.reduce((sum, installment) => sum + installment.interest, 0)
+    );
+
+    return {
+      repaymentType,
+      principal,
+      annualInterestRate,
+      termMonths,
+      totalInterest,
+      totalPayment: this.roundCurrency(principal + totalInterest),
+      maturityDate: installments[installments.length - 1].dueDate,
+      installments,
+    };
+  }
+
+  /**
+   * Credit a payment to the installments in due order. Each installment
+   * takes at most its scheduled payment and the rest carries to the next.
+   */
+  applyPayment(
+    installments: ScheduledInstallment[],
+    amount: number
+  ): ScheduledInstallment[] {
+    let remaining = this.roundCurrency(amount);
+
+    return installments.map((installment) => {
+      const amountPaid = Number(installment.amountPaid || 0);
+      const credit = Math.min(
+        remaining,
+        this.roundCurrency(Number(installment.payment) - amountPaid)
+      );
+      if (credit <= 0) {
+        return installment;
+      }
+
+      remaining = this.roundCurrency(remaining - credit);
+      return {
+        ...installment,
+        amountPaid: this.roundCurrency(amountPaid + credit),
+      };
+    });
+  }
+
+  /**
+   * An installment is paid once its full scheduled payment is covered
+   */
+  isInstallmentPaid(installment: ScheduledInstallment): boolean {
+    return Number(installment.amountPaid || 0) >= Number(installment.payment);
+  }
+
+  /**
+   * Interest still owed on an installment. Payments towards an installment
+   * cover its interest before its principal.
+   */
+  getUnpaidInterest(installment: ScheduledInstallment): number {
+    return Math.max(
+      0,
+      this.roundCurrency(
+        Number(installment.interest) - Number(installment.amountPaid || 0)
+      )
+    );
+  }
+
+  /**
+   * Interest accrued on a balance over one monthly period
+   */
+  calculatePeriodInterest(balance: number, annualInterestRate: number): number {
+    return this.roundCurrency(
+      (Number(balance) * Number(annualInterestRate)) / 12
+    );
+  }
+
+  /**
+   * Effective annual rate of a nominal rate compounded monthly
+   */
+  calculateEffectiveApr(annualInterestRate: number): number {
+    const monthlyRate = Number(annualInterestRate) / 12;
+    return Math.round((Math.pow(1 + monthlyRate, 12) - 1) * 1e6) / 1e6;
+  }
+
+  /**
+   * Interest accrued on a balance between two dates (30/360 day count)
+   */
+  calculateAccruedInterest(
+    balance: number,
+    annualInterestRate: number,
+    from: Date,
+    to: Date
+  ): number {
+    const days = Math.max(
+      0,
+      (new Date(to).getTime() - new Date(from).getTime()) /
+        (24 * 60 * 60 * 1000)
+    );
+
+    return this.roundCurrency(
+      (Number(balance) * Number(annualInterestRate) * days) / 360
+    );
+  }
+
+  /**
+   * Number of monthly installments for a loan duration in days
+   */
+  getTermMonths(durationDays: number): number {
+    return Math.max(1, Math.ceil(durationDays / this.DAYS_PER_PERIOD));
+  }
+
+  /**
+   * Level payment for an equal-installment (annuity) loan
+   */
+  private calculateLevelPayment(
+    principal: number,
+    monthlyRate: number,
+    periods: number
+  ): number {
+    if (monthlyRate === 0) {
+      return principal / periods;
+    }
+
+    return (
+      (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -periods))
+    );
+  }
+
+  /**
+   * Same day of the month, clamped to the last day of shorter months
+   * (Jan 31 falls due on Feb 28, then Mar 31)
+   */
+  private addMonths(date: Date, months: number): Date {
+    const result = new Date(date);
+    const day = result.getDate();
+    result.setDate(1);
+    result.setMonth(result.getMonth() + months);
+    const lastDay = new Date(
+      result.getFullYear(),
+      result.getMonth() + 1,
+      0
+    ).getDate();
+    result.setDate(Math.min(day, lastDay));
+    return result;
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
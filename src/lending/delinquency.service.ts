@@ -0,0 +1,286 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, LessThan, Repository } from 'typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ActiveLoan, ActiveLoanStatus } from '../entities/active-loan.entity';
+import {
+  LoanPayment,
+  PaymentStatus,
+  PaymentType,
+} from '../entities/loan-payment.entity';
+import { GovernanceService } from '../governance/governance.service';
+import { MonitoringService } from '../monitoring/monitoring.service';
+import { AmortizationService } from './amortization.service';
+
+export interface DelinquencyState {
+  missedPayments: number;
+  chargedInstallments: number[];
+  outstandingLateFees: number;
+  lastAssessedAt?: Date;
+}
+
+export interface OverdueInstallment {
+  installmentNumber: number;
+  dueDate: Date;
+  payment: number;
+  amountPaid: number;
+}
+
+export interface DelinquencyCheck {
+  loanId: string;
+  missedPayments: number;
+  lateFeesApplied: number;
+  outstandingLateFees: number;
+  defaulted: boolean;
+}
+
+@Injectable()
+export class DelinquencyService {
+  private readonly logger = new Logger(DelinquencyService.name);
+
+  constructor(
+    @InjectRepository(ActiveLoan)
+    private activeLoanRepository: Repository<ActiveLoan>,
+    private readonly dataSource: DataSource,
+    private readonly amortizationService: AmortizationService,
+    private readonly governanceService: GovernanceService,
+    private readonly monitoringService: MonitoringService
+  ) {}
+
+  /**
+   * Scheduled delinquency check - runs every hour. It keeps running during
+   * an emergency pause because the pause never blocks repayments.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async performDelinquencyChecks(): Promise<void> {
+    this.logger.log('Starting scheduled delinquency checks...');
+
+    try {
+      const { gracePeriodDays } = this.governanceService.getCurrentParameters();
+      const cutoff = new Date(
+        Date.now() - gracePeriodDays * 24 * 60 * 60 * 1000
+      );
+
+      const overdueLoans = await this.activeLoanRepository.find({
+        where: {
+          status: ActiveLoanStatus.ACTIVE,
+          nextPaymentDate: LessThan(cutoff),
+        },
+      });
+
+      for (const loan of overdueLoans) {
+        await this.checkLoanDelinquency(loan.id);
+      }
+
+      this.logger.log(
+        `Delinquency checks completed for ${overdueLoans.length} overdue loans`
+      );
+    } catch (error) {
+      this.logger.error('Error during delinquency checks', error);
+      await this.monitoringService.recordError(error, 'delinquency_checks');
+    }
+  }
+
+  /**
+   * Apply late fees for newly missed installments and default the loan
+   * once the missed-installment limit is reached
+   */
+  async checkLoanDelinquency(
+    loanId: string,
+    asOf: Date = new Date()
+  ): Promise<DelinquencyCheck | null> {
+    try {
+      const { gracePeriodDays, lateFeeRate, maxMissedPayments } =
+        this.governanceService.getCurrentParameters();
+
+      const check = await this.dataSource.transaction(async (manager) => {
+        const loan = await manager.findOne(ActiveLoan, {
+          where: { id: loanId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!loan || loan.status !== ActiveLoanStatus.ACTIVE) {
+          return null;
+        }
+
+        const overdue = this.getOverdueInstallments(
+          loan,
+          asOf,
+          gracePeriodDays
+        );
+        const state = this.getDelinquencyState(loan);
+        let lateFeesApplied = 0;
+
+        for (const installment of overdue) {
+          if (
+            state.chargedInstallments.includes(installment.installmentNumber)
+          ) {
+            continue;
+          }
+
+          // Late fees apply to the part of the installment left unpaid
+          const lateFee = this.roundCurrency(
+            (installment.payment - installment.amountPaid) * lateFeeRate
+          );
+          await manager.save(
+            manager.create(LoanPayment, {
+              activeLoanId: loan.id,
+              amount: lateFee,
+              lateFee,
+              paymentType: PaymentType.LATE_FEE,
+              status: PaymentStatus.PENDING,
+              paymentDate: asOf,
+              metadata: {
+                installmentNumber: installment.installmentNumber,
+                dueDate: installment.dueDate,
+              },
+            })
+          );
+
+          state.chargedInstallments.push(installment.installmentNumber);
+          state.outstandingLateFees = this.roundCurrency(
+            state.outstandingLateFees + lateFee
+          );
+          lateFeesApplied = this.roundCurrency(lateFeesApplied + lateFee);
+        }
+
+        state.missedPayments = overdue.length;
+        state.lastAssessedAt = asOf;
+        loan.metadata = { ...(loan.metadata || {}), delinquency: state };
+
+        const defaulted = state.missedPayments >= maxMissedPayments;
+        if (defaulted) {
+          loan.status = ActiveLoanStatus.DEFAULTED;
+        }
+
+        await manager.save(loan);
+
+        return {
+          loanId: loan.id,
+          missedPayments: state.missedPayments,
+          lateFeesApplied,
+          outstandingLateFees: state.outstandingLateFees,
+          defaulted,
+        };
+      });
+
+      if (!check) {
+        return null;
+      }
+
+      if (check.lateFeesApplied > 0) {
+        this.logger.warn(
+          `Loan ${loanId} is delinquent. Missed payments: ${check.missedPayments}`
+        );
+        await this.monitoringService.trackLoanEvent(
+          loanId,
+          'late_fee_applied',
+          check
+        );
+      }
+
+      if (check.defaulted) {
+        this.logger.warn(`Loan ${loanId} defaulted`);
+        await this.monitoringService.trackLoanEvent(
+          loanId,
+          'loan_defaulted',
+          check
+        );
+      }
+
+      return check;
+    } catch (error) {
+      this.logger.error(`Error checking loan ${loanId} for delinquency`, error);
+      await this.monitoringService.recordError(error, 'delinquency_check', {
+        loanId,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Unpaid installments whose grace period has elapsed
+   */
+  getOverdueInstallments(
+    loan: ActiveLoan,
+    asOf: Date,
+    gracePeriodDays: number
+  ): OverdueInstallment[] {
+    const graceMs = gracePeriodDays * 24 * 60 * 60 * 1000;
+    const isPastGrace = (dueDate: Date) =>
+      new Date(dueDate).getTime() + graceMs < asOf.getTime();
+
+    const installments = loan.paymentSchedule?.installments;
+    if (installments) {
+      return installments
+        .filter(
+          (installment) =>
+            !this.amortizationService.isInstallmentPaid(installment) &&
+            isPastGrace(installment.dueDate)
+        )
+        .map((installment) => ({
+          installmentNumber: installment.installmentNumber,
+          dueDate: new Date(installment.dueDate),
+          payment: Number(installment.payment),
+          amountPaid: Number(installment.amountPaid || 0),
+        }));
+    }
+
+    // Loans without a stored schedule are treated as monthly installments
+    // starting from the next payment date
+    const remainingPayments = Math.max(
+      1,
+      loan.totalPayments - loan.completedPayments
+    );
+    const payment = this.getUnscheduledInstallmentPayment(loan);
+    const overdue: OverdueInstallment[] = [];
+    const dueDate = new Date(loan.nextPaymentDate);
+
+    for (let i = 0; i < remainingPayments && isPastGrace(dueDate); i++) {
+      overdue.push({
+        installmentNumber: loan.completedPayments + i + 1,
+        dueDate: new Date(dueDate),
+        payment,
+        amountPaid: i === 0 ? Number(loan.metadata?.installmentPaid || 0) : 0,
+      });
+      dueDate.setMonth(dueDate.getMonth() + 1);
+    }
+
+    return overdue;
+  }
+
+  /**
+   * Payment due each month on a loan without a stored schedule: an equal
+   * share of the remaining principal plus the period's interest
+   */
+  getUnscheduledInstallmentPayment(loan: ActiveLoan): number {
+    const remainingPayments = Math.max(
+      1,
+      loan.totalPayments - loan.completedPayments
+    );
+
+    return this.roundCurrency(
+      Number(loan.remainingAmount) / remainingPayments +
+        this.amortizationService.calculatePeriodInterest(
+          loan.remainingAmount,
+          loan.interestRate
+        )
+    );
+  }
+
+  /**
+   * Delinquency bookkeeping stored on the loan metadata
+   */
+  getDelinquencyState(loan: ActiveLoan): DelinquencyState {
+    const state = loan.metadata?.delinquency;
+    return {
+      missedPayments: state?.missedPayments || 0,
+      chargedInstallments: [...(state?.chargedInstallments || [])],
+      outstandingLateFees: Number(state?.outstandingLateFees || 0),
+      lastAssessedAt: state?.lastAssessedAt,
+    };
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,214 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import {
+  LendingPoolService,
+  PoolBorrowHealth,
+  PoolLiquidation,
+  PoolPositionSummary,
+  PoolRates,
+  PoolSummary,
+} from './lending-pool.service';
+import { LendingPool } from '../entities/lending-pool.entity';
+import { UserRole } from '../entities/user.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { WhenNotPaused } from '../governance/decorators/when-not-paused.decorator';
+
+export class CreateLendingPoolDto {
+  name: string;
+  asset: string;
+  optimalUtilization?: number;
+  reserveFactor?: number;
+}
+
+export class PoolDepositDto {
+  amount: number;
+}
+
+export class PoolWithdrawDto {
+  shares: number;
+}
+
+export class PoolBorrowDto {
+  amount: number;
+  collateralTokenId: string;
+  collateralAmount?: number; // additional token units to lock
+}
+
+export class PoolRepayDto {
+  amount: number;
+}
+
+export class PoolLiquidateDto {
+  borrowerId: string;
+  amount: number;
+}
+
+@ApiTags('lending-pools')
+@Controller('lending/pools')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class LendingPoolController {
+  constructor(private readonly lendingPoolService: LendingPoolService) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create a lending pool for an asset' })
+  @ApiBody({ type: CreateLendingPoolDto })
+  @ApiResponse({ status: 201, description: 'Lending pool created' })
+  async createPool(
+    @Body() poolData: CreateLendingPoolDto
+  ): Promise<LendingPool> {
+    return this.lendingPoolService.createPool(poolData);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List lending pools with utilization and APY' })
+  @ApiResponse({ status: 200, description: 'Lending pools retrieved' })
+  async getPools(): Promise<PoolSummary[]> {
+    return this.lendingPoolService.getPools();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a lending pool with utilization and APY' })
+  @ApiResponse({ status: 200, description: 'Lending pool retrieved' })
+  async getPool(@Param('id') poolId: string): Promise<PoolSummary> {
+    return this.lendingPoolService.getPool(poolId);
+  }
+
+  @Get(':id/rates')
+  @ApiOperation({ summary: 'Get current borrow and supply rates of a pool' })
+  @ApiResponse({ status: 200, description: 'Pool rates retrieved' })
+  async getPoolRates(@Param('id') poolId: string): Promise<PoolRates> {
+    return this.lendingPoolService.getPoolRates(poolId);
+  }
+
+  @Get(':id/positions/mine')
+  @ApiOperation({
+    summary: "Get the current user's deposit and debt in a pool",
+  })
+  @ApiResponse({ status: 200, description: 'Pool position retrieved' })
+  async getUserPosition(
+    @Request() req,
+    @Param('id') poolId: string
+  ): Promise<PoolPositionSummary> {
+    return this.lendingPoolService.getUserPosition(poolId, req.user.id);
+  }
+
+  @Post(':id/deposit')
+  @Roles(UserRole.LENDER)
+  @ApiOperation({ summary: 'Deposit liquidity into a pool for shares' })
+  @ApiBody({ type: PoolDepositDto })
+  @ApiResponse({ status: 201, description: 'Deposit processed' })
+  async deposit(
+    @Request() req,
+    @Param('id') poolId: string,
+    @Body() depositData: PoolDepositDto
+  ): Promise<PoolPositionSummary> {
+    return this.lendingPoolService.deposit(
+      poolId,
+      req.user.id,
+      depositData.amount
+    );
+  }
+
+  @Post(':id/withdraw')
+  @WhenNotPaused()
+  @Roles(UserRole.LENDER)
+  @ApiOperation({ summary: 'Redeem pool shares for the underlying asset' })
+  @ApiBody({ type: PoolWithdrawDto })
+  @ApiResponse({ status: 201, description: 'Withdrawal processed' })
+  async withdraw(
+    @Request() req,
+    @Param('id') poolId: string,
+    @Body() withdrawData: PoolWithdrawDto
+  ): Promise<PoolPositionSummary & { withdrawnAmount: number }> {
+    return this.lendingPoolService.withdraw(
+      poolId,
+      req.user.id,
+      withdrawData.shares
+    );
+  }
+
+  @Post(':id/borrow')
+  @WhenNotPaused()
+  @Roles(UserRole.BORROWER)
+  @ApiOperation({
+    summary: 'Borrow from a pool against collateral tokens locked in escrow',
+  })
+  @ApiBody({ type: PoolBorrowDto })
+  @ApiResponse({ status: 201, description: 'Borrow processed' })
+  async borrow(
+    @Request() req,
+    @Param('id') poolId: string,
+    @Body() borrowData: PoolBorrowDto
+  ): Promise<PoolPositionSummary> {
+    return this.lendingPoolService.borrow(
+      poolId,
+      req.user.id,
+      borrowData.amount,
+      borrowData.collateralTokenId,
+      borrowData.collateralAmount
+    );
+  }
+
+  @Post(':id/repay')
+  @Roles(UserRole.BORROWER)
+  @ApiOperation({ summary: 'Repay outstanding pool debt' })
+  @ApiBody({ type: PoolRepayDto })
+  @ApiResponse({ status: 201, description: 'Repayment processed' })
+  async repay(
+    @Request() req,
+    @Param('id') poolId: string,
+    @Body() repayData: PoolRepayDto
+  ): Promise<PoolPositionSummary & { repaidAmount: number }> {
+    return this.lendingPoolService.repay(poolId, req.user.id, repayData.amount);
+  }
+
+  @Get(':id/liquidatable')
+  @Roles(UserRole.LIQUIDATOR, UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get pool borrows below the liquidation threshold',
+  })
+  @ApiResponse({ status: 200, description: 'Liquidatable borrows retrieved' })
+  async getLiquidatableBorrows(
+    @Param('id') poolId: string
+  ): Promise<PoolBorrowHealth[]> {
+    return this.lendingPoolService.getLiquidatableBorrows(poolId);
+  }
+
+  @Post(':id/liquidate')
+  @Roles(UserRole.LIQUIDATOR)
+  @ApiOperation({
+    summary: 'Repay an undercollateralized pool borrow for its collateral',
+  })
+  @ApiBody({ type: PoolLiquidateDto })
+  @ApiResponse({ status: 201, description: 'Pool borrow liquidated' })
+  async liquidate(
+    @Request() req,
+    @Param('id') poolId: string,
+    @Body() liquidateData: PoolLiquidateDto
+  ): Promise<PoolLiquidation> {
+    return this.lendingPoolService.liquidate(
+      poolId,
+      liquidateData.borrowerId,
+      req.user.id,
+      liquidateData.amount
+    );
+  }
+}
@@ -0,0 +1,245 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { LendingPoolService } from './lending-pool.service';
+import { ProtocolConfigService } from '../governance/protocol-config.service';
+import { MonitoringService } from '../monitoring/monitoring.service';
+import { CollateralService } from '../collateral/collateral.service';
+import { PriceOracleService } from '../oracle/price-oracle.service';
+import {
+  LendingPool,
+  LendingPoolStatus,
+} from '../entities/lending-pool.entity';
+import { PoolPosition } from '../entities/pool-position.entity';
+import { PoolBorrow } from '../entities/pool-borrow.entity';
+import { Token } from '../entities/token.entity';
+
+describe('LendingPoolService', () => {
+  let pool: any;
+  let positions: any[];
+  let borrows: any[];
+  let collateralPrice: number;
+  let balances: Record<string, number>;
+  let collateralService: any;
+  let lendingPoolService: LendingPoolService;
+
+  beforeEach(async () => {
+    pool = {
+      id: 'pool-1',
+      asset: 'USDC',
+      status: LendingPoolStatus.ACTIVE,
+      cash: 0,
+      totalBorrowed: 0,
+      totalReserves: 0,
+      totalShares: 0,
+      borrowIndex: 1,
+      optimalUtilization: 0.8,
+      reserveFactor: 0.1,
+      lastAccruedAt: new Date(),
+    };
+    positions = [];
+    borrows = [];
+    collateralPrice = 100;
+    balances = { 'lender-a': 2000, 'lender-b': 1000, liquidator: 500 };
+
+    const manager = {
+      findOne: jest.fn(async (entity, { where }) => {
+        if (entity === LendingPool) {
+          return pool;
+        }
+        if (entity === Token) {
+          return where.symbol
+            ? { id: 'usdc', symbol: where.symbol }
+            : { id: where.id, symbol: 'SOL' };
+        }
+        const records = entity === PoolPosition ? positions : borrows;
+        return (
+          records.find(
+            (record) =>
+              record.poolId === where.poolId &&
+              (record.userId || record.borrowerId) ===
+                (where.userId || where.borrowerId)
+          ) || null
+        );
+      }),
+      create: jest.fn((_entity, data) => ({ ...data })),
+      save: jest.fn(async (entity) => {
+        const records =
+          'shares' in entity
+            ? positions
+            : 'scaledDebt' in entity
+              ? borrows
+              : [];
+        if (entity !== pool && !records.includes(entity)) {
+          records.push(entity);
+        }
+        return entity;
+      }),
+    };
+    collateralService = {
+      assertTokensActive: jest.fn(),
+      lockTokens: jest.fn(),
+      unlockTokens: jest.fn(),
+      payOutLockedTokens: jest.fn(),
+      debitTokens: jest.fn(async (_manager, userId, tokenId, amount) => {
+        expect(tokenId).toBe('usdc');
+        if ((balances[userId] || 0) < amount) {
+          throw new Error('Insufficient available token balance');
+        }
+        balances[userId] -= amount;
+      }),
+      creditTokens: jest.fn(async (_manager, userId, tokenId, amount) => {
+        expect(tokenId).toBe('usdc');
+        balances[userId] = (balances[userId] || 0) + amount;
+      }),
+    };
+    const protocolConfigService = {
+      getParameters: () => ({
+        baseInterestRate: 0.08,
+        maxInterestRate: 0.25,
+        interestRateStep: 0.01,
+        minCollateralRatio: 1.5,
+        liquidationThreshold: 1.2,
+        liquidationPenalty: 0.05,
+      }),
+    };
+    const priceOracleService = {
+      getPriceBySymbol: jest.fn(async () => ({ priceUSD: 1 })),
+      getPriceByTokenId: jest.fn(async () => ({ priceUSD: collateralPrice })),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        LendingPoolService,
+        {
+          provide: getRepositoryToken(LendingPool),
+          useValue: { findOne: jest.fn(async () => pool) },
+        },
+        { provide: getRepositoryToken(PoolPosition), useValue: {} },
+        { provide: getRepositoryToken(PoolBorrow), useValue: {} },
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn((work) => work(manager)) },
+        },
+        { provide: ProtocolConfigService, useValue: protocolConfigService },
+        {
+          provide: MonitoringService,
+          useValue: { trackLoanEvent: jest.fn() },
+        },
+        { provide: CollateralService, useValue: collateralService },
+        { provide: PriceOracleService, useValue: priceOracleService },
+      ],
+    }).compile();
+
+    lendingPoolService = module.get(LendingPoolService);
+  });
+
+  it('should raise the borrow rate by step to the kink and steeply after it', () => {
+    expect(lendingPoolService.calculateBorrowRate(0, 0.8)).toBeCloseTo(0.08);
+    expect(lendingPoolService.calculateBorrowRate(0.5, 0.8)).toBeCloseTo(0.13);
+    expect(lendingPoolService.calculateBorrowRate(0.8, 0.8)).toBeCloseTo(0.16);
+    expect(lendingPoolService.calculateBorrowRate(0.9, 0.8)).toBeCloseTo(0.205);
+    expect(lendingPoolService.calculateBorrowRate(1, 0.8)).toBeCloseTo(0.25);
+  });
+
+  it('should price shares from accrued interest across deposits, borrows and withdrawals', async () => {
+    const first = await lendingPoolService.deposit('pool-1', 'lender-a', 1000);
+    expect(first.shares).toBe(1000);
+
+    await lendingPoolService.borrow('pool-1', 'borrower', 500, 'sol', 8);
+    expect(collateralService.lockTokens).toHaveBeenCalledWith(
+      expect.anything(),
+      'borrower',
+      'sol',
+      8
+    );
+
+    // A year at 50% utilization accrues 13% on the borrowed 500, less the
+    // 10% reserve cut
+    pool.lastAccruedAt = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
+    const second = await lendingPoolService.deposit('pool-1', 'lender-b', 1000);
+    expect(Number(pool.totalBorrowed)).toBeCloseTo(565, 2);
+    expect(Number(pool.totalReserves)).toBeCloseTo(6.5, 2);
+    expect(second.shares).toBeCloseTo(1000 / 1.0585, 4);
+
+    const withdrawal = await lendingPoolService.withdraw(
+      'pool-1',
+      'lender-a',
+      500
+    );
+    expect(withdrawal.withdrawnAmount).toBeCloseTo(529.25, 2);
+    expect(withdrawal.shares).toBe(500);
+    expect(Number(pool.cash)).toBeCloseTo(970.75, 2);
+  });
+
+  it('should move the pool asset between user balances and the pool', async () => {
+    await lendingPoolService.deposit('pool-1', 'lender-a', 1000);
+    expect(balances['lender-a']).toBe(1000);
+
+    await lendingPoolService.borrow('pool-1', 'borrower', 400, 'sol', 8);
+    expect(balances.borrower).toBe(400);
+
+    await lendingPoolService.repay('pool-1', 'borrower', 150);
+    expect(balances.borrower).toBe(250);
+    expect(collateralService.unlockTokens).not.toHaveBeenCalled();
+
+    await lendingPoolService.withdraw('pool-1', 'lender-a', 500);
+    expect(balances['lender-a']).toBeCloseTo(1500, 4);
+    expect(Number(pool.cash)).toBeCloseTo(250, 4);
+  });
+
+  it('should not take a deposit or repayment the balance does not cover', async () => {
+    await expect(
+      lendingPoolService.deposit('pool-1', 'lender-b', 1500)
+    ).rejects.toThrow('Pool deposit failed');
+    expect(pool.cash).toBe(0);
+    expect(positions).toHaveLength(0);
+
+    await lendingPoolService.deposit('pool-1', 'lender-a', 1000);
+    await lendingPoolService.borrow('pool-1', 'borrower', 400, 'sol', 8);
+    balances.borrower = 100;
+
+    await expect(
+      lendingPoolService.repay('pool-1', 'borrower', 400)
+    ).rejects.toThrow('Pool repayment failed');
+    expect(collateralService.unlockTokens).not.toHaveBeenCalled();
+    expect(borrows[0].collateralAmount).toBe(8);
+  });
+
+  it('should reject a borrow the escrowed collateral does not cover', async () => {
+    await lendingPoolService.deposit('pool-1', 'lender-a', 1000);
+
+    await expect(
+      lendingPoolService.borrow('pool-1', 'borrower', 500, 'sol', 7)
+    ).rejects.toThrow('Pool borrow failed');
+    expect(pool.cash).toBe(1000);
+  });
+
+  it('should pay a liquidator collateral worth the repaid debt plus penalty', async () => {
+    await lendingPoolService.deposit('pool-1', 'lender-a', 1000);
+    await lendingPoolService.borrow('pool-1', 'borrower', 500, 'sol', 8);
+    collateralPrice = 70;
+
+    const liquidation = await lendingPoolService.liquidate(
+      'pool-1',
+      'borrower',
+      'liquidator',
+      200
+    );
+
+    expect(liquidation).toMatchObject({
+      repaidAmount: 200,
+      seizedCollateral: 3,
+      badDebt: 0,
+    });
+    expect(liquidation.remainingDebt).toBeCloseTo(300, 4);
+    expect(collateralService.payOutLockedTokens).toHaveBeenCalledWith(
+      expect.anything(),
+      'borrower',
+      'sol',
+      [{ recipientId: 'liquidator', amount: 3 }]
+    );
+    expect(borrows[0].collateralAmount).toBe(5);
+    expect(balances.liquidator).toBe(300);
+  });
+});
@@ -0,0 +1,1015 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  DataSource,
+  EntityManager,
+  MoreThan,
+  Not,
+  IsNull,
+  Repository,
+} from 'typeorm';
+import {
+  LendingPool,
+  LendingPoolStatus,
+} from '../entities/lending-pool.entity';
+import { PoolPosition } from '../entities/pool-position.entity';
+import { PoolBorrow } from '../entities/pool-borrow.entity';
+import { Token } from '../entities/token.entity';
+import { ProtocolConfigService } from '../governance/protocol-config.service';
+import { MonitoringService } from '../monitoring/monitoring.service';
+import { CollateralService } from '../collateral/collateral.service';
+import { PriceOracleService } from '../oracle/price-oracle.service';
+
+export interface PoolRates {
+  poolId: string;
+  utilization: number;
+  borrowRate: number;
+  supplyRate: number;
+  borrowApy: number;
+  supplyApy: number;
+}
+
+export interface PoolSummary {
+  pool: LendingPool;
+  totalAssets: number;
+  sharePrice: number;
+  rates: PoolRates;
+}
+
+export interface PoolPositionSummary {
+  poolId: string;
+  userId: string;
+  shares: number;
+  value: number;
+  debt?: number;
+}
+
+export interface PoolBorrowHealth {
+  poolId: string;
+  borrowerId: string;
+  debt: number;
+  debtValue: number;
+  assetPrice: number;
+  collateralTokenId: string;
+  collateralAmount: number;
+  collateralPrice: number;
+  collateralValue: number;
+  collateralRatio: number | null;
+}
+
+export interface PoolLiquidation {
+  poolId: string;
+  borrowerId: string;
+  liquidatorId: string;
+  repaidAmount: number;
+  collateralTokenId: string;
+  seizedCollateral: number;
+  remainingDebt: number;
+  badDebt: number; // debt written off once the collateral ran out
+}
+
+export interface CreatePoolParams {
+  name: string;
+  asset: string;
+  optimalUtilization?: number;
+  reserveFactor?: number;
+}
+
+@Injectable()
+export class LendingPoolService {
+  private readonly logger = new Logger(LendingPoolService.name);
+  private readonly SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+  private readonly UTILIZATION_STEP = 0.1; // rate rises by interestRateStep per 10% utilization
+
+  constructor(
+    @InjectRepository(LendingPool)
+    private lendingPoolRepository: Repository<LendingPool>,
+    @InjectRepository(PoolPosition)
+    private poolPositionRepository: Repository<PoolPosition>,
+    @InjectRepository(PoolBorrow)
+    private poolBorrowRepository: Repository<PoolBorrow>,
+    private readonly dataSource: DataSource,
+    private readonly protocolConfigService: ProtocolConfigService,
+    private readonly monitoringService: MonitoringService,
+    private readonly collateralService: CollateralService,
+    private readonly priceOracleService: PriceOracleService
+  ) {}
+
+  /**
+   * Create a new lending pool for an asset
+   */
+  async createPool(params: CreatePoolParams): Promise<LendingPool> {
+    try {
+      const optimalUtilization = params.optimalUtilization ?? 0.8;
+      const reserveFactor = params.reserveFactor ?? 0.1;
+
+      if (optimalUtilization <= 0 || optimalUtilization >= 1) {
+        throw new Error('Optimal utilization must be between 0 and 1');
+      }
+
+      if (reserveFactor < 0 || reserveFactor >= 1) {
+        throw new Error('Reserve factor must be between 0 and 1');
+      }
+
+      const pool = this.lendingPoolRepository.create({
+        name: params.name,
+        asset: params.asset,
+        optimalUtilization,
+        reserveFactor,
+        status: LendingPoolStatus.ACTIVE,
+        lastAccruedAt: new Date(),
+      });
+
+      const savedPool = await this.lendingPoolRepository.save(pool);
+
+      this.logger.log(
+        `Lending pool created: ${savedPool.id} (${params.asset})`
+      );
+
+      return savedPool;
+    } catch (error) {
+      this.logger.error('Failed to create lending pool', error);
+      throw new Error('Lending pool creation failed');
+    }
+  }
+
+  /**
+   * Deposit liquidity from the lender's balance of the pool asset into a
+   * pool in exchange for pool shares
+   */
+  async deposit(
+    poolId: string,
+    userId: string,
+    amount: number
+  ): Promise<PoolPositionSummary> {
+    try {
+      if (!(amount > 0)) {
+        throw new Error('Deposit amount must be positive');
+      }
+
+      const summary = await this.dataSource.transaction(async (manager) => {
+        const pool = await this.lockPool(manager, poolId);
+        if (pool.status !== LendingPoolStatus.ACTIVE) {
+          throw new Error('Pool is not accepting deposits');
+        }
+
+        this.accrueInterest(pool);
+
+        await this.collateralService.debitTokens(
+          manager,
+          userId,
+          await this.getAssetTokenId(manager, pool),
+          amount
+        );
+
+        const totalAssets = this.getTotalAssets(pool);
+        const totalShares = Number(pool.totalShares);
+        const shares =
+          totalShares > 0 && totalAssets > 0
+            ? this.roundAmount((amount * totalShares) / totalAssets)
+            : this.roundAmount(amount);
+
+        const position = await this.getOrCreatePosition(
+          manager,
+          poolId,
+          userId
+        );
+        position.shares = this.roundAmount(Number(position.shares) + shares);
+        position.totalDeposited = this.roundAmount(
+          Number(position.totalDeposited) + amount
+        );
+
+        pool.cash = this.roundAmount(Number(pool.cash) + amount);
+        pool.totalShares = this.roundAmount(totalShares + shares);
+
+        await manager.save(pool);
+        await manager.save(position);
+
+        return this.summarizePosition(pool, position);
+      });
+
+      this.logger.log(`Deposit of ${amount} into pool ${poolId} by ${userId}`);
+
+      await this.monitoringService.trackLoanEvent(poolId, 'pool_deposit', {
+        userId,
+        amount,
+      });
+
+      return summary;
+    } catch (error) {
+      this.logger.error('Failed to deposit into lending pool', error);
+      throw new Error('Pool deposit failed');
+    }
+  }
+
+  /**
+   * Redeem pool shares for the underlying asset, paid into the lender's
+   * balance
+   */
+  async withdraw(
+    poolId: string,
+    userId: string,
+    shares: number
+  ): Promise<PoolPositionSummary & { withdrawnAmount: number }> {
+    try {
+      if (!(shares > 0)) {
+        throw new Error('Shares to withdraw must be positive');
+      }
+
+      const result = await this.dataSource.transaction(async (manager) => {
+        const pool = await this.lockPool(manager, poolId);
+        this.accrueInterest(pool);
+
+        const position = await manager.findOne(PoolPosition, {
+          where: { poolId, userId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!position || Number(position.shares) < shares) {
+          throw new Error('Insufficient pool shares');
+        }
+
+        const withdrawnAmount = this.roundAmount(
+          shares * this.getSharePrice(pool)
+        );
+        if (withdrawnAmount > Number(pool.cash)) {
+          throw new Error('Insufficient pool liquidity');
+        }
+
+        await this.collateralService.creditTokens(
+          manager,
+          userId,
+          await this.getAssetTokenId(manager, pool),
+          withdrawnAmount
+        );
+
+        position.shares = this.roundAmount(Number(position.shares) - shares);
+        position.totalWithdrawn = this.roundAmount(
+          Number(position.totalWithdrawn) + withdrawnAmount
+        );
+
+        pool.cash = this.roundAmount(Number(pool.cash) - withdrawnAmount);
+        pool.totalShares = this.roundAmount(Number(pool.totalShares) - shares);
+
+        await manager.save(pool);
+        await manager.save(position);
+
+        return {
+          ...this.summarizePosition(pool, position),
+          withdrawnAmount,
+        };
+      });
+
+      this.logger.log(
+        `Withdrawal of ${result.withdrawnAmount} from pool ${poolId} by ${userId}`
+      );
+
+      await this.monitoringService.trackLoanEvent(poolId, 'pool_withdrawal', {
+        userId,
+        shares,
+        amount: result.withdrawnAmount,
+      });
+
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to withdraw from lending pool', error);
+      throw new Error('Pool withdrawal failed');
+    }
+  }
+
+  /**
+   * Draw liquidity from a pool into the borrower's balance against
+   * collateral tokens locked from it. Debt and collateral are valued
+   * through the price oracle; a position holds a single collateral token.
+   */
+  async borrow(
+    poolId: string,
+    borrowerId: string,
+    amount: number,
+    collateralTokenId: string,
+    collateralAmount = 0
+  ): Promise<PoolPositionSummary> {
+    try {
+      if (!(amount > 0)) {
+        throw new Error('Borrow amount must be positive');
+      }
+
+      if (!collateralTokenId) {
+        throw new Error('Collateral token is required');
+      }
+
+      if (!(collateralAmount >= 0)) {
+        throw new Error('Collateral amount cannot be negative');
+      }
+
+      const summary = await this.dataSource.transaction(async (manager) => {
+        const { minCollateralRatio } =
+          this.protocolConfigService.getParameters();
+
+        const pool = await this.lockPool(manager, poolId);
+        if (pool.status !== LendingPoolStatus.ACTIVE) {
+          throw new Error('Pool is not accepting new borrows');
+        }
+
+        this.accrueInterest(pool);
+
+        if (amount > Number(pool.cash)) {
+          throw new Error('Insufficient pool liquidity');
+        }
+
+        const borrowIndex = Number(pool.borrowIndex);
+        let position = await manager.findOne(PoolBorrow, {
+          where: { poolId, borrowerId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!position) {
+          position = manager.create(PoolBorrow, {
+            poolId,
+            borrowerId,
+            scaledDebt: 0,
+            collateralAmount: 0,
+            collateralValue: 0,
+            totalBorrowed: 0,
+            totalRepaid: 0,
+          });
+        }
+
+        if (
+          Number(position.collateralAmount) > 0 &&
+          position.collateralTokenId !== collateralTokenId
+        ) {
+          throw new Error('Pool borrow is collateralized with another token');
+        }
+
+        await this.collateralService.assertTokensActive(
+          [collateralTokenId],
+          manager
+        );
+        const collateralToken = await manager.findOne(Token, {
+          where: { id: collateralTokenId },
+        });
+        if (collateralToken.symbol === pool.asset) {
+          throw new Error('The pool asset cannot be pledged as collateral');
+        }
+
+        if (collateralAmount > 0) {
+          await this.collateralService.lockTokens(
+            manager,
+            borrowerId,
+            collateralTokenId,
+            collateralAmount
+          );
+        }
+        position.collateralTokenId = collateralTokenId;
+        position.collateralAmount = this.roundAmount(
+          Number(position.collateralAmount) + collateralAmount
+        );
+
+        const debt = Number(position.scaledDebt) * borrowIndex + amount;
+        const health = await this.valuePosition(pool, position, debt);
+        if (health.collateralValue < health.debtValue * minCollateralRatio) {
+          throw new Error('Insufficient collateral for requested amount');
+        }
+
+        await this.collateralService.creditTokens(
+          manager,
+          borrowerId,
+          await this.getAssetTokenId(manager, pool),
+          amount
+        );
+
+        position.scaledDebt =
+          Number(position.scaledDebt) + amount / borrowIndex;
+        position.collateralValue = this.roundAmount(health.collateralValue);
+        position.totalBorrowed = this.roundAmount(
+          Number(position.totalBorrowed) + amount
+        );
+
+        pool.cash = this.roundAmount(Number(pool.cash) - amount);
+        pool.totalBorrowed = this.roundAmount(
+          Number(pool.totalBorrowed) + amount
+        );
+
+        await manager.save(pool);
+        await manager.save(position);
+
+        return this.summarizePosition(pool, null, this.roundAmount(debt));
+      });
+
+      this.logger.log(
+        `Borrow of ${amount} from pool ${poolId} by ${borrowerId}`
+      );
+
+      await this.monitoringService.trackLoanEvent(poolId, 'pool_borrow', {
+        borrowerId,
+        amount,
+        collateralTokenId,
+        collateralAmount,
+      });
+
+      return { ...summary, userId: borrowerId };
+    } catch (error) {
+      this.logger.error('Failed to borrow from lending pool', error);
+      throw new Error('Pool borrow failed');
+    }
+  }
+
+  /**
+   * Repay outstanding pool debt from the borrower's balance of the pool
+   * asset; any excess over the debt is not taken. Repaying in full
+   * releases the escrowed collateral.
+   */
+  async repay(
+    poolId: string,
+    borrowerId: string,
+    amount: number
+  ): Promise<PoolPositionSummary & { repaidAmount: number }> {
+    try {
+      if (!(amount > 0)) {
+        throw new Error('Repayment amount must be positive');
+      }
+
+      const result = await this.dataSource.transaction(async (manager) => {
+        const pool = await this.lockPool(manager, poolId);
+        this.accrueInterest(pool);
+
+        const position = await manager.findOne(PoolBorrow, {
+          where: { poolId, borrowerId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!position || Number(position.scaledDebt) <= 0) {
+          throw new Error('No outstanding pool debt');
+        }
+
+        const borrowIndex = Number(pool.borrowIndex);
+        const debt = Number(position.scaledDebt) * borrowIndex;
+        const repaidAmount = this.roundAmount(Math.min(amount, debt));
+        const remainingDebt = debt - repaidAmount;
+
+        await this.collateralService.debitTokens(
+          manager,
+          borrowerId,
+          await this.getAssetTokenId(manager, pool),
+          repaidAmount
+        );
+
+        position.scaledDebt =
+          remainingDebt > 1e-8 ? remainingDebt / borrowIndex : 0;
+        position.totalRepaid = this.roundAmount(
+          Number(position.totalRepaid) + repaidAmount
+        );
+        if (position.scaledDebt === 0) {
+          await this.releasePositionCollateral(manager, position);
+        }
+
+        pool.cash = this.roundAmount(Number(pool.cash) + repaidAmount);
+        pool.totalBorrowed = this.roundAmount(
+          Math.max(0, Number(pool.totalBorrowed) - repaidAmount)
+        );
+
+        await manager.save(pool);
+        await manager.save(position);
+
+        return {
+          ...this.summarizePosition(
+            pool,
+            null,
+            this.roundAmount(Math.max(0, remainingDebt))
+          ),
+          repaidAmount,
+        };
+      });
+
+      this.logger.log(
+        `Repayment of ${result.repaidAmount} to pool ${poolId} by ${borrowerId}`
+      );
+
+      await this.monitoringService.trackLoanEvent(poolId, 'pool_repayment', {
+        borrowerId,
+        amount: result.repaidAmount,
+      });
+
+      return { ...result, userId: borrowerId };
+    } catch (error) {
+      this.logger.error('Failed to repay lending pool', error);
+      throw new Error('Pool repayment failed');
+    }
+  }
+
+  /**
+   * Repay part or all of an undercollateralized borrow on the borrower's
+   * behalf, from the liquidator's balance of the pool asset, in exchange
+   * for its collateral, worth the repaid debt plus the liquidation penalty
+   * at oracle prices. When the collateral runs out the remaining debt is
+   * written off against the pool.
+   */
+  async liquidate(
+    poolId: string,
+    borrowerId: string,
+    liquidatorId: string,
+    amount: number
+  ): Promise<PoolLiquidation> {
+    try {
+      if (!(amount > 0)) {
+        throw new Error('Liquidation amount must be positive');
+      }
+
+      if (borrowerId === liquidatorId) {
+        throw new Error('Borrowers cannot liquidate their own position');
+      }
+
+      const liquidation = await this.dataSource.transaction(async (manager) => {
+        const { liquidationThreshold, liquidationPenalty } =
+          this.protocolConfigService.getParameters();
+
+        const pool = await this.lockPool(manager, poolId);
+        this.accrueInterest(pool);
+
+        const position = await manager.findOne(PoolBorrow, {
+          where: { poolId, borrowerId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!position || Number(position.scaledDebt) <= 0) {
+          throw new Error('No outstanding pool debt');
+        }
+
+        if (!(Number(position.collateralAmount) > 0)) {
+          throw new Error('Pool borrow has no escrowed collateral');
+        }
+
+        const borrowIndex = Number(pool.borrowIndex);
+        const debt = Number(position.scaledDebt) * borrowIndex;
+        const health = await this.valuePosition(pool, position, debt);
+        if (health.collateralValue >= health.debtValue * liquidationThreshold) {
+          throw new Error('Pool borrow is not eligible for liquidation');
+        }
+
+        const { assetPrice, collateralPrice } = health;
+        const collateralAmount = Number(position.collateralAmount);
+
+        let repaidAmount = this.roundAmount(Math.min(amount, debt));
+        let seizedCollateral = this.roundAmount(
+          (repaidAmount * assetPrice * (1 + liquidationPenalty)) /
+            collateralPrice
+        );
+        if (seizedCollateral >= collateralAmount) {
+          seizedCollateral = collateralAmount;
+          repaidAmount = this.roundAmount(
+            Math.min(
+              repaidAmount,
+              (collateralAmount * collateralPrice) /
+                (assetPrice * (1 + liquidationPenalty))
+            )
+          );
+        }
+
+        await this.collateralService.debitTokens(
+          manager,
+          liquidatorId,
+          await this.getAssetTokenId(manager, pool),
+          repaidAmount
+        );
+        await this.collateralService.payOutLockedTokens(
+          manager,
+          borrowerId,
+          position.collateralTokenId,
+          [{ recipientId: liquidatorId, amount: seizedCollateral }]
+        );
+        position.collateralAmount = this.roundAmount(
+          collateralAmount - seizedCollateral
+        );
+
+        let remainingDebt = debt - repaidAmount;
+        let badDebt = 0;
+        if (remainingDebt > 1e-8 && Number(position.collateralAmount) <= 0) {
+          badDebt = this.roundAmount(remainingDebt);
+          remainingDebt = 0;
+        }
+
+        position.scaledDebt =
+          remainingDebt > 1e-8 ? remainingDebt / borrowIndex : 0;
+        if (position.scaledDebt === 0) {
+          await this.releasePositionCollateral(manager, position);
+        }
+        position.collateralValue = this.roundAmount(
+          Number(position.collateralAmount) * collateralPrice
+        );
+
+        pool.cash = this.roundAmount(Number(pool.cash) + repaidAmount);
+        pool.totalBorrowed = this.roundAmount(
+          Math.max(0, Number(pool.totalBorrowed) - repaidAmount - badDebt)
+        );
+
+        await manager.save(pool);
+        await manager.save(position);
+
+        return {
+          poolId,
+          borrowerId,
+          liquidatorId,
+          repaidAmount,
+          collateralTokenId: position.collateralTokenId,
+          seizedCollateral,
+          remainingDebt: this.roundAmount(Math.max(0, remainingDebt)),
+          badDebt,
+        };
+      });
+
+      this.logger.warn(
+        `Pool borrow of ${borrowerId} in pool ${poolId} liquidated by ${liquidatorId}: ` +
+          `${liquidation.repaidAmount} repaid, ${liquidation.seizedCollateral} collateral seized` +
+          (liquidation.badDebt > 0
+            ? `, ${liquidation.badDebt} written off`
+            : '')
+      );
+
+      await this.monitoringService.trackLoanEvent(poolId, 'pool_liquidation', {
+        ...liquidation,
+      });
+
+      return liquidation;
+    } catch (error) {
+      this.logger.error('Failed to liquidate pool borrow', error);
+      throw new Error('Pool liquidation failed');
+    }
+  }
+
+  /**
+   * Get the borrows of a pool whose collateral has fallen below the
+   * liquidation threshold
+   */
+  async getLiquidatableBorrows(poolId: string): Promise<PoolBorrowHealth[]> {
+    const { liquidationThreshold } = this.protocolConfigService.getParameters();
+    const pool = await this.lendingPoolRepository.findOne({
+      where: { id: poolId },
+    });
+    if (!pool) {
+      throw new Error('Lending pool not found');
+    }
+
+    const projected = this.projectInterest(pool);
+    const borrows = await this.poolBorrowRepository.find({
+      where: {
+        poolId,
+        scaledDebt: MoreThan(0),
+        collateralTokenId: Not(IsNull()),
+      },
+    });
+
+    const unhealthy: PoolBorrowHealth[] = [];
+    for (const borrow of borrows) {
+      const debt = Number(borrow.scaledDebt) * Number(projected.borrowIndex);
+      const health = await this.valuePosition(projected, borrow, debt);
+      if (health.collateralValue < health.debtValue * liquidationThreshold) {
+        unhealthy.push(health);
+      }
+    }
+
+    return unhealthy;
+  }
+
+  /**
+   * Report pool borrows that can be liquidated - runs every 5 minutes
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async monitorPoolBorrows(): Promise<void> {
+    try {
+      const pools = await this.lendingPoolRepository.find();
+      for (const pool of pools) {
+        for (const health of await this.getLiquidatableBorrows(pool.id)) {
+          this.logger.warn(
+            `Pool borrow of ${health.borrowerId} in pool ${pool.id} is liquidatable at ratio ${health.collateralRatio}`
+          );
+          await this.monitoringService.trackLoanEvent(
+            pool.id,
+            'pool_borrow_liquidatable',
+            { ...health }
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error('Error monitoring pool borrows', error);
+    }
+  }
+
+  /**
+   * Get all pools with current utilization and APY
+   */
+  async getPools(): Promise<PoolSummary[]> {
+    const pools = await this.lendingPoolRepository.find({
+      order: { createdAt: 'ASC' },
+    });
+
+    return pools.map((pool) => this.summarizePool(pool));
+  }
+
+  /**
+   * Get a pool with its current utilization and APY
+   */
+  async getPool(poolId: string): Promise<PoolSummary> {
+    const pool = await this.lendingPoolRepository.findOne({
+      where: { id: poolId },
+    });
+    if (!pool) {
+      throw new Error('Lending pool not found');
+    }
+
+    return this.summarizePool(pool);
+  }
+
+  /**
+   * Get the current borrow and supply rates of a pool
+   */
+  async getPoolRates(poolId: string): Promise<PoolRates> {
+    return (await this.getPool(poolId)).rates;
+  }
+
+  /**
+   * Get a user's deposit and debt position in a pool
+   */
+  async getUserPosition(
+    poolId: string,
+    userId: string
+  ): Promise<PoolPositionSummary> {
+    const pool = await this.lendingPoolRepository.findOne({
+      where: { id: poolId },
+    });
+    if (!pool) {
+      throw new Error('Lending pool not found');
+    }
+
+    const projected = this.projectInterest(pool);
+
+    const [position, borrow] = await Promise.all([
+      this.poolPositionRepository.findOne({ where: { poolId, userId } }),
+      this.poolBorrowRepository.findOne({
+        where: { poolId, borrowerId: userId },
+      }),
+    ]);
+    const debt = borrow
+      ? this.roundAmount(
+          Number(borrow.scaledDebt) * Number(projected.borrowIndex)
+        )
+      : 0;
+
+    return { ...this.summarizePosition(projected, position, debt), userId };
+  }
+
+  /**
+   * Annual borrow rate on a kinked utilization curve: the rate rises by
+   * interestRateStep per 10% utilization up to the pool's optimal
+   * utilization, then linearly to maxInterestRate at full utilization
+   */
+  calculateBorrowRate(utilization: number, optimalUtilization: number): number {
+    const { baseInterestRate, maxInterestRate, interestRateStep } =
+      this.protocolConfigService.getParameters();
+    const u = Math.min(1, Math.max(0, utilization));
+    const kink = Number(optimalUtilization);
+    const kinkRate = Math.min(
+      maxInterestRate,
+      baseInterestRate + (interestRateStep * kink) / this.UTILIZATION_STEP
+    );
+
+    if (u <= kink) {
+      return Math.min(
+        maxInterestRate,
+        baseInterestRate + (interestRateStep * u) / this.UTILIZATION_STEP
+      );
+    }
+
+    return kinkRate + ((maxInterestRate - kinkRate) * (u - kink)) / (1 - kink);
+  }
+
+  /**
+   * Current rates of a pool, with APYs compounded daily
+   */
+  calculatePoolRates(pool: LendingPool): PoolRates {
+    const utilization = this.getUtilization(pool);
+    const borrowRate = this.calculateBorrowRate(
+      utilization,
+      pool.optimalUtilization
+    );
+    const supplyRate =
+      borrowRate * utilization * (1 - Number(pool.reserveFactor));
+
+    return {
+      poolId: pool.id,
+      utilization: this.roundRate(utilization),
+      borrowRate: this.roundRate(borrowRate),
+      supplyRate: this.roundRate(supplyRate),
+      borrowApy: this.roundRate(Math.pow(1 + borrowRate / 365, 365) - 1),
+      supplyApy: this.roundRate(Math.pow(1 + supplyRate / 365, 365) - 1),
+    };
+  }
+
+  /**
+   * Accrue borrow interest since the last update into the pool totals
+   */
+  private accrueInterest(pool: LendingPool, now: Date = new Date()): void {
+    const elapsedSeconds =
+      (now.getTime() - new Date(pool.lastAccruedAt).getTime()) / 1000;
+    if (elapsedSeconds <= 0) {
+      return;
+    }
+
+    const totalBorrowed = Number(pool.totalBorrowed);
+    if (totalBorrowed > 0) {
+      const borrowRate = this.calculateBorrowRate(
+        this.getUtilization(pool),
+        pool.optimalUtilization
+      );
+      const growth = (borrowRate * elapsedSeconds) / this.SECONDS_PER_YEAR;
+      const interest = totalBorrowed * growth;
+
+      pool.totalBorrowed = this.roundAmount(totalBorrowed + interest);
+      pool.totalReserves = this.roundAmount(
+        Number(pool.totalReserves) + interest * Number(pool.reserveFactor)
+      );
+      pool.borrowIndex = Number(pool.borrowIndex) * (1 + growth);
+    }
+
+    pool.lastAccruedAt = now;
+  }
+
+  /**
+   * Value a borrow's debt and escrowed collateral in USD at oracle prices
+   */
+  private async valuePosition(
+    pool: LendingPool,
+    position: PoolBorrow,
+    debt: number
+  ): Promise<PoolBorrowHealth> {
+    const assetPrice = await this.priceOracleService.getPriceBySymbol(
+      pool.asset
+    );
+    const collateralAmount = Number(position.collateralAmount || 0);
+    const collateralPrice =
+      collateralAmount > 0
+        ? (
+            await this.priceOracleService.getPriceByTokenId(
+              position.collateralTokenId
+            )
+          ).priceUSD
+        : 0;
+
+    const debtValue = debt * assetPrice.priceUSD;
+    const collateralValue = collateralAmount * collateralPrice;
+
+    return {
+      poolId: pool.id,
+      borrowerId: position.borrowerId,
+      debt: this.roundAmount(debt),
+      debtValue: this.roundAmount(debtValue),
+      assetPrice: assetPrice.priceUSD,
+      collateralTokenId: position.collateralTokenId,
+      collateralAmount,
+      collateralPrice,
+      collateralValue: this.roundAmount(collateralValue),
+      collateralRatio:
+        debtValue > 0 ? this.roundRate(collateralValue / debtValue) : null,
+    };
+  }
+
+  /**
+   * Return a repaid borrow's escrowed collateral to the borrower
+   */
+  private async releasePositionCollateral(
+    manager: EntityManager,
+    position: PoolBorrow
+  ): Promise<void> {
+    const collateralAmount = Number(position.collateralAmount || 0);
+    if (collateralAmount > 0) {
+      await this.collateralService.unlockTokens(
+        manager,
+        position.borrowerId,
+        position.collateralTokenId,
+        collateralAmount
+      );
+    }
+
+    position.collateralAmount = 0;
+    position.collateralValue = 0;
+  }
+
+  /**
+   * A copy of the pool with interest accrued to now, for reporting. The
+   * stored pool is only accrued by the operations that save it.
+   */
+  private projectInterest(pool: LendingPool): LendingPool {
+    const projected = Object.assign(new LendingPool(), pool);
+    this.accrueInterest(projected);
+    return projected;
+  }
+
+  private async lockPool(
+    manager: EntityManager,
+    poolId: string
+  ): Promise<LendingPool> {
+    const pool = await manager.findOne(LendingPool, {
+      where: { id: poolId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!pool) {
+      throw new Error('Lending pool not found');
+    }
+
+    return pool;
+  }
+
+  /**
+   * The registered token a pool lends, by its asset symbol
+   */
+  private async getAssetTokenId(
+    manager: EntityManager,
+    pool: LendingPool
+  ): Promise<string> {
+    const token = await manager.findOne(Token, {
+      where: { symbol: pool.asset },
+    });
+    if (!token) {
+      throw new Error(`Pool asset ${pool.asset} is not a registered token`);
+    }
+
+    return token.id;
+  }
+
+  private async getOrCreatePosition(
+    manager: EntityManager,
+    poolId: string,
+    userId: string
+  ): Promise<PoolPosition> {
+    const position = await manager.findOne(PoolPosition, {
+      where: { poolId, userId },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    return (
+      position ||
+      manager.create(PoolPosition, {
+        poolId,
+        userId,
+        shares: 0,
+        totalDeposited: 0,
+        totalWithdrawn: 0,
+      })
+    );
+  }
+
+  private summarizePool(pool: LendingPool): PoolSummary {
+    const projected = this.projectInterest(pool);
+
+    return {
+      pool: projected,
+      totalAssets: this.roundAmount(this.getTotalAssets(projected)),
+      sharePrice: this.getSharePrice(projected),
+      rates: this.calculatePoolRates(projected),
+    };
+  }
+
+  private summarizePosition(
+    pool: LendingPool,
+    position: PoolPosition | null,
+    debt?: number
+  ): PoolPositionSummary {
+    const shares = Number(position?.shares || 0);
+
+    return {
+      poolId: pool.id,
+      userId: position?.userId,
+      shares,
+      value: this.roundAmount(shares * this.getSharePrice(pool)),
+      debt,
+    };
+  }
+
+  /**
+   * Liquidity owed to depositors: idle cash plus outstanding borrows,
+   * less the protocol's reserve cut of accrued interest
+   */
+  private getTotalAssets(pool: LendingPool): number {
+    return (
+      Number(pool.cash) +
+      Number(pool.totalBorrowed) -
+      Number(pool.totalReserves)
+    );
+  }
+
+  private getSharePrice(pool: LendingPool): number {
+    const totalShares = Number(pool.totalShares);
+    return totalShares > 0 ? this.getTotalAssets(pool) / totalShares : 1;
+  }
+
+  private getUtilization(pool: LendingPool): number {
+    const totalBorrowed = Number(pool.totalBorrowed);
+    const liquidity = Number(pool.cash) + totalBorrowed;
+    return liquidity > 0 ? totalBorrowed / liquidity : 0;
+  }
+
+  private roundAmount(value: number): number {
+    return Math.round(value * 1e8) / 1e8;
+  }
+
+  private roundRate(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+  }
+}
@@ -0,0 +1,38 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { LendingController } from './lending.controller';
+import { LendingService } from './lending.service';
+
+describe('LendingController', () => {
+  let lendingService: Record<string, jest.Mock>;
+  let controller: LendingController;
+  const req = { user: { id: 'borrower' } };
+
+  beforeEach(async () => {
+    lendingService = { getPayoffQuote: jest.fn(async () => ({})) };
+
+    const module = await Test.createTestingModule({
+      controllers: [LendingController],
+      providers: [{ provide: LendingService, useValue: lendingService }],
+    }).compile();
+
+    controller = module.get(LendingController);
+  });
+
+  it('should reject an unparseable payoff date as a bad request', async () => {
+    await expect(
+      controller.getPayoffQuote(req, 'loan-1', 'not-a-date')
+    ).rejects.toThrow(BadRequestException);
+    expect(lendingService.getPayoffQuote).not.toHaveBeenCalled();
+  });
+
+  it('should quote the payoff on the requested date', async () => {
+    await controller.getPayoffQuote(req, 'loan-1', '2026-03-01');
+
+    expect(lendingService.getPayoffQuote).toHaveBeenCalledWith(
+      'loan-1',
+      'borrower',
+      new Date('2026-03-01')
+    );
+  });
+});
@@ -1,22 +1,53 @@
-import { Controller, Post, Get, Body, Param, Query } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import {
+  BadRequestException,
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import {
   LendingService,
-  LoanApplication,
-  LoanOffer,
-  ActiveLoan,
+  LoanFundingResult,
+  OfferComparison,
+  PayoffQuote,
 } from './lending.service';
+import { LoanOffer } from '../entities/loan-offer.entity';
+import { ActiveLoan } from '../entities/active-loan.entity';
+import { LoanPayment } from '../entities/loan-payment.entity';
+import { LoanParticipation } from '../entities/loan-participation.entity';
+import {
+  LoanApplication,
+  RepaymentType,
+} from '../entities/loan-application.entity';
+import { UserRole } from '../entities/user.entity';
+import { PaymentSchedule } from './amortization.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { WhenNotPaused } from '../governance/decorators/when-not-paused.decorator';
 
 export class SubmitLoanApplicationDto {
-  borrowerId: string;
   amount: number;
   interestRate: number;
   duration: number;
   collateralRatio: number;
+  borrowTokenId: string;
+  collateralTokenIds: string[];
+  repaymentType?: RepaymentType;
 }
 
 export class CreateLoanOfferDto {
-  lenderId: string;
   loanApplicationId: string;
   offeredAmount: number;
   offeredInterestRate: number;
@@ -26,21 +57,37 @@ export class CreateLoanOfferDto {
 
 export class AcceptLoanOfferDto {
   offerId: string;
-  borrowerId: string;
+}
+
+export class RejectLoanOfferDto {
+  reason?: string;
 }
 
 export class ProcessPaymentDto {
   loanId: string;
   paymentAmount: number;
-  borrowerSecretKey: string;
+}
+
+export class EarlyRepaymentDto {
+  paymentAmount: number;
+}
+
+export class RefinanceRequestDto {
+  interestRate: number;
+  duration: number;
+  repaymentType?: RepaymentType;
 }
 
 @ApiTags('lending')
 @Controller('lending')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
 export class LendingController {
   constructor(private readonly lendingService: LendingService) {}
 
   @Post('submit-application')
+  @WhenNotPaused()
+  @Roles(UserRole.BORROWER)
   @ApiOperation({
     summary: 'Submit a loan application with encrypted parameters',
   })
@@ -50,20 +97,33 @@ export class LendingController {
     description: 'Loan application submitted successfully',
   })
   async submitLoanApplication(
+    @Request() req,
     @Body() params: SubmitLoanApplicationDto
   ): Promise<LoanApplication> {
-    return this.lendingService.submitLoanApplication(params);
+    return this.lendingService.submitLoanApplication({
+      borrowerId: req.user.id,
+      amount: params.amount,
+      interestRate: params.interestRate,
+      duration: params.duration,
+      collateralRatio: params.collateralRatio,
+      borrowTokenId: params.borrowTokenId,
+      collateralTokenIds: params.collateralTokenIds,
+      repaymentType: params.repaymentType,
+    });
   }
 
   @Post('create-offer')
+  @WhenNotPaused()
+  @Roles(UserRole.LENDER)
   @ApiOperation({ summary: 'Create a loan offer from a lender' })
   @ApiBody({ type: CreateLoanOfferDto })
   @ApiResponse({ status: 201, description: 'Loan offer created successfully' })
   async createLoanOffer(
+    @Request() req,
     @Body() offerData: CreateLoanOfferDto
   ): Promise<LoanOffer> {
     return this.lendingService.createLoanOffer(
-      offerData.lenderId,
+      req.user.id,
       offerData.loanApplicationId,
       offerData.offeredAmount,
       offerData.offeredInterestRate,
@@ -73,71 +133,208 @@ export class LendingController {
   }
 
   @Post('accept-offer')
-  @ApiOperation({ summary: 'Accept a loan offer and create active loan' })
+  @WhenNotPaused()
+  @Roles(UserRole.BORROWER)
+  @ApiOperation({
+    summary:
+      'Accept a loan offer; the loan is created once the application is fully funded',
+  })
   @ApiBody({ type: AcceptLoanOfferDto })
   @ApiResponse({ status: 200, description: 'Loan offer accepted successfully' })
   async acceptLoanOffer(
+    @Request() req,
     @Body() acceptData: AcceptLoanOfferDto
-  ): Promise<ActiveLoan> {
-    return this.lendingService.acceptLoanOffer(
-      acceptData.offerId,
-      acceptData.borrowerId
+  ): Promise<LoanFundingResult> {
+    return this.lendingService.acceptLoanOffer(acceptData.offerId, req.user.id);
+  }
+
+  @Post('offers/:id/cancel')
+  @Roles(UserRole.LENDER)
+  @ApiOperation({ summary: 'Cancel a pending loan offer as its lender' })
+  @ApiResponse({ status: 200, description: 'Loan offer cancelled' })
+  async cancelLoanOffer(
+    @Request() req,
+    @Param('id') offerId: string
+  ): Promise<LoanOffer> {
+    return this.lendingService.cancelLoanOffer(offerId, req.user.id);
+  }
+
+  @Post('offers/:id/reject')
+  @Roles(UserRole.BORROWER)
+  @ApiOperation({ summary: 'Reject a pending loan offer as the borrower' })
+  @ApiBody({ type: RejectLoanOfferDto })
+  @ApiResponse({ status: 200, description: 'Loan offer rejected' })
+  async rejectLoanOffer(
+    @Request() req,
+    @Param('id') offerId: string,
+    @Body() rejectData: RejectLoanOfferDto
+  ): Promise<LoanOffer> {
+    return this.lendingService.rejectLoanOffer(
+      offerId,
+      req.user.id,
+      rejectData.reason
     );
   }
 
   @Post('process-payment')
+  @Roles(UserRole.BORROWER)
   @ApiOperation({ summary: 'Process a loan payment' })
   @ApiBody({ type: ProcessPaymentDto })
   @ApiResponse({ status: 200, description: 'Payment processed successfully' })
-  async processLoanPayment(@Body() paymentData: ProcessPaymentDto) {
+  async processLoanPayment(
+    @Request() req,
+    @Body() paymentData: ProcessPaymentDto
+  ) {
     return this.lendingService.processLoanPayment(
       paymentData.loanId,
       paymentData.paymentAmount,
-      paymentData.borrowerSecretKey
+      req.user.id
     );
   }
 
-  @Get('applications/borrower/:borrowerId')
-  @ApiOperation({ summary: 'Get loan applications for a borrower' })
+  @Get('applications/mine')
+  @Roles(UserRole.BORROWER)
+  @ApiOperation({ summary: "Get the current borrower's loan applications" })
   @ApiResponse({ status: 200, description: 'Borrower applications retrieved' })
-  async getBorrowerApplications(
-    @Param('borrowerId') borrowerId: string
-  ): Promise<LoanApplication[]> {
-    return this.lendingService.getBorrowerApplications(borrowerId);
+  async getBorrowerApplications(@Request() req): Promise<LoanApplication[]> {
+    return this.lendingService.getBorrowerApplications(req.user.id);
   }
 
-  @Get('offers/lender/:lenderId')
-  @ApiOperation({ summary: 'Get loan offers for a lender' })
+  @Get('offers/mine')
+  @Roles(UserRole.LENDER)
+  @ApiOperation({ summary: "Get the current lender's loan offers" })
   @ApiResponse({ status: 200, description: 'Lender offers retrieved' })
-  async getLenderOffers(
-    @Param('lenderId') lenderId: string
-  ): Promise<LoanOffer[]> {
-    return this.lendingService.getLenderOffers(lenderId);
+  async getLenderOffers(@Request() req): Promise<LoanOffer[]> {
+    return this.lendingService.getLenderOffers(req.user.id);
   }
 
-  @Get('loans/user/:userId')
-  @ApiOperation({ summary: 'Get active loans for a user' })
+  @Get('loans/mine')
+  @ApiOperation({ summary: 'Get loans the current user borrowed or funded' })
   @ApiResponse({ status: 200, description: 'User loans retrieved' })
-  async getUserActiveLoans(
-    @Param('userId') userId: string
-  ): Promise<ActiveLoan[]> {
-    return this.lendingService.getUserActiveLoans(userId);
+  async getUserActiveLoans(@Request() req): Promise<ActiveLoan[]> {
+    return this.lendingService.getUserActiveLoans(req.user.id);
+  }
+
+  @Get('loans/:id/schedule')
+  @ApiOperation({ summary: 'Get the repayment schedule for a loan' })
+  @ApiResponse({ status: 200, description: 'Loan schedule retrieved' })
+  async getLoanSchedule(
+    @Request() req,
+    @Param('id') loanId: string
+  ): Promise<PaymentSchedule> {
+    return this.lendingService.getLoanSchedule(loanId, req.user.id);
+  }
+
+  @Get('loans/:id/payoff-quote')
+  @ApiOperation({ summary: 'Quote the amount needed to pay off a loan' })
+  @ApiResponse({ status: 200, description: 'Payoff quote retrieved' })
+  @ApiResponse({ status: 400, description: 'Invalid payoff date' })
+  async getPayoffQuote(
+    @Request() req,
+    @Param('id') loanId: string,
+    @Query('date') date?: string
+  ): Promise<PayoffQuote> {
+    const payoffDate = date ? new Date(date) : undefined;
+    if (payoffDate && isNaN(payoffDate.getTime())) {
+      throw new BadRequestException('Invalid payoff date');
+    }
+
+    return this.lendingService.getPayoffQuote(loanId, req.user.id, payoffDate);
+  }
+
+  @Post('loans/:id/payoff')
+  @Roles(UserRole.BORROWER)
+  @ApiOperation({ summary: 'Repay a loan in full ahead of schedule' })
+  @ApiBody({ type: EarlyRepaymentDto })
+  @ApiResponse({ status: 200, description: 'Loan repaid successfully' })
+  async processEarlyRepayment(
+    @Request() req,
+    @Param('id') loanId: string,
+    @Body() repaymentData: EarlyRepaymentDto
+  ) {
+    return this.lendingService.processEarlyRepayment(
+      loanId,
+      req.user.id,
+      repaymentData.paymentAmount
+    );
+  }
+
+  @Post('loans/:id/refinance')
+  @WhenNotPaused()
+  @Roles(UserRole.BORROWER)
+  @ApiOperation({
+    summary:
+      'Open a refinance request on a loan; lenders make offers on the request',
+  })
+  @ApiBody({ type: RefinanceRequestDto })
+  @ApiResponse({ status: 201, description: 'Refinance request opened' })
+  async requestRefinance(
+    @Request() req,
+    @Param('id') loanId: string,
+    @Body() refinanceData: RefinanceRequestDto
+  ): Promise<LoanApplication> {
+    return this.lendingService.requestRefinance(loanId, req.user.id, {
+      interestRate: refinanceData.interestRate,
+      duration: refinanceData.duration,
+      repaymentType: refinanceData.repaymentType,
+    });
+  }
+
+  @Get('loans/:id/participations')
+  @ApiOperation({ summary: "Get each lender's share of a loan" })
+  @ApiResponse({ status: 200, description: 'Loan participations retrieved' })
+  async getLoanParticipations(
+    @Request() req,
+    @Param('id') loanId: string
+  ): Promise<LoanParticipation[]> {
+    return this.lendingService.getLoanParticipations(loanId, req.user.id);
+  }
+
+  @Get('loans/:id/payments')
+  @ApiOperation({ summary: 'Get the payment history for a loan' })
+  @ApiResponse({ status: 200, description: 'Loan payments retrieved' })
+  async getLoanPayments(
+    @Request() req,
+    @Param('id') loanId: string
+  ): Promise<LoanPayment[]> {
+    return this.lendingService.getLoanPayments(loanId, req.user.id);
   }
 
   @Get('applications/available')
+  @Roles(UserRole.LENDER)
   @ApiOperation({ summary: 'Get available loan applications for lenders' })
   @ApiResponse({ status: 200, description: 'Available applications retrieved' })
   async getAvailableLoanApplications(): Promise<LoanApplication[]> {
     return this.lendingService.getAvailableLoanApplications();
   }
 
+  @Get('applications/:id/offers')
+  @Roles(UserRole.BORROWER)
+  @ApiOperation({
+    summary: 'Compare the offers on an application side by side',
+  })
+  @ApiResponse({ status: 200, description: 'Ranked offers retrieved' })
+  async getApplicationOffers(
+    @Request() req,
+    @Param('id') applicationId: string
+  ): Promise<OfferComparison[]> {
+    return this.lendingService.getApplicationOfferComparison(
+      applicationId,
+      req.user.id
+    );
+  }
+
   @Get('applications/:applicationId')
   @ApiOperation({ summary: 'Get loan application details' })
   @ApiResponse({ status: 200, description: 'Application details retrieved' })
   async getLoanApplicationDetails(
+    @Request() req,
     @Param('applicationId') applicationId: string
   ) {
-    return this.lendingService.getLoanApplicationDetails(applicationId);
+    return this.lendingService.getLoanApplicationDetails(
+      applicationId,
+      req.user.id
+    );
   }
 
   @Get('statistics')
@@ -1,13 +1,52 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { LendingService } from './lending.service';
 import { LendingController } from './lending.controller';
+import { LendingPoolService } from './lending-pool.service';
+import { LendingPoolController } from './lending-pool.controller';
+import { AmortizationService } from './amortization.service';
+import { DelinquencyService } from './delinquency.service';
+import { LoanApplication } from '../entities/loan-application.entity';
+import { LoanOffer } from '../entities/loan-offer.entity';
+import { ActiveLoan } from '../entities/active-loan.entity';
+import { LoanPayment } from '../entities/loan-payment.entity';
+import { LoanParticipation } from '../entities/loan-participation.entity';
+import { LendingPool } from '../entities/lending-pool.entity';
+import { PoolPosition } from '../entities/pool-position.entity';
+import { PoolBorrow } from '../entities/pool-borrow.entity';
 import { EncryptionModule } from '../encryption/encryption.module';
 import { SolanaModule } from '../solana/solana.module';
+import { GovernanceModule } from '../governance/governance.module';
+import { MonitoringModule } from '../monitoring/monitoring.module';
+import { CollateralModule } from '../collateral/collateral.module';
+import { OracleModule } from '../oracle/oracle.module';
 
 @Module({
-  imports: [EncryptionModule, SolanaModule],
-  providers: [LendingService],
-  controllers: [LendingController],
-  exports: [LendingService],
+  imports: [
+    TypeOrmModule.forFeature([
+      LoanApplication,
+      LoanOffer,
+      ActiveLoan,
+      LoanPayment,
+      LoanParticipation,
+      LendingPool,
+      PoolPosition,
+      PoolBorrow,
+    ]),
+    EncryptionModule,
+    SolanaModule,
+    GovernanceModule,
+    MonitoringModule,
+    CollateralModule,
+    OracleModule,
+  ],
+  providers: [
+    LendingService,
+    LendingPoolService,
+    AmortizationService,
+    DelinquencyService,
+  ],
+  controllers: [LendingController, LendingPoolController],
+  exports: [LendingService, LendingPoolService],
 })
 export class LendingModule {}
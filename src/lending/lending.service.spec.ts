@@ -0,0 +1,535 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { LendingService } from './lending.service';
+import { AmortizationService } from './amortization.service';
+import { DelinquencyService } from './delinquency.service';
+import { EncryptionService } from '../encryption/encryption.service';
+import { SolanaService } from '../solana/solana.service';
+import { GovernanceService } from '../governance/governance.service';
+import { MonitoringService } from '../monitoring/monitoring.service';
+import { CollateralService } from '../collateral/collateral.service';
+import { ActiveLoan, ActiveLoanStatus } from '../entities/active-loan.entity';
+import {
+  LoanApplication,
+  LoanApplicationStatus,
+} from '../entities/loan-application.entity';
+import { LoanOffer, LoanOfferStatus } from '../entities/loan-offer.entity';
+import { LoanPayment, PaymentType } from '../entities/loan-payment.entity';
+import { LoanParticipation } from '../entities/loan-participation.entity';
+
+describe('LendingService', () => {
+  let rows: Map<Function, any[]>;
+  let manager: any;
+  let collateralService: Record<string, jest.Mock>;
+  let loan: any;
+  let amortizationService: AmortizationService;
+  let lendingService: LendingService;
+
+  const rowsOf = (entity: Function) => {
+    if (!rows.has(entity)) {
+      rows.set(entity, []);
+    }
+    return rows.get(entity);
+  };
+  const matches = (row: any, where: Record<string, any> = {}) =>
+    Object.entries(where).every(([key, value]) => row[key] === value);
+  const repositoryFor = (entity: Function) => ({
+    provide: getRepositoryToken(entity),
+    useValue: {
+      findOne: jest.fn((options) => manager.findOne(entity, options)),
+      find: jest.fn((options) => manager.find(entity, options)),
+      create: jest.fn((data) => manager.create(entity, data)),
+      save: jest.fn((data) => manager.save(data)),
+    },
+  });
+
+  beforeEach(async () => {
+    rows = new Map();
+    let nextId = 0;
+    manager = {
+      findOne: jest.fn(
+        async (entity, { where }) =>
+          rowsOf(entity).find((row) => matches(row, where)) || null
+      ),
+      find: jest.fn(async (entity, { where }) =>
+        rowsOf(entity).filter((row) => matches(row, where))
+      ),
+      create: jest.fn((entity, data) => Object.assign(new entity(), data)),
+      save: jest.fn(async (entity) => {
+        for (const row of [].concat(entity)) {
+          const table = rowsOf(row.constructor);
+          if (!table.includes(row)) {
+            row.id = row.id || `${row.constructor.name}-${++nextId}`;
+            table.push(row);
+          }
+        }
+        return entity;
+      }),
+      update: jest.fn(),
+    };
+
+    amortizationService = new AmortizationService();
+    loan = Object.assign(new ActiveLoan(), {
+      id: 'loan-1',
+      loanApplicationId: 'application-1',
+      borrowerId: 'borrower',
+      lenderId: 'lender',
+      status: ActiveLoanStatus.ACTIVE,
+      principalAmount: 1200,
+      remainingAmount: 1200,
+      interestRate: 0.12,
+      completedPayments: 0,
+      totalPayments: 12,
+      paymentSchedule: amortizationService.generateSchedule({
+        principal: 1200,
+        annualInterestRate: 0.12,
+        durationDays: 360,
+      }),
+      metadata: {},
+      createdAt: new Date(),
+    });
+    rowsOf(ActiveLoan).push(loan);
+
+    collateralService = {
+      assertTokensActive: jest.fn(),
+      lockRequiredCollateral: jest.fn(async () => []),
+      releaseCollateral: jest.fn(async () => []),
+      transferCollateral: jest.fn(async () => []),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        LendingService,
+        AmortizationService,
+        DelinquencyService,
+        repositoryFor(LoanApplication),
+        repositoryFor(LoanOffer),
+        repositoryFor(ActiveLoan),
+        repositoryFor(LoanPayment),
+        repositoryFor(LoanParticipation),
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn((work) => work(manager)) },
+        },
+        {
+          provide: EncryptionService,
+          useValue: {
+            generateTransactionHash: jest.fn(() => 'hash'),
+            encryptLendingParams: jest.fn(async () => ({})),
+            performEncryptedRiskAssessment: jest.fn(async () => ({
+              approved: true,
+              riskScore: 20,
+            })),
+          },
+        },
+        { provide: SolanaService, useValue: {} },
+        {
+          provide: GovernanceService,
+          useValue: {
+            getCurrentParameters: jest.fn(() => ({
+              gracePeriodDays: 5,
+              prepaymentPenaltyRate: 0.02,
+            })),
+          },
+        },
+        {
+          provide: MonitoringService,
+          useValue: { trackLoanEvent: jest.fn() },
+        },
+        { provide: CollateralService, useValue: collateralService },
+      ],
+    }).compile();
+
+    lendingService = module.get(LendingService);
+  });
+
+  it('should charge the installment interest once across partial payments in one period', async () => {
+    const installment = loan.paymentSchedule.installments[0];
+    const firstHalf = Math.round(installment.payment * 50) / 100;
+    const secondHalf =
+      Math.round((installment.payment - firstHalf) * 100) / 100;
+
+    const first = await lendingService.processLoanPayment(
+      'loan-1',
+      firstHalf,
+      'borrower'
+    );
+    expect(first.payment.interestAmount).toBe(installment.interest);
+    expect(first.payment.principalAmount).toBeCloseTo(
+      firstHalf - installment.interest,
+      2
+    );
+    expect(first.loan.completedPayments).toBe(0);
+
+    const second = await lendingService.processLoanPayment(
+      'loan-1',
+      secondHalf,
+      'borrower'
+    );
+    expect(second.payment.interestAmount).toBe(0);
+    expect(second.payment.principalAmount).toBe(secondHalf);
+    expect(second.loan.completedPayments).toBe(1);
+    expect(Number(second.loan.remainingAmount)).toBeCloseTo(
+      installment.remainingBalance,
+      2
+    );
+  });
+
+  describe('payoff', () => {
+    it('should reject a payoff date before the last payment as a bad request', async () => {
+      loan.lastPaymentDate = new Date('2026-03-01T00:00:00Z');
+
+      await expect(
+        lendingService.getPayoffQuote(
+          'loan-1',
+          'borrower',
+          new Date('2026-02-01T00:00:00Z')
+        )
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should charge the prepayment penalty on an early repayment', async () => {
+      const {
+        quote,
+        payment,
+        loan: repaid,
+      } = await lendingService.processEarlyRepayment(
+        'loan-1',
+        'borrower',
+        1300
+      );
+
+      expect(quote.prepaymentPenalty).toBe(24);
+      expect(quote.totalPayoff).toBe(
+        Math.round((1200 + quote.accruedInterest + 24) * 100) / 100
+      );
+      expect(payment.metadata.prepaymentPenalty).toBe(24);
+      expect(payment.metadata.lenderAllocations).toEqual([
+        expect.objectContaining({ lenderId: 'lender', feeAmount: 24 }),
+      ]);
+      expect(repaid.status).toBe(ActiveLoanStatus.REPAID);
+      expect(collateralService.releaseCollateral).toHaveBeenCalledWith(
+        manager,
+        loan
+      );
+    });
+
+    it('should waive the prepayment penalty in the final installment period', async () => {
+      loan.completedPayments = 11;
+      loan.remainingAmount = 100;
+
+      const { quote } = await lendingService.processEarlyRepayment(
+        'loan-1',
+        'borrower',
+        200
+      );
+
+      expect(quote.prepaymentPenalty).toBe(0);
+    });
+  });
+
+  describe('syndication', () => {
+    const offer = (
+      id: string,
+      lenderId: string,
+      amount: number,
+      rate: number
+    ) =>
+      Object.assign(new LoanOffer(), {
+        id,
+        loanApplicationId: 'application-2',
+        lenderId,
+        offeredAmount: amount,
+        offeredInterestRate: rate,
+        status: LoanOfferStatus.PENDING,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        metadata: {},
+      });
+
+    beforeEach(() => {
+      rowsOf(LoanApplication).push(
+        Object.assign(new LoanApplication(), {
+          id: 'application-2',
+          borrowerId: 'borrower',
+          amount: 1000,
+          duration: 360,
+          collateralRatio: 1.5,
+          borrowTokenId: 'usdc',
+          collateralTokenIds: ['sol'],
+          status: LoanApplicationStatus.APPROVED,
+          metadata: {},
+        })
+      );
+      rowsOf(LoanOffer).push(
+        offer('offer-a', 'lender-a', 300, 0.1),
+        offer('offer-b', 'lender-b', 400, 0.12),
+        offer('offer-c', 'lender-c', 500, 0.09)
+      );
+    });
+
+    it('should fund an application across offers and originate the loan once fully funded', async () => {
+      const first = await lendingService.acceptLoanOffer('offer-a', 'borrower');
+      expect(first).toMatchObject({
+        fundedAmount: 300,
+        remainingAmount: 700,
+        fullyFunded: false,
+      });
+      expect(first.loan).toBeUndefined();
+
+      const second = await lendingService.acceptLoanOffer(
+        'offer-b',
+        'borrower'
+      );
+      expect(second).toMatchObject({
+        fundedAmount: 700,
+        remainingAmount: 300,
+        fullyFunded: false,
+      });
+      expect(rowsOf(ActiveLoan)).toHaveLength(1);
+
+      // The last offer is only drawn for what is left to fund
+      const last = await lendingService.acceptLoanOffer('offer-c', 'borrower');
+      expect(last.offer.metadata.committedAmount).toBe(300);
+      expect(last).toMatchObject({
+        fundedAmount: 1000,
+        remainingAmount: 0,
+        fullyFunded: true,
+      });
+      expect(last.loan).toMatchObject({
+        principalAmount: 1000,
+        lenderId: 'lender-b',
+        interestRate: 0.105,
+        metadata: { syndicated: true },
+      });
+      expect(
+        rowsOf(LoanParticipation).map(
+          ({ lenderId, principalAmount, share }) => ({
+            lenderId,
+            principalAmount,
+            share,
+          })
+        )
+      ).toEqual([
+        { lenderId: 'lender-a', principalAmount: 300, share: 0.3 },
+        { lenderId: 'lender-b', principalAmount: 400, share: 0.4 },
+        { lenderId: 'lender-c', principalAmount: 300, share: 0.3 },
+      ]);
+      expect(collateralService.lockRequiredCollateral).toHaveBeenCalledWith(
+        manager,
+        last.loan,
+        ['sol'],
+        1.5
+      );
+      expect(rowsOf(LoanApplication)[0].status).toBe(
+        LoanApplicationStatus.ACTIVE
+      );
+    });
+
+    it('should split a payment between the participations pro rata with the remainder to the last', async () => {
+      rowsOf(LoanParticipation).push(
+        ...['lender-a', 'lender-b', 'lender-c'].map((lenderId, index) =>
+          Object.assign(new LoanParticipation(), {
+            activeLoanId: 'loan-1',
+            lenderId,
+            share: index === 2 ? 0.33333334 : 0.33333333,
+            principalRepaid: 0,
+            interestEarned: 0,
+            feesEarned: 0,
+          })
+        )
+      );
+
+      const { payment, transactions } = await lendingService.processLoanPayment(
+        'loan-1',
+        100,
+        'borrower'
+      );
+
+      expect(payment.metadata.lenderAllocations).toEqual([
+        expect.objectContaining({
+          lenderId: 'lender-a',
+          principalAmount: 29.33,
+          interestAmount: 4,
+        }),
+        expect.objectContaining({
+          lenderId: 'lender-b',
+          principalAmount: 29.33,
+          interestAmount: 4,
+        }),
+        expect.objectContaining({
+          lenderId: 'lender-c',
+          principalAmount: 29.34,
+          interestAmount: 4,
+        }),
+      ]);
+      expect(
+        transactions.map(({ from, to, amount }) => ({ from, to, amount }))
+      ).toEqual([
+        { from: 'borrower', to: 'lender-a', amount: 33.33 },
+        { from: 'borrower', to: 'lender-b', amount: 33.33 },
+        { from: 'borrower', to: 'lender-c', amount: 33.34 },
+      ]);
+      expect(rowsOf(LoanParticipation)[2]).toMatchObject({
+        principalRepaid: 29.34,
+        interestEarned: 4,
+      });
+    });
+
+    it('should pay each participation its share of an early repayment', async () => {
+      rowsOf(LoanParticipation).push(
+        ...['lender-a', 'lender-b'].map((lenderId) =>
+          Object.assign(new LoanParticipation(), {
+            activeLoanId: 'loan-1',
+            lenderId,
+            share: 0.5,
+            principalRepaid: 0,
+            interestEarned: 0,
+            feesEarned: 0,
+          })
+        )
+      );
+
+      const { quote, transactions } =
+        await lendingService.processEarlyRepayment('loan-1', 'borrower', 1300);
+
+      expect(transactions.map(({ to }) => to)).toEqual([
+        'lender-a',
+        'lender-b',
+      ]);
+      expect(
+        transactions.reduce((sum, transaction) => sum + transaction.amount, 0)
+      ).toBeCloseTo(quote.totalPayoff, 2);
+      expect(rowsOf(LoanParticipation)[0]).toMatchObject({
+        principalRepaid: 600,
+        feesEarned: 12,
+      });
+    });
+  });
+
+  describe('refinancing', () => {
+    beforeEach(() => {
+      loan.loanApplication = Object.assign(new LoanApplication(), {
+        id: 'application-1',
+        collateralRatio: 1.5,
+        borrowTokenId: 'usdc',
+        collateralTokenIds: ['sol'],
+      });
+    });
+
+    it('should open a refinance request for the loan payoff amount', async () => {
+      const request = await lendingService.requestRefinance(
+        'loan-1',
+        'borrower',
+        { interestRate: 0.08, duration: 180 }
+      );
+
+      expect(request).toMatchObject({
+        amount: 1224,
+        interestRate: 0.08,
+        collateralRatio: 1.5,
+        collateralTokenIds: ['sol'],
+        status: LoanApplicationStatus.APPROVED,
+        metadata: { refinance: { loanId: 'loan-1' } },
+      });
+      expect(loan.metadata.refinanceRequestId).toBe(request.id);
+
+      await expect(
+        lendingService.requestRefinance('loan-1', 'borrower', {
+          interestRate: 0.07,
+          duration: 180,
+        })
+      ).rejects.toThrow('Refinance request failed');
+    });
+
+    it('should settle the old loan and carry its collateral to the new one', async () => {
+      const request = await lendingService.requestRefinance(
+        'loan-1',
+        'borrower',
+        { interestRate: 0.08, duration: 180 }
+      );
+      rowsOf(LoanOffer).push(
+        Object.assign(new LoanOffer(), {
+          id: 'offer-1',
+          loanApplicationId: request.id,
+          lenderId: 'lender-new',
+          offeredAmount: 1300,
+          offeredInterestRate: 0.08,
+          status: LoanOfferStatus.PENDING,
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+          metadata: {},
+        })
+      );
+
+      const result = await lendingService.acceptLoanOffer(
+        'offer-1',
+        'borrower'
+      );
+
+      expect(result).toMatchObject({ fundedAmount: 1224, fullyFunded: true });
+      expect(result.loan).toMatchObject({
+        principalAmount: 1224,
+        lenderId: 'lender-new',
+        metadata: { refinancedFrom: 'loan-1' },
+      });
+      expect(loan).toMatchObject({
+        status: ActiveLoanStatus.REPAID,
+        remainingAmount: 0,
+        metadata: { refinancedBy: result.loan.id },
+      });
+      expect(rowsOf(LoanPayment)).toEqual([
+        expect.objectContaining({
+          activeLoanId: 'loan-1',
+          amount: 1224,
+          paymentType: PaymentType.REFINANCE,
+        }),
+      ]);
+
+      // Pledges move over first; only the shortfall is topped up
+      expect(collateralService.transferCollateral).toHaveBeenCalledWith(
+        manager,
+        loan,
+        result.loan
+      );
+      expect(collateralService.lockRequiredCollateral).toHaveBeenCalledWith(
+        manager,
+        result.loan,
+        ['sol'],
+        1.5
+      );
+      expect(
+        collateralService.transferCollateral.mock.invocationCallOrder[0]
+      ).toBeLessThan(
+        collateralService.lockRequiredCollateral.mock.invocationCallOrder[0]
+      );
+      expect(collateralService.releaseCollateral).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an offer short of the payoff amount', async () => {
+      const request = await lendingService.requestRefinance(
+        'loan-1',
+        'borrower',
+        { interestRate: 0.08, duration: 180 }
+      );
+      rowsOf(LoanOffer).push(
+        Object.assign(new LoanOffer(), {
+          id: 'offer-1',
+          loanApplicationId: request.id,
+          lenderId: 'lender-new',
+          offeredAmount: 1000,
+          offeredInterestRate: 0.08,
+          status: LoanOfferStatus.PENDING,
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+          metadata: {},
+        })
+      );
+
+      await expect(
+        lendingService.acceptLoanOffer('offer-1', 'borrower')
+      ).rejects.toThrow('Failed to accept loan offer');
+      expect(loan.status).toBe(ActiveLoanStatus.ACTIVE);
+      expect(collateralService.transferCollateral).not.toHaveBeenCalled();
+    });
+  });
+});
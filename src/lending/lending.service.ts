@@ -1,116 +1,191 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, LessThan, Repository } from 'typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import {
   EncryptionService,
   LendingParams,
 } from '../encryption/encryption.service';
 import { SolanaService, LendingTransaction } from '../solana/solana.service';
+import {
+  LoanApplication,
+  LoanApplicationStatus,
+  RepaymentType,
+} from '../entities/loan-application.entity';
+import { LoanOffer, LoanOfferStatus } from '../entities/loan-offer.entity';
+import { ActiveLoan, ActiveLoanStatus } from '../entities/active-loan.entity';
+import {
+  LoanPayment,
+  PaymentStatus,
+  PaymentType,
+} from '../entities/loan-payment.entity';
+import { LoanParticipation } from '../entities/loan-participation.entity';
+import { AmortizationService, PaymentSchedule } from './amortization.service';
+import { DelinquencyService } from './delinquency.service';
+import { GovernanceService } from '../governance/governance.service';
+import { MonitoringService } from '../monitoring/monitoring.service';
+import { CollateralService } from '../collateral/collateral.service';
+
+export interface LoanApplicationParams extends Omit<LendingParams, 'lenderId'> {
+  repaymentType?: RepaymentType;
+  borrowTokenId: string;
+  collateralTokenIds: string[];
+}
 
-export interface LoanApplication {
-  id: string;
-  borrowerId: string;
-  amount: number;
-  interestRate: number;
-  duration: number;
-  collateralRatio: number;
-  status:
-    | 'pending'
-    | 'approved'
-    | 'rejected'
-    | 'active'
-    | 'repaid'
-    | 'defaulted';
-  encryptedParams: any;
-  riskAssessment?: {
-    riskScore: number;
-    approved: boolean;
-    maxAmount: number;
-  };
-  createdAt: Date;
-  updatedAt: Date;
+export interface LoanFundingResult {
+  offer: LoanOffer;
+  fundedAmount: number;
+  remainingAmount: number;
+  fullyFunded: boolean;
+  loan?: ActiveLoan;
 }
 
-export interface LoanOffer {
-  id: string;
+export interface LenderAllocation {
   lenderId: string;
-  loanApplicationId: string;
+  share: number;
+  principalAmount: number;
+  interestAmount: number;
+  feeAmount: number;
+}
+
+export interface OfferComparison {
+  rank: number;
+  offerId: string;
+  lenderId: string;
+  status: LoanOfferStatus;
   offeredAmount: number;
   offeredInterestRate: number;
-  terms: string;
-  status: 'pending' | 'accepted' | 'rejected' | 'expired';
-  createdAt: Date;
+  effectiveApr: number;
+  totalCostOfCredit: number;
+  totalRepayment: number;
+  averageMonthlyPayment: number;
+  maxMonthlyPayment: number; // largest scheduled payment, e.g. a balloon
   expiresAt: Date;
+  terms: string;
 }
 
-export interface ActiveLoan {
-  id: string;
-  loanApplicationId: string;
-  borrowerId: string;
-  lenderId: string;
-  principalAmount: number;
-  interestRate: number;
-  remainingAmount: number;
-  nextPaymentDate: Date;
-  totalPayments: number;
-  completedPayments: number;
-  status: 'active' | 'repaid' | 'defaulted';
-  createdAt: Date;
+export interface PayoffQuote {
+  loanId: string;
+  payoffDate: Date;
+  outstandingPrincipal: number;
+  accruedInterest: number;
+  prepaymentPenalty: number;
+  outstandingLateFees: number;
+  totalPayoff: number;
 }
 
 @Injectable()
 export class LendingService {
   private readonly logger = new Logger(LendingService.name);
-  private loanApplications: Map<string, LoanApplication> = new Map();
-  private loanOffers: Map<string, LoanOffer> = new Map();
-  private activeLoans: Map<string, ActiveLoan> = new Map();
 
   constructor(
+    @InjectRepository(LoanApplication)
+    private loanApplicationRepository: Repository<LoanApplication>,
+    @InjectRepository(LoanOffer)
+    private loanOfferRepository: Repository<LoanOffer>,
+    @InjectRepository(ActiveLoan)
+    private activeLoanRepository: Repository<ActiveLoan>,
+    @InjectRepository(LoanPayment)
+    private loanPaymentRepository: Repository<LoanPayment>,
+    @InjectRepository(LoanParticipation)
+    private loanParticipationRepository: Repository<LoanParticipation>,
+    private readonly dataSource: DataSource,
     private readonly encryptionService: EncryptionService,
-    private readonly solanaService: SolanaService
+    private readonly solanaService: SolanaService,
+    private readonly amortizationService: AmortizationService,
+    private readonly delinquencyService: DelinquencyService,
+    private readonly governanceService: GovernanceService,
+    private readonly monitoringService: MonitoringService,
+    private readonly collateralService: CollateralService
   ) {}
 
   /**
    * Submit a loan application with encrypted parameters
    */
   async submitLoanApplication(
-    params: Omit<LendingParams, 'lenderId'>
+    params: LoanApplicationParams
   ): Promise<LoanApplication> {
     try {
-      const applicationId = this.generateId();
+      await this.collateralService.validateLoanTokens(
+        params.borrowTokenId,
+        params.collateralTokenIds
+      );
 
-      // Encrypt the lending parameters
-      const encryptedParams =
-        await this.encryptionService.encryptLendingParams(params);
+      return await this.createLoanApplication(params);
+    } catch (error) {
+      this.logger.error('Failed to submit loan application', error);
+      throw new Error('Loan application submission failed');
+    }
+  }
 
-      // Perform encrypted risk assessment
-      const riskAssessment =
-        await this.encryptionService.performEncryptedRiskAssessment(
-          encryptedParams
-        );
+  /**
+   * Open a refinance request against an active loan. The request is a loan
+   * application for the loan's current payoff amount on the new terms;
+   * lenders make offers on it like any other application.
+   */
+  async requestRefinance(
+    loanId: string,
+    borrowerId: string,
+    terms: {
+      interestRate: number;
+      duration: number;
+      repaymentType?: RepaymentType;
+    }
+  ): Promise<LoanApplication> {
+    try {
+      const loan = await this.activeLoanRepository.findOne({
+        where: { id: loanId },
+        relations: ['loanApplication'],
+      });
+      if (!loan || loan.borrowerId !== borrowerId) {
+        throw new Error('Unauthorized or loan not found');
+      }
 
-      const loanApplication: LoanApplication = {
-        id: applicationId,
-        borrowerId: params.borrowerId,
-        amount: params.amount,
-        interestRate: params.interestRate,
-        duration: params.duration,
-        collateralRatio: params.collateralRatio,
-        status: riskAssessment.approved ? 'approved' : 'rejected',
-        encryptedParams,
-        riskAssessment,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+      if (loan.status !== ActiveLoanStatus.ACTIVE) {
+        throw new Error('Only active loans can be refinanced');
+      }
+
+      const openRequestId = loan.metadata?.refinanceRequestId;
+      if (openRequestId) {
+        const openRequest = await this.loanApplicationRepository.findOne({
+          where: { id: openRequestId },
+        });
+        if (openRequest?.status === LoanApplicationStatus.APPROVED) {
+          throw new Error('Loan already has an open refinance request');
+        }
+      }
+
+      const quote = this.calculatePayoffQuote(loan, new Date());
 
-      this.loanApplications.set(applicationId, loanApplication);
+      const application = await this.createLoanApplication(
+        {
+          borrowerId,
+          amount: quote.totalPayoff,
+          interestRate: terms.interestRate,
+          duration: terms.duration,
+          collateralRatio: loan.loanApplication.collateralRatio,
+          borrowTokenId: loan.loanApplication.borrowTokenId,
+          collateralTokenIds: loan.loanApplication.collateralTokenIds,
+          repaymentType:
+            terms.repaymentType || loan.loanApplication.repaymentType,
+        },
+        { refinance: { loanId: loan.id, quote } }
+      );
+
+      loan.metadata = {
+        ...(loan.metadata || {}),
+        refinanceRequestId: application.id,
+      };
+      await this.activeLoanRepository.save(loan);
 
       this.logger.log(
-        `Loan application submitted: ${applicationId}, Status: ${loanApplication.status}`
+        `Refinance requested for loan ${loanId}: application ${application.id}`
       );
 
-      return loanApplication;
+      return application;
     } catch (error) {
-      this.logger.error('Failed to submit loan application', error);
-      throw new Error('Loan application submission failed');
+      this.logger.error('Failed to request refinance', error);
+      throw new Error('Refinance request failed');
     }
   }
 
@@ -126,38 +201,38 @@ export class LendingService {
     expiresInHours: number = 24
   ): Promise<LoanOffer> {
     try {
-      const application = this.loanApplications.get(loanApplicationId);
+      const application = await this.loanApplicationRepository.findOne({
+        where: { id: loanApplicationId },
+      });
       if (!application) {
         throw new Error('Loan application not found');
       }
 
-      if (application.status !== 'approved') {
+      if (application.status !== LoanApplicationStatus.APPROVED) {
         throw new Error('Cannot create offer for non-approved application');
       }
 
-      const offerId = this.generateId();
       const expiresAt = new Date();
       expiresAt.setHours(expiresAt.getHours() + expiresInHours);
 
-      const loanOffer: LoanOffer = {
-        id: offerId,
+      const loanOffer = this.loanOfferRepository.create({
         lenderId,
         loanApplicationId,
+        borrowTokenId: application.borrowTokenId,
         offeredAmount,
         offeredInterestRate,
         terms,
-        status: 'pending',
-        createdAt: new Date(),
+        status: LoanOfferStatus.PENDING,
         expiresAt,
-      };
+      });
 
-      this.loanOffers.set(offerId, loanOffer);
+      const savedOffer = await this.loanOfferRepository.save(loanOffer);
 
       this.logger.log(
-        `Loan offer created: ${offerId} for application: ${loanApplicationId}`
+        `Loan offer created: ${savedOffer.id} for application: ${loanApplicationId}`
       );
 
-      return loanOffer;
+      return savedOffer;
     } catch (error) {
       this.logger.error('Failed to create loan offer', error);
       throw new Error('Loan offer creation failed');
@@ -165,69 +240,302 @@ export class LendingService {
   }
 
   /**
-   * Accept a loan offer and create an active loan
+   * Accept a loan offer towards funding an application. Offers are
+   * committed until the application amount is covered, at which point a
+   * single loan syndicated across the committed lenders is originated.
+   * Each acceptance commits or rolls back in one transaction.
    */
   async acceptLoanOffer(
     offerId: string,
     borrowerId: string
-  ): Promise<ActiveLoan> {
+  ): Promise<LoanFundingResult> {
     try {
-      const offer = this.loanOffers.get(offerId);
-      if (!offer) {
-        throw new Error('Loan offer not found');
-      }
+      const result = await this.dataSource.transaction(async (manager) => {
+        const offer = await manager.findOne(LoanOffer, {
+          where: { id: offerId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!offer) {
+          throw new Error('Loan offer not found');
+        }
 
-      if (offer.status !== 'pending') {
-        throw new Error('Offer is no longer available');
-      }
+        if (offer.status !== LoanOfferStatus.PENDING) {
+          throw new Error('Offer is no longer available');
+        }
+
+        if (new Date() > offer.expiresAt) {
+          // Commit the expiry instead of rolling it back with an error
+          offer.status = LoanOfferStatus.EXPIRED;
+          await manager.save(offer);
+          return null;
+        }
+
+        const application = await manager.findOne(LoanApplication, {
+          where: { id: offer.loanApplicationId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!application || application.borrowerId !== borrowerId) {
+          throw new Error('Unauthorized or application not found');
+        }
 
-      if (new Date() > offer.expiresAt) {
-        offer.status = 'expired';
+        if (application.status !== LoanApplicationStatus.APPROVED) {
+          throw new Error('Loan application is not open for offers');
+        }
+
+        if (application.metadata?.refinance) {
+          return this.refinanceWithOffer(manager, application, offer);
+        }
+
+        const committedOffers = await manager.find(LoanOffer, {
+          where: {
+            loanApplicationId: application.id,
+            status: LoanOfferStatus.ACCEPTED,
+          },
+          order: { updatedAt: 'ASC' },
+        });
+        const requestedAmount = Number(application.amount);
+        const fundedBefore = this.sumCommitted(committedOffers);
+        const committedAmount = Math.min(
+          Number(offer.offeredAmount),
+          this.roundCurrency(requestedAmount - fundedBefore)
+        );
+
+        offer.status = LoanOfferStatus.ACCEPTED;
+        offer.metadata = { ...(offer.metadata || {}), committedAmount };
+        await manager.save(offer);
+
+        const fundedAmount = this.roundCurrency(fundedBefore + committedAmount);
+        const remainingAmount = this.roundCurrency(
+          requestedAmount - fundedAmount
+        );
+
+        if (remainingAmount > 0) {
+          return {
+            offer,
+            fundedAmount,
+            remainingAmount,
+            fullyFunded: false,
+          };
+        }
+
+        await this.collateralService.assertTokensActive(
+          [
+            application.borrowTokenId,
+            ...(application.collateralTokenIds || []),
+          ],
+          manager
+        );
+        const loan = await this.originateSyndicatedLoan(manager, application, [
+          ...committedOffers,
+          offer,
+        ]);
+        await this.collateralService.lockRequiredCollateral(
+          manager,
+          loan,
+          application.collateralTokenIds,
+          Number(application.collateralRatio)
+        );
+        await manager.save(loan);
+
+        await this.rejectPendingOffers(manager, offer.loanApplicationId);
+
+        application.status = LoanApplicationStatus.ACTIVE;
+        await manager.save(application);
+
+        return {
+          offer,
+          fundedAmount,
+          remainingAmount,
+          fullyFunded: true,
+          loan,
+        };
+      });
+
+      if (!result) {
         throw new Error('Offer has expired');
       }
 
-      const application = this.loanApplications.get(offer.loanApplicationId);
-      if (!application || application.borrowerId !== borrowerId) {
-        throw new Error('Unauthorized or application not found');
+      this.logger.log(
+        result.loan
+          ? `Loan offer accepted: ${offerId}, Active loan created: ${result.loan.id}`
+          : `Loan offer accepted: ${offerId}, Remaining to fund: ${result.remainingAmount}`
+      );
+
+      const refinancedLoanId = result.loan?.metadata?.refinancedFrom;
+      if (refinancedLoanId) {
+        await this.monitoringService.trackLoanEvent(
+          refinancedLoanId,
+          'loan_refinanced',
+          { newLoanId: result.loan.id, payoffAmount: result.fundedAmount }
+        );
       }
 
-      // Create active loan
-      const loanId = this.generateId();
-      const nextPaymentDate = new Date();
-      nextPaymentDate.setMonth(nextPaymentDate.getMonth() + 1); // Monthly payments
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to accept loan offer', error);
+      throw new Error('Failed to accept loan offer');
+    }
+  }
+
+  /**
+   * Rank the offers on an application by effective APR, total cost of
+   * credit and largest scheduled payment over the application's term
+   */
+  async getApplicationOfferComparison(
+    applicationId: string,
+    borrowerId: string
+  ): Promise<OfferComparison[]> {
+    const application = await this.loanApplicationRepository.findOne({
+      where: { id: applicationId },
+    });
+    if (!application || application.borrowerId !== borrowerId) {
+      throw new Error('Unauthorized or application not found');
+    }
 
-      const activeLoan: ActiveLoan = {
-        id: loanId,
-        loanApplicationId: offer.loanApplicationId,
-        borrowerId,
+    const offers = await this.loanOfferRepository.find({
+      where: { loanApplicationId: applicationId },
+    });
+
+    const comparisons = offers.map((offer) => {
+      const schedule = this.amortizationService.generateSchedule({
+        principal: offer.offeredAmount,
+        annualInterestRate: offer.offeredInterestRate,
+        durationDays: application.duration,
+        repaymentType: application.repaymentType,
+      });
+      const payments = schedule.installments.map(
+        (installment) => installment.payment
+      );
+
+      return {
+        rank: 0,
+        offerId: offer.id,
         lenderId: offer.lenderId,
-        principalAmount: offer.offeredAmount,
-        interestRate: offer.offeredInterestRate,
-        remainingAmount: offer.offeredAmount,
-        nextPaymentDate,
-        totalPayments: application.duration / 30, // Assuming monthly payments
-        completedPayments: 0,
-        status: 'active',
-        createdAt: new Date(),
+        status: offer.status,
+        offeredAmount: Number(offer.offeredAmount),
+        offeredInterestRate: Number(offer.offeredInterestRate),
+        effectiveApr: this.amortizationService.calculateEffectiveApr(
+          offer.offeredInterestRate
+        ),
+        totalCostOfCredit: schedule.totalInterest,
+        totalRepayment: schedule.totalPayment,
+        averageMonthlyPayment: this.roundCurrency(
+          schedule.totalPayment / payments.length
+        ),
+        maxMonthlyPayment: Math.max(...payments),
+        expiresAt: offer.expiresAt,
+        terms: offer.terms,
       };
+    });
 
-      this.activeLoans.set(loanId, activeLoan);
+    comparisons.sort(
+      (a, b) =>
+        a.effectiveApr - b.effectiveApr ||
+        a.totalCostOfCredit - b.totalCostOfCredit ||
+        a.maxMonthlyPayment - b.maxMonthlyPayment
+    );
+    comparisons.forEach((comparison, index) => {
+      comparison.rank = index + 1;
+    });
 
-      // Update offer status
-      offer.status = 'accepted';
+    return comparisons;
+  }
+
+  /**
+   * Cancel a pending offer on behalf of the lender who made it
+   */
+  async cancelLoanOffer(offerId: string, lenderId: string): Promise<LoanOffer> {
+    try {
+      const offer = await this.loanOfferRepository.findOne({
+        where: { id: offerId },
+      });
+      if (!offer || offer.lenderId !== lenderId) {
+        throw new Error('Unauthorized or offer not found');
+      }
 
-      // Update application status
-      application.status = 'active';
-      application.updatedAt = new Date();
+      if (offer.status !== LoanOfferStatus.PENDING) {
+        throw new Error('Only pending offers can be cancelled');
+      }
 
-      this.logger.log(
-        `Loan offer accepted: ${offerId}, Active loan created: ${loanId}`
+      offer.status = LoanOfferStatus.CANCELLED;
+      const savedOffer = await this.loanOfferRepository.save(offer);
+
+      this.logger.log(`Loan offer cancelled: ${offerId} by lender`);
+
+      return savedOffer;
+    } catch (error) {
+      this.logger.error('Failed to cancel loan offer', error);
+      throw new Error('Loan offer cancellation failed');
+    }
+  }
+
+  /**
+   * Reject a pending offer on behalf of the borrower it was made to
+   */
+  async rejectLoanOffer(
+    offerId: string,
+    borrowerId: string,
+    reason?: string
+  ): Promise<LoanOffer> {
+    try {
+      const offer = await this.loanOfferRepository.findOne({
+        where: { id: offerId },
+        relations: ['loanApplication'],
+      });
+      if (!offer || offer.loanApplication?.borrowerId !== borrowerId) {
+        throw new Error('Unauthorized or offer not found');
+      }
+
+      if (offer.status !== LoanOfferStatus.PENDING) {
+        throw new Error('Only pending offers can be rejected');
+      }
+
+      offer.status = LoanOfferStatus.REJECTED;
+      offer.message = reason || null;
+      const savedOffer = await this.loanOfferRepository.save(offer);
+
+      this.logger.log(`Loan offer rejected: ${offerId} by borrower`);
+
+      return savedOffer;
+    } catch (error) {
+      this.logger.error('Failed to reject loan offer', error);
+      throw new Error('Loan offer rejection failed');
+    }
+  }
+
+  /**
+   * Scheduled offer expiry sweep - runs every 10 minutes
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async expireStaleOffers(): Promise<number> {
+    try {
+      const staleOffers = await this.loanOfferRepository.find({
+        select: ['id'],
+        where: {
+          status: LoanOfferStatus.PENDING,
+          expiresAt: LessThan(new Date()),
+        },
+      });
+
+      if (staleOffers.length === 0) {
+        return 0;
+      }
+
+      // Re-check status so an offer accepted mid-sweep is left alone
+      await this.loanOfferRepository.update(
+        {
+          id: In(staleOffers.map((offer) => offer.id)),
+          status: LoanOfferStatus.PENDING,
+        },
+        { status: LoanOfferStatus.EXPIRED }
       );
 
-      return activeLoan;
+      this.logger.log(`Expired ${staleOffers.length} stale loan offers`);
+
+      return staleOffers.length;
     } catch (error) {
-      this.logger.error('Failed to accept loan offer', error);
-      throw new Error('Failed to accept loan offer');
+      this.logger.error('Failed to expire stale loan offers', error);
+      return 0;
     }
   }
 
@@ -237,112 +545,383 @@ export class LendingService {
   async processLoanPayment(
     loanId: string,
     paymentAmount: number,
-    borrowerSecretKey: string
-  ): Promise<{ transaction: LendingTransaction; loan: ActiveLoan }> {
+    borrowerId: string
+  ): Promise<{
+    transactions: LendingTransaction[];
+    loan: ActiveLoan;
+    payment: LoanPayment;
+  }> {
     try {
-      const loan = this.activeLoans.get(loanId);
-      if (!loan) {
-        throw new Error('Active loan not found');
-      }
+      const timestamp = new Date();
+      const transactionHash = this.encryptionService.generateTransactionHash({
+        loanId,
+        paymentAmount,
+        timestamp,
+      });
 
-      if (loan.status !== 'active') {
-        throw new Error('Loan is not active');
-      }
+      const { loan, payment } = await this.dataSource.transaction(
+        async (manager) => {
+          const loan = await manager.findOne(ActiveLoan, {
+            where: { id: loanId },
+            lock: { mode: 'pessimistic_write' },
+          });
+          if (!loan || loan.borrowerId !== borrowerId) {
+            throw new Error('Unauthorized or loan not found');
+          }
 
-      // Calculate payment details
-      const monthlyInterest = (loan.remainingAmount * loan.interestRate) / 12;
-      const principalPayment = paymentAmount - monthlyInterest;
-      const newRemainingAmount = Math.max(
-        0,
-        loan.remainingAmount - principalPayment
-      );
+          if (loan.status !== ActiveLoanStatus.ACTIVE) {
+            throw new Error('Loan is not active');
+          }
 
-      // Update loan
-      loan.remainingAmount = newRemainingAmount;
-      loan.completedPayments += 1;
-      loan.nextPaymentDate = new Date();
-      loan.nextPaymentDate.setMonth(loan.nextPaymentDate.getMonth() + 1);
+          const delinquency = this.delinquencyService.getDelinquencyState(loan);
+          const split = this.splitPayment(
+            loan,
+            paymentAmount,
+            timestamp,
+            delinquency.outstandingLateFees
+          );
+          const newRemainingAmount = this.roundCurrency(
+            Number(loan.remainingAmount) - split.principalAmount
+          );
+          const lenderAllocations = await this.allocateToLenders(
+            manager,
+            loan,
+            {
+              principalAmount: split.principalAmount,
+              interestAmount: split.interestAmount,
+              feeAmount: split.lateFee,
+            }
+          );
 
-      if (newRemainingAmount <= 0) {
-        loan.status = 'repaid';
-      }
+          const payment = await manager.save(
+            manager.create(LoanPayment, {
+              activeLoanId: loan.id,
+              amount: paymentAmount,
+              principalAmount: split.principalAmount,
+              interestAmount: split.interestAmount,
+              lateFee: split.lateFee,
+              paymentType: split.paymentType,
+              status: PaymentStatus.COMPLETED,
+              paymentDate: timestamp,
+              processedAt: timestamp,
+              transactionHash,
+              metadata: {
+                installmentNumber: loan.completedPayments + 1,
+                remainingAmount: newRemainingAmount,
+                lenderAllocations,
+              },
+            })
+          );
+
+          if (split.lateFee > 0) {
+            delinquency.outstandingLateFees = this.roundCurrency(
+              delinquency.outstandingLateFees - split.lateFee
+            );
+            loan.metadata = { ...(loan.metadata || {}), delinquency };
+
+            // Assessed late fees are settled once the balance is cleared
+            if (delinquency.outstandingLateFees <= 0) {
+              await manager.update(
+                LoanPayment,
+                {
+                  activeLoanId: loan.id,
+                  paymentType: PaymentType.LATE_FEE,
+                  status: PaymentStatus.PENDING,
+                },
+                { status: PaymentStatus.COMPLETED, processedAt: timestamp }
+              );
+            }
+          }
+
+          // Update loan
+          const completedPayments = loan.completedPayments;
+          this.creditInstallments(
+            loan,
+            this.roundCurrency(split.principalAmount + split.interestAmount)
+          );
+          loan.remainingAmount = newRemainingAmount;
+          loan.lastPaymentDate = timestamp;
+          if (loan.completedPayments !== completedPayments) {
+            loan.nextPaymentDate = this.getNextDueDate(loan);
+          }
+
+          if (newRemainingAmount <= 0) {
+            loan.status = ActiveLoanStatus.REPAID;
+            await this.collateralService.releaseCollateral(manager, loan);
+            await manager.update(LoanApplication, loan.loanApplicationId, {
+              status: LoanApplicationStatus.COMPLETED,
+            });
+          }
+
+          return { loan: await manager.save(loan), payment };
+        }
+      );
 
       // In a real implementation, you would transfer tokens here
-      // For now, we'll simulate the transaction
-      const transaction: LendingTransaction = {
-        signature: this.generateId(),
-        from: 'borrower',
-        to: 'lender',
-        amount: paymentAmount,
-        timestamp: new Date(),
-      };
+      // For now, we'll simulate the transactions
+      const transactions = this.toLenderTransactions(
+        transactionHash,
+        loan.borrowerId,
+        payment.metadata.lenderAllocations,
+        timestamp
+      );
+
+      if (loan.status === ActiveLoanStatus.REPAID) {
+        await this.monitoringService.trackLoanEvent(
+          loan.id,
+          'collateral_released',
+          { collateralValue: loan.collateralValue }
+        );
+      }
 
       this.logger.log(
-        `Loan payment processed: ${loanId}, Amount: ${paymentAmount}`
+        `Loan payment processed: ${loanId}, Amount: ${paymentAmount}, Payment: ${payment.id}`
       );
 
-      return { transaction, loan };
+      return { transactions, loan, payment };
     } catch (error) {
       this.logger.error('Failed to process loan payment', error);
       throw new Error('Loan payment processing failed');
     }
   }
 
+  /**
+   * Quote the amount needed to close a loan on a given date
+   */
+  async getPayoffQuote(
+    loanId: string,
+    userId: string,
+    payoffDate: Date = new Date()
+  ): Promise<PayoffQuote> {
+    const loan = await this.findLoanForUser(loanId, userId);
+
+    if (loan.status !== ActiveLoanStatus.ACTIVE) {
+      throw new Error('Loan is not active');
+    }
+
+    return this.calculatePayoffQuote(loan, payoffDate);
+  }
+
+  /**
+   * Repay a loan in full ahead of schedule and release its collateral
+   */
+  async processEarlyRepayment(
+    loanId: string,
+    borrowerId: string,
+    paymentAmount: number
+  ): Promise<{
+    transactions: LendingTransaction[];
+    loan: ActiveLoan;
+    payment: LoanPayment;
+    quote: PayoffQuote;
+  }> {
+    try {
+      const timestamp = new Date();
+      const transactionHash = this.encryptionService.generateTransactionHash({
+        loanId,
+        paymentAmount,
+        timestamp,
+        type: PaymentType.EARLY_REPAYMENT,
+      });
+
+      const { loan, payment, quote } = await this.dataSource.transaction(
+        async (manager) => {
+          const loan = await manager.findOne(ActiveLoan, {
+            where: { id: loanId },
+            lock: { mode: 'pessimistic_write' },
+          });
+          if (!loan || loan.borrowerId !== borrowerId) {
+            throw new Error('Unauthorized or loan not found');
+          }
+
+          if (loan.status !== ActiveLoanStatus.ACTIVE) {
+            throw new Error('Loan is not active');
+          }
+
+          const quote = this.calculatePayoffQuote(loan, timestamp);
+          if (paymentAmount < quote.totalPayoff) {
+            throw new Error('Payment does not cover the payoff amount');
+          }
+
+          const payment = await this.settleLoan(
+            manager,
+            loan,
+            quote,
+            PaymentType.EARLY_REPAYMENT,
+            transactionHash
+          );
+          await this.collateralService.releaseCollateral(manager, loan);
+
+          return { loan: await manager.save(loan), payment, quote };
+        }
+      );
+
+      const transactions = this.toLenderTransactions(
+        transactionHash,
+        loan.borrowerId,
+        payment.metadata.lenderAllocations,
+        timestamp
+      );
+
+      await this.monitoringService.trackLoanEvent(
+        loan.id,
+        'loan_repaid_early',
+        {
+          amount: quote.totalPayoff,
+          prepaymentPenalty: quote.prepaymentPenalty,
+        }
+      );
+      await this.monitoringService.trackLoanEvent(
+        loan.id,
+        'collateral_released',
+        { collateralValue: loan.collateralValue }
+      );
+
+      this.logger.log(
+        `Loan repaid early: ${loanId}, Amount: ${quote.totalPayoff}, Payment: ${payment.id}`
+      );
+
+      return { transactions, loan, payment, quote };
+    } catch (error) {
+      this.logger.error('Failed to process early repayment', error);
+      throw new Error('Early repayment failed');
+    }
+  }
+
+  /**
+   * Get the payment history for a loan
+   */
+  async getLoanPayments(
+    loanId: string,
+    userId: string
+  ): Promise<LoanPayment[]> {
+    await this.findLoanForUser(loanId, userId);
+
+    return this.loanPaymentRepository.find({
+      where: { activeLoanId: loanId },
+      order: { paymentDate: 'DESC' },
+    });
+  }
+
+  /**
+   * Get the repayment schedule for a loan
+   */
+  async getLoanSchedule(
+    loanId: string,
+    userId: string
+  ): Promise<PaymentSchedule> {
+    const loan = await this.findLoanForUser(loanId, userId, [
+      'loanApplication',
+    ]);
+
+    if (loan.paymentSchedule) {
+      return loan.paymentSchedule;
+    }
+
+    // Loans originated before schedules were stored get one derived on read
+    return this.amortizationService.generateSchedule({
+      principal: loan.principalAmount,
+      annualInterestRate: loan.interestRate,
+      durationDays: loan.loanApplication.duration,
+      repaymentType: loan.loanApplication.repaymentType,
+      startDate: loan.createdAt,
+    });
+  }
+
   /**
    * Get loan applications for a borrower
    */
   async getBorrowerApplications(
     borrowerId: string
   ): Promise<LoanApplication[]> {
-    const applications = Array.from(this.loanApplications.values())
-      .filter((app) => app.borrowerId === borrowerId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-
-    return applications;
+    return this.loanApplicationRepository.find({
+      where: { borrowerId },
+      relations: ['borrowToken'],
+      order: { createdAt: 'DESC' },
+    });
   }
 
   /**
    * Get loan offers for a lender
    */
   async getLenderOffers(lenderId: string): Promise<LoanOffer[]> {
-    const offers = Array.from(this.loanOffers.values())
-      .filter((offer) => offer.lenderId === lenderId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-
-    return offers;
+    return this.loanOfferRepository.find({
+      where: { lenderId },
+      relations: ['borrowToken'],
+      order: { createdAt: 'DESC' },
+    });
   }
 
   /**
    * Get active loans for a user (borrower or lender)
    */
   async getUserActiveLoans(userId: string): Promise<ActiveLoan[]> {
-    const loans = Array.from(this.activeLoans.values())
-      .filter((loan) => loan.borrowerId === userId || loan.lenderId === userId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const participations = await this.loanParticipationRepository.find({
+      select: ['activeLoanId'],
+      where: { lenderId: userId },
+    });
+    const participatingLoanIds = participations.map(
+      (participation) => participation.activeLoanId
+    );
+
+    return this.activeLoanRepository.find({
+      where: [
+        { borrowerId: userId },
+        { lenderId: userId },
+        ...(participatingLoanIds.length > 0
+          ? [{ id: In(participatingLoanIds) }]
+          : []),
+      ],
+      relations: ['borrowToken'],
+      order: { createdAt: 'DESC' },
+    });
+  }
 
-    return loans;
+  /**
+   * Get each lender's share of a loan
+   */
+  async getLoanParticipations(
+    loanId: string,
+    userId: string
+  ): Promise<LoanParticipation[]> {
+    await this.findLoanForUser(loanId, userId);
+
+    return this.loanParticipationRepository.find({
+      where: { activeLoanId: loanId },
+      order: { principalAmount: 'DESC' },
+    });
   }
 
   /**
    * Get all available loan applications for lenders to browse
    */
   async getAvailableLoanApplications(): Promise<LoanApplication[]> {
-    const applications = Array.from(this.loanApplications.values())
-      .filter((app) => app.status === 'approved')
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-
-    return applications;
+    return this.loanApplicationRepository.find({
+      where: { status: LoanApplicationStatus.APPROVED },
+      relations: ['borrowToken'],
+      order: { createdAt: 'DESC' },
+    });
   }
 
   /**
-   * Get loan application details (without sensitive encrypted data)
+   * Get loan application details (without sensitive encrypted data).
+   * Applications open for offers are visible to everyone; others only to
+   * their borrower.
    */
   async getLoanApplicationDetails(
-    applicationId: string
+    applicationId: string,
+    userId: string
   ): Promise<Partial<LoanApplication>> {
-    const application = this.loanApplications.get(applicationId);
-    if (!application) {
-      throw new Error('Loan application not found');
+    const application = await this.loanApplicationRepository.findOne({
+      where: { id: applicationId },
+      relations: ['borrowToken'],
+    });
+    if (
+      !application ||
+      (application.borrowerId !== userId &&
+        application.status !== LoanApplicationStatus.APPROVED)
+    ) {
+      throw new Error('Unauthorized or application not found');
     }
 
     // Return application without encrypted params for security
@@ -351,10 +930,587 @@ export class LendingService {
   }
 
   /**
-   * Generate a unique ID
+   * Encrypt the application parameters, run the encrypted risk
+   * assessment and persist the resulting application
+   */
+  private async createLoanApplication(
+    params: LoanApplicationParams,
+    metadata?: any
+  ): Promise<LoanApplication> {
+    // Encrypt the lending parameters
+    const encryptedParams =
+      await this.encryptionService.encryptLendingParams(params);
+
+    // Perform encrypted risk assessment
+    const riskAssessment =
+      await this.encryptionService.performEncryptedRiskAssessment(
+        encryptedParams
+      );
+
+    const loanApplication = this.loanApplicationRepository.create({
+      borrowerId: params.borrowerId,
+      amount: params.amount,
+      interestRate: params.interestRate,
+      duration: params.duration,
+      collateralRatio: params.collateralRatio,
+      borrowTokenId: params.borrowTokenId,
+      collateralTokenIds: params.collateralTokenIds,
+      repaymentType: params.repaymentType || RepaymentType.EQUAL_INSTALLMENT,
+      status: riskAssessment.approved
+        ? LoanApplicationStatus.APPROVED
+        : LoanApplicationStatus.REJECTED,
+      encryptedParams,
+      riskAssessment,
+      riskScore: riskAssessment.riskScore,
+      isApproved: riskAssessment.approved,
+      rejectionReason: riskAssessment.approved
+        ? null
+        : 'Risk assessment threshold not met',
+      metadata,
+    });
+
+    const savedApplication =
+      await this.loanApplicationRepository.save(loanApplication);
+
+    this.logger.log(
+      `Loan application submitted: ${savedApplication.id}, Status: ${savedApplication.status}`
+    );
+
+    return savedApplication;
+  }
+
+  /**
+   * Load a loan the user borrowed or holds a share of
+   */
+  private async findLoanForUser(
+    loanId: string,
+    userId: string,
+    relations: string[] = []
+  ): Promise<ActiveLoan> {
+    const loan = await this.activeLoanRepository.findOne({
+      where: { id: loanId },
+      relations,
+    });
+    if (!loan) {
+      throw new Error('Unauthorized or loan not found');
+    }
+
+    if (loan.borrowerId === userId || loan.lenderId === userId) {
+      return loan;
+    }
+
+    const participation = await this.loanParticipationRepository.findOne({
+      where: { activeLoanId: loanId, lenderId: userId },
+    });
+    if (!participation) {
+      throw new Error('Unauthorized or loan not found');
+    }
+
+    return loan;
+  }
+
+  /**
+   * Credit the installment part of a payment to the loan's installments.
+   * Only installments whose scheduled payment is fully covered count as
+   * completed payments.
+   */
+  private creditInstallments(loan: ActiveLoan, amount: number): void {
+    const schedule = loan.paymentSchedule;
+    if (schedule?.installments) {
+      const installments = this.amortizationService.applyPayment(
+        schedule.installments,
+        amount
+      );
+      loan.paymentSchedule = { ...schedule, installments };
+      loan.completedPayments = installments.filter((installment) =>
+        this.amortizationService.isInstallmentPaid(installment)
+      ).length;
+      return;
+    }
+
+    // Without a stored schedule only the current installment is tracked
+    const payment =
+      this.delinquencyService.getUnscheduledInstallmentPayment(loan);
+    let installmentPaid = this.roundCurrency(
+      Number(loan.metadata?.installmentPaid || 0) + amount
+    );
+    if (installmentPaid >= payment) {
+      loan.completedPayments += 1;
+      installmentPaid = 0;
+    }
+    loan.metadata = { ...(loan.metadata || {}), installmentPaid };
+  }
+
+  /**
+   * Due date of the next unpaid installment, falling back to one month out
+   */
+  private getNextDueDate(loan: ActiveLoan): Date {
+    const installments = loan.paymentSchedule?.installments;
+    if (installments && loan.completedPayments < installments.length) {
+      return new Date(installments[loan.completedPayments].dueDate);
+    }
+
+    const nextPaymentDate = new Date();
+    nextPaymentDate.setMonth(nextPaymentDate.getMonth() + 1);
+    return nextPaymentDate;
+  }
+
+  /**
+   * Originate one loan funded by the committed offers, priced at their
+   * amount-weighted interest rate. The largest tranche is the lead lender.
+   */
+  private async originateSyndicatedLoan(
+    manager: EntityManager,
+    application: LoanApplication,
+    offers: LoanOffer[]
+  ): Promise<ActiveLoan> {
+    const tranches = offers.map((offer) => ({
+      offer,
+      amount: this.getCommittedAmount(offer),
+    }));
+    const principal = this.roundCurrency(
+      tranches.reduce((sum, tranche) => sum + tranche.amount, 0)
+    );
+    const interestRate =
+      Math.round(
+        (tranches.reduce(
+          (sum, tranche) =>
+            sum + tranche.amount * Number(tranche.offer.offeredInterestRate),
+          0
+        ) /
+          principal) *
+          1e4
+      ) / 1e4;
+    const lead = tranches.reduce((largest, tranche) =>
+      tranche.amount > largest.amount ? tranche : largest
+    );
+
+    const schedule = this.amortizationService.generateSchedule({
+      principal,
+      annualInterestRate: interestRate,
+      durationDays: application.duration,
+      repaymentType: application.repaymentType,
+    });
+
+    const loan = await manager.save(
+      manager.create(ActiveLoan, {
+        loanApplicationId: application.id,
+        borrowerId: application.borrowerId,
+        lenderId: lead.offer.lenderId,
+        borrowTokenId: application.borrowTokenId,
+        principalAmount: principal,
+        interestRate,
+        remainingAmount: principal,
+        nextPaymentDate: schedule.installments[0].dueDate,
+        totalPayments: schedule.termMonths,
+        completedPayments: 0,
+        status: ActiveLoanStatus.ACTIVE,
+        maturityDate: schedule.maturityDate,
+        paymentSchedule: schedule,
+        metadata: { syndicated: tranches.length > 1 },
+      })
+    );
+
+    await manager.save(
+      tranches.map((tranche) =>
+        manager.create(LoanParticipation, {
+          activeLoanId: loan.id,
+          lenderId: tranche.offer.lenderId,
+          loanOfferId: tranche.offer.id,
+          principalAmount: tranche.amount,
+          interestRate: tranche.offer.offeredInterestRate,
+          share: Math.round((tranche.amount / principal) * 1e8) / 1e8,
+        })
+      )
+    );
+
+    return loan;
+  }
+
+  /**
+   * Split a payment between a loan's lenders pro rata to their shares and
+   * update each participation's running totals. The last lender absorbs
+   * rounding so the allocations always sum to the payment.
+   */
+  private async allocateToLenders(
+    manager: EntityManager,
+    loan: ActiveLoan,
+    amounts: {
+      principalAmount: number;
+      interestAmount: number;
+      feeAmount: number;
+    }
+  ): Promise<LenderAllocation[]> {
+    const participations = await manager.find(LoanParticipation, {
+      where: { activeLoanId: loan.id },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+
+    if (participations.length === 0) {
+      return [{ lenderId: loan.lenderId, share: 1, ...amounts }];
+    }
+
+    const allocated = { principalAmount: 0, interestAmount: 0, feeAmount: 0 };
+    const allocations = participations.map((participation, index) => {
+      const share = Number(participation.share);
+      const isLast = index === participations.length - 1;
+      const portion = (key: keyof typeof allocated) => {
+        const value = isLast
+          ? this.roundCurrency(amounts[key] - allocated[key])
+          : this.roundCurrency(amounts[key] * share);
+        allocated[key] = this.roundCurrency(allocated[key] + value);
+        return value;
+      };
+
+      return {
+        participation,
+        allocation: {
+          lenderId: participation.lenderId,
+          share,
+          principalAmount: portion('principalAmount'),
+          interestAmount: portion('interestAmount'),
+          feeAmount: portion('feeAmount'),
+        },
+      };
+    });
+
+    for (const { participation, allocation } of allocations) {
+      participation.principalRepaid = this.roundCurrency(
+        Number(participation.principalRepaid) + allocation.principalAmount
+      );
+      participation.interestEarned = this.roundCurrency(
+        Number(participation.interestEarned) + allocation.interestAmount
+      );
+      participation.feesEarned = this.roundCurrency(
+        Number(participation.feesEarned) + allocation.feeAmount
+      );
+    }
+    await manager.save(allocations.map(({ participation }) => participation));
+
+    return allocations.map(({ allocation }) => allocation);
+  }
+
+  /**
+   * One transfer from the borrower to each lender of its allocation
+   */
+  private toLenderTransactions(
+    signature: string,
+    borrowerId: string,
+    allocations: LenderAllocation[],
+    timestamp: Date
+  ): LendingTransaction[] {
+    return allocations.map((allocation) => ({
+      signature,
+      from: borrowerId,
+      to: allocation.lenderId,
+      amount: this.roundCurrency(
+        allocation.principalAmount +
+          allocation.interestAmount +
+          allocation.feeAmount
+      ),
+      timestamp,
+    }));
+  }
+
+  /**
+   * Close a loan being refinanced and originate its replacement from the
+   * accepted offer. The offer funds the old loan's payoff as of now, which
+   * becomes the new loan's principal; collateral carries over.
+   */
+  private async refinanceWithOffer(
+    manager: EntityManager,
+    application: LoanApplication,
+    offer: LoanOffer
+  ): Promise<LoanFundingResult> {
+    const oldLoan = await manager.findOne(ActiveLoan, {
+      where: { id: application.metadata.refinance.loanId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!oldLoan || oldLoan.status !== ActiveLoanStatus.ACTIVE) {
+      throw new Error('Loan being refinanced is no longer active');
+    }
+
+    const timestamp = new Date();
+    const quote = this.calculatePayoffQuote(oldLoan, timestamp);
+    if (Number(offer.offeredAmount) < quote.totalPayoff) {
+      throw new Error('Offer does not cover the refinance payoff amount');
+    }
+
+    await this.collateralService.assertTokensActive(
+      [application.borrowTokenId, ...(application.collateralTokenIds || [])],
+      manager
+    );
+
+    offer.status = LoanOfferStatus.ACCEPTED;
+    offer.metadata = {
+      ...(offer.metadata || {}),
+      committedAmount: quote.totalPayoff,
+    };
+    await manager.save(offer);
+
+    const loan = await this.originateSyndicatedLoan(manager, application, [
+      offer,
+    ]);
+
+    const transactionHash = this.encryptionService.generateTransactionHash({
+      loanId: oldLoan.id,
+      refinancedBy: loan.id,
+      paymentAmount: quote.totalPayoff,
+      timestamp,
+      type: PaymentType.REFINANCE,
+    });
+    await this.settleLoan(
+      manager,
+      oldLoan,
+      quote,
+      PaymentType.REFINANCE,
+      transactionHash
+    );
+    oldLoan.metadata = { ...(oldLoan.metadata || {}), refinancedBy: loan.id };
+    await manager.save(oldLoan);
+
+    // Pledges move to the new loan; the larger balance may need a top-up
+    await this.collateralService.transferCollateral(manager, oldLoan, loan);
+    await this.collateralService.lockRequiredCollateral(
+      manager,
+      loan,
+      application.collateralTokenIds,
+      Number(application.collateralRatio)
+    );
+    loan.metadata = { ...(loan.metadata || {}), refinancedFrom: oldLoan.id };
+    await manager.save(loan);
+
+    await this.rejectPendingOffers(manager, application.id);
+
+    application.status = LoanApplicationStatus.ACTIVE;
+    await manager.save(application);
+
+    return {
+      offer,
+      fundedAmount: quote.totalPayoff,
+      remainingAmount: 0,
+      fullyFunded: true,
+      loan,
+    };
+  }
+
+  /**
+   * Pay a loan off in full: distribute the payoff to its lenders, record
+   * the payment and settle outstanding late fees. The caller saves the loan.
+   */
+  private async settleLoan(
+    manager: EntityManager,
+    loan: ActiveLoan,
+    quote: PayoffQuote,
+    paymentType: PaymentType,
+    transactionHash: string
+  ): Promise<LoanPayment> {
+    const timestamp = quote.payoffDate;
+    const lenderAllocations = await this.allocateToLenders(manager, loan, {
+      principalAmount: quote.outstandingPrincipal,
+      interestAmount: quote.accruedInterest,
+      feeAmount: this.roundCurrency(
+        quote.outstandingLateFees + quote.prepaymentPenalty
+      ),
+    });
+
+    const payment = await manager.save(
+      manager.create(LoanPayment, {
+        activeLoanId: loan.id,
+        amount: quote.totalPayoff,
+        principalAmount: quote.outstandingPrincipal,
+        interestAmount: quote.accruedInterest,
+        lateFee: quote.outstandingLateFees,
+        paymentType,
+        status: PaymentStatus.COMPLETED,
+        paymentDate: timestamp,
+        processedAt: timestamp,
+        transactionHash,
+        metadata: {
+          prepaymentPenalty: quote.prepaymentPenalty,
+          installmentsRemaining: loan.totalPayments - loan.completedPayments,
+          lenderAllocations,
+        },
+      })
+    );
+
+    await manager.update(
+      LoanPayment,
+      {
+        activeLoanId: loan.id,
+        paymentType: PaymentType.LATE_FEE,
+        status: PaymentStatus.PENDING,
+      },
+      { status: PaymentStatus.COMPLETED, processedAt: timestamp }
+    );
+
+    loan.remainingAmount = 0;
+    loan.lastPaymentDate = timestamp;
+    loan.status = ActiveLoanStatus.REPAID;
+    loan.metadata = { ...(loan.metadata || {}), delinquency: undefined };
+
+    await manager.update(LoanApplication, loan.loanApplicationId, {
+      status: LoanApplicationStatus.COMPLETED,
+    });
+
+    return payment;
+  }
+
+  /**
+   * Competing offers on an application are no longer fillable once it is
+   * funded
+   */
+  private async rejectPendingOffers(
+    manager: EntityManager,
+    applicationId: string
+  ): Promise<void> {
+    await manager.update(
+      LoanOffer,
+      {
+        loanApplicationId: applicationId,
+        status: LoanOfferStatus.PENDING,
+      },
+      {
+        status: LoanOfferStatus.REJECTED,
+        message: 'Application was fully funded by other offers',
+      }
+    );
+  }
+
+  private getCommittedAmount(offer: LoanOffer): number {
+    return Number(offer.metadata?.committedAmount ?? offer.offeredAmount);
+  }
+
+  private sumCommitted(offers: LoanOffer[]): number {
+    return this.roundCurrency(
+      offers.reduce((sum, offer) => sum + this.getCommittedAmount(offer), 0)
+    );
+  }
+
+  /**
+   * Outstanding principal, interest accrued since the last payment,
+   * prepayment penalty and unpaid late fees as of the payoff date
    */
-  private generateId(): string {
-    return Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
+  private calculatePayoffQuote(
+    loan: ActiveLoan,
+    payoffDate: Date
+  ): PayoffQuote {
+    const accrualStart = loan.lastPaymentDate || loan.createdAt;
+    if (payoffDate < accrualStart) {
+      throw new BadRequestException(
+        'Payoff date cannot precede the last payment'
+      );
+    }
+
+    const outstandingPrincipal = Number(loan.remainingAmount);
+    const accruedInterest = this.amortizationService.calculateAccruedInterest(
+      outstandingPrincipal,
+      loan.interestRate,
+      accrualStart,
+      payoffDate
+    );
+
+    // No penalty once the loan is in its final installment period
+    const { prepaymentPenaltyRate } =
+      this.governanceService.getCurrentParameters();
+    const isFinalInstallment = loan.completedPayments >= loan.totalPayments - 1;
+    const prepaymentPenalty = isFinalInstallment
+      ? 0
+      : this.roundCurrency(outstandingPrincipal * prepaymentPenaltyRate);
+
+    const { outstandingLateFees } =
+      this.delinquencyService.getDelinquencyState(loan);
+
+    return {
+      loanId: loan.id,
+      payoffDate,
+      outstandingPrincipal,
+      accruedInterest,
+      prepaymentPenalty,
+      outstandingLateFees,
+      totalPayoff: this.roundCurrency(
+        outstandingPrincipal +
+          accruedInterest +
+          prepaymentPenalty +
+          outstandingLateFees
+      ),
+    };
+  }
+
+  /**
+   * Split a payment into late fees first, then interest, then principal
+   */
+  private splitPayment(
+    loan: ActiveLoan,
+    paymentAmount: number,
+    paymentDate: Date,
+    outstandingLateFees: number = 0
+  ): {
+    principalAmount: number;
+    interestAmount: number;
+    lateFee: number;
+    paymentType: PaymentType;
+  } {
+    const remainingAmount = Number(loan.remainingAmount);
+    const interestDue = this.getInterestDue(loan, paymentDate);
+
+    if (paymentAmount <= 0) {
+      throw new Error('Payment amount must be positive');
+    }
+
+    if (
+      paymentAmount >
+      this.roundCurrency(remainingAmount + interestDue + outstandingLateFees)
+    ) {
+      throw new Error('Payment exceeds outstanding balance');
+    }
+
+    const lateFee = Math.min(paymentAmount, outstandingLateFees);
+    const interestAmount = Math.min(
+      this.roundCurrency(paymentAmount - lateFee),
+      interestDue
+    );
+    const principalAmount = this.roundCurrency(
+      paymentAmount - lateFee - interestAmount
+    );
+
+    let paymentType = PaymentType.PRINCIPAL_AND_INTEREST;
+    if (principalAmount === 0 && interestAmount === 0) {
+      paymentType = PaymentType.LATE_FEE;
+    } else if (principalAmount === 0) {
+      paymentType = PaymentType.INTEREST;
+    } else if (interestAmount === 0) {
+      paymentType = PaymentType.PRINCIPAL;
+    }
+
+    return { principalAmount, interestAmount, lateFee, paymentType };
+  }
+
+  /**
+   * Interest owed as of a payment: the unpaid interest of the current
+   * scheduled installment, or interest accrued since the last payment when
+   * the loan has no stored schedule
+   */
+  private getInterestDue(loan: ActiveLoan, paymentDate: Date): number {
+    const installments = loan.paymentSchedule?.installments;
+    if (installments) {
+      const current = installments.find(
+        (installment) =>
+          !this.amortizationService.isInstallmentPaid(installment)
+      );
+      return current ? this.amortizationService.getUnpaidInterest(current) : 0;
+    }
+
+    return this.amortizationService.calculateAccruedInterest(
+      loan.remainingAmount,
+      loan.interestRate,
+      loan.lastPaymentDate || loan.createdAt,
+      paymentDate
+    );
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
   }
 
   /**
@@ -367,31 +1523,26 @@ export class LendingService {
     totalLent: number;
     averageInterestRate: number;
   }> {
-    const applications = Array.from(this.loanApplications.values());
-    const loans = Array.from(this.activeLoans.values());
-
-    const totalApplications = applications.length;
-    const approvedApplications = applications.filter(
-      (app) => app.status === 'approved'
-    ).length;
-    const activeLoansCount = loans.filter(
-      (loan) => loan.status === 'active'
-    ).length;
-    const totalLent = loans.reduce(
-      (sum, loan) => sum + loan.principalAmount,
-      0
-    );
-    const averageInterestRate =
-      loans.length > 0
-        ? loans.reduce((sum, loan) => sum + loan.interestRate, 0) / loans.length
-        : 0;
+    const totalApplications = await this.loanApplicationRepository.count();
+    const approvedApplications = await this.loanApplicationRepository.count({
+      where: { status: LoanApplicationStatus.APPROVED },
+    });
+    const activeLoansCount = await this.activeLoanRepository.count({
+      where: { status: ActiveLoanStatus.ACTIVE },
+    });
+
+    const loanTotals = await this.activeLoanRepository
+      .createQueryBuilder('loan')
+      .select('COALESCE(SUM(loan.principalAmount), 0)', 'totalLent')
+      .addSelect('COALESCE(AVG(loan.interestRate), 0)', 'averageInterestRate')
+      .getRawOne();
 
     return {
       totalApplications,
       approvedApplications,
       activeLoans: activeLoansCount,
-      totalLent,
-      averageInterestRate,
+      totalLent: Number(loanTotals.totalLent),
+      averageInterestRate: Number(loanTotals.averageInterestRate),
     };
   }
 }
@@ -0,0 +1,350 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { LiquidationAuctionService } from './liquidation-auction.service';
+import { CollateralService } from '../collateral/collateral.service';
+import { MonitoringService } from '../monitoring/monitoring.service';
+import {
+  AuctionStatus,
+  AuctionType,
+  LiquidationAuction,
+} from '../entities/liquidation-auction.entity';
+import { AuctionBid, AuctionBidStatus } from '../entities/auction-bid.entity';
+import { ActiveLoan, ActiveLoanStatus } from '../entities/active-loan.entity';
+import { LoanParticipation } from '../entities/loan-participation.entity';
+import {
+  LoanApplication,
+  LoanApplicationStatus,
+} from '../entities/loan-application.entity';
+import { LoanPayment, PaymentType } from '../entities/loan-payment.entity';
+
+describe('LiquidationAuctionService', () => {
+  const openedAt = new Date('2026-01-01T00:00:00Z');
+  const minutes = (count: number) =>
+    new Date(openedAt.getTime() + count * 60 * 1000);
+
+  let rows: Map<Function, any[]>;
+  let manager: any;
+  let collateralService: Record<string, jest.Mock>;
+  let loan: any;
+  let service: LiquidationAuctionService;
+
+  const rowsOf = (entity: Function) => {
+    if (!rows.has(entity)) {
+      rows.set(entity, []);
+    }
+    return rows.get(entity);
+  };
+  const matches = (row: any, where: Record<string, any> = {}) =>
+    Object.entries(where).every(([key, value]) => row[key] === value);
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: openedAt });
+
+    rows = new Map();
+    let nextId = 0;
+    manager = {
+      findOne: jest.fn(
+        async (entity, { where }) =>
+          rowsOf(entity).find((row) => matches(row, where)) || null,
+      ),
+      find: jest.fn(async (entity, { where }) =>
+        rowsOf(entity).filter((row) => matches(row, where)),
+      ),
+      count: jest.fn(
+        async (entity, { where }) =>
+          rowsOf(entity).filter((row) => matches(row, where)).length,
+      ),
+      create: jest.fn((entity, data) => Object.assign(new entity(), data)),
+      save: jest.fn(async (entity) => {
+        for (const row of [].concat(entity)) {
+          const table = rowsOf(row.constructor);
+          if (!table.includes(row)) {
+            row.id = row.id || `${row.constructor.name}-${++nextId}`;
+            table.push(row);
+          }
+        }
+        return entity;
+      }),
+      update: jest.fn(),
+    };
+
+    loan = Object.assign(new ActiveLoan(), {
+      id: 'loan-1',
+      loanApplicationId: 'application-1',
+      borrowerId: 'borrower',
+      lenderId: 'lender',
+      borrowTokenId: 'usdc',
+      status: ActiveLoanStatus.ACTIVE,
+      remainingAmount: 1000,
+      metadata: {},
+    });
+    rowsOf(ActiveLoan).push(loan);
+
+    collateralService = {
+      getCollateralValue: jest.fn(async () => 1100),
+      getBorrowTokenPrice: jest.fn(async () => 1),
+      lockTokens: jest.fn(),
+      unlockTokens: jest.fn(),
+      payOutLockedTokens: jest.fn(),
+      awardCollateral: jest.fn(async () => []),
+      seizeCollateral: jest.fn(async () => []),
+      releaseCollateral: jest.fn(async () => []),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        LiquidationAuctionService,
+        {
+          provide: getRepositoryToken(LiquidationAuction),
+          useValue: {
+            find: jest.fn(async () =>
+              rowsOf(LiquidationAuction).filter(
+                (auction) =>
+                  auction.status === AuctionStatus.OPEN &&
+                  auction.endsAt < new Date(),
+              ),
+            ),
+          },
+        },
+        { provide: getRepositoryToken(AuctionBid), useValue: {} },
+        { provide: CollateralService, useValue: collateralService },
+        {
+          provide: MonitoringService,
+          useValue: { trackLoanEvent: jest.fn(), recordError: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key, fallback) => fallback) },
+        },
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn((work) => work(manager)) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(LiquidationAuctionService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should settle a Dutch auction on the first bid at the current price', async () => {
+    const auction = await service.openAuction(
+      'loan-1',
+      0.05,
+      AuctionType.DUTCH,
+    );
+    expect(auction.startPrice).toBe(1100);
+    expect(auction.reservePrice).toBe(880);
+
+    jest.setSystemTime(minutes(30));
+    const { bid, settlement } = await service.placeBid(
+      auction.id,
+      'bidder',
+      1000,
+    );
+
+    // Halfway through, the price has fallen halfway to the reserve
+    expect(bid.amount).toBe(990);
+    expect(collateralService.lockTokens).toHaveBeenCalledWith(
+      manager,
+      'bidder',
+      'usdc',
+      990,
+    );
+    expect(settlement).toMatchObject({
+      winnerId: 'bidder',
+      debtRepaid: 990,
+      penalty: 0,
+      borrowerSurplus: 0,
+      remainingDebt: 10,
+    });
+    expect(collateralService.awardCollateral).toHaveBeenCalledWith(
+      manager,
+      loan,
+      'bidder',
+      1,
+    );
+    expect(auction.status).toBe(AuctionStatus.SETTLED);
+    expect(bid.status).toBe(AuctionBidStatus.WON);
+    expect(loan.status).toBe(ActiveLoanStatus.LIQUIDATED);
+    expect(rowsOf(LoanPayment)).toEqual([
+      expect.objectContaining({
+        amount: 990,
+        paymentType: PaymentType.LIQUIDATION,
+      }),
+    ]);
+  });
+
+  it('should pay the debt, then the penalty, then the surplus, splitting lender proceeds pro rata', async () => {
+    rowsOf(LoanParticipation).push(
+      Object.assign(new LoanParticipation(), {
+        id: 'participation-1',
+        activeLoanId: 'loan-1',
+        lenderId: 'lender-a',
+        share: 0.33333333,
+        principalRepaid: 0,
+        feesEarned: 0,
+      }),
+      Object.assign(new LoanParticipation(), {
+        id: 'participation-2',
+        activeLoanId: 'loan-1',
+        lenderId: 'lender-b',
+        share: 0.66666667,
+        principalRepaid: 0,
+        feesEarned: 0,
+      }),
+    );
+    const auction = await service.openAuction(
+      'loan-1',
+      0.05,
+      AuctionType.DUTCH,
+    );
+
+    const { settlement } = await service.placeBid(auction.id, 'bidder', 1100);
+
+    expect(settlement).toMatchObject({
+      debtRepaid: 1000,
+      penalty: 50,
+      borrowerSurplus: 50,
+      remainingDebt: 0,
+    });
+    // The last participation absorbs the rounding of the pro-rata split
+    expect(collateralService.payOutLockedTokens).toHaveBeenCalledWith(
+      manager,
+      'bidder',
+      'usdc',
+      [
+        { recipientId: 'lender-a', amount: 350 },
+        { recipientId: 'lender-b', amount: 700 },
+        { recipientId: 'borrower', amount: 50 },
+      ],
+    );
+    expect(rowsOf(LoanParticipation)).toEqual([
+      expect.objectContaining({ principalRepaid: 333.33, feesEarned: 16.67 }),
+      expect.objectContaining({ principalRepaid: 666.67, feesEarned: 33.33 }),
+    ]);
+  });
+
+  it('should refund an outbid English bid and settle to the highest bid when the auction ends', async () => {
+    const auction = await service.openAuction(
+      'loan-1',
+      0.05,
+      AuctionType.ENGLISH,
+    );
+    expect(auction.startPrice).toBe(880);
+
+    const first = await service.placeBid(auction.id, 'bidder-a', 880);
+    await expect(service.placeBid(auction.id, 'bidder-b', 885)).rejects.toThrow(
+      'Bid must be at least 888.8',
+    );
+
+    const second = await service.placeBid(auction.id, 'bidder-b', 1100);
+
+    expect(collateralService.unlockTokens).toHaveBeenCalledWith(
+      manager,
+      'bidder-a',
+      'usdc',
+      880,
+    );
+    expect(first.bid.status).toBe(AuctionBidStatus.OUTBID);
+    expect(second.settlement).toBeUndefined();
+    expect(auction.highestBidId).toBe(second.bid.id);
+
+    jest.setSystemTime(minutes(61));
+    await service.closeEndedAuctions();
+
+    expect(collateralService.payOutLockedTokens).toHaveBeenCalledWith(
+      manager,
+      'bidder-b',
+      'usdc',
+      [
+        { recipientId: 'lender', amount: 1050 },
+        { recipientId: 'borrower', amount: 50 },
+      ],
+    );
+    expect(second.bid.status).toBe(AuctionBidStatus.WON);
+    expect(auction.status).toBe(AuctionStatus.SETTLED);
+    expect(loan.status).toBe(ActiveLoanStatus.LIQUIDATED);
+  });
+
+  it('should hand all the collateral to the lenders when a full auction expires without bids', async () => {
+    const auction = await service.openAuction(
+      'loan-1',
+      0.05,
+      AuctionType.DUTCH,
+    );
+
+    jest.setSystemTime(minutes(61));
+    await service.closeEndedAuctions();
+
+    expect(auction.status).toBe(AuctionStatus.EXPIRED);
+    expect(collateralService.seizeCollateral).toHaveBeenCalledWith(
+      manager,
+      loan,
+    );
+    expect(loan.status).toBe(ActiveLoanStatus.LIQUIDATED);
+    expect(loan.metadata.liquidation).toMatchObject({ expired: true });
+  });
+
+  it('should leave the loan active when a partial auction expires without bids', async () => {
+    const auction = await service.openAuction(
+      'loan-1',
+      0.05,
+      AuctionType.DUTCH,
+      400,
+    );
+    expect(auction.collateralShare).toBeCloseTo((400 * 1.05) / 1100, 8);
+
+    jest.setSystemTime(minutes(61));
+    await service.closeEndedAuctions();
+
+    expect(auction.status).toBe(AuctionStatus.EXPIRED);
+    expect(collateralService.seizeCollateral).not.toHaveBeenCalled();
+    expect(loan.status).toBe(ActiveLoanStatus.ACTIVE);
+  });
+
+  it('should repay the loan and release the rest of the collateral when a partial sale clears the debt', async () => {
+    const auction = await service.openAuction(
+      'loan-1',
+      0.05,
+      AuctionType.DUTCH,
+      400,
+    );
+    // The borrower pays most of the loan down while the auction runs
+    loan.remainingAmount = 300;
+
+    const { settlement } = await service.placeBid(
+      auction.id,
+      'bidder',
+      auction.startPrice,
+    );
+
+    expect(settlement).toMatchObject({
+      debtRepaid: 300,
+      penalty: 15,
+      remainingDebt: 0,
+    });
+    expect(collateralService.awardCollateral).toHaveBeenCalledWith(
+      manager,
+      loan,
+      'bidder',
+      auction.collateralShare,
+    );
+    expect(collateralService.releaseCollateral).toHaveBeenCalledWith(
+      manager,
+      loan,
+    );
+    expect(loan.status).toBe(ActiveLoanStatus.REPAID);
+    expect(loan.metadata.liquidationAuctionId).toBeUndefined();
+    expect(manager.update).toHaveBeenCalledWith(
+      LoanApplication,
+      'application-1',
+      { status: LoanApplicationStatus.COMPLETED },
+    );
+  });
+});
@@ -0,0 +1,716 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, EntityManager, LessThan, Repository } from 'typeorm';
+import {
+  AuctionStatus,
+  AuctionType,
+  LiquidationAuction,
+} from '../entities/liquidation-auction.entity';
+import { AuctionBid, AuctionBidStatus } from '../entities/auction-bid.entity';
+import { ActiveLoan, ActiveLoanStatus } from '../entities/active-loan.entity';
+import { LoanParticipation } from '../entities/loan-participation.entity';
+import {
+  LoanApplication,
+  LoanApplicationStatus,
+} from '../entities/loan-application.entity';
+import {
+  LoanPayment,
+  PaymentStatus,
+  PaymentType,
+} from '../entities/loan-payment.entity';
+import {
+  CollateralService,
+  CollateralTransfer,
+} from '../collateral/collateral.service';
+import { MonitoringService } from '../monitoring/monitoring.service';
+
+export interface AuctionSettlement {
+  auctionId: string;
+  loanId: string;
+  winnerId: string;
+  winningBid: number;
+  debtRepaid: number;
+  penalty: number;
+  borrowerSurplus: number;
+  remainingDebt: number;
+  collateralTransfers: CollateralTransfer[];
+}
+
+export interface AuctionBidResult {
+  auction: LiquidationAuction;
+  bid: AuctionBid;
+  settlement?: AuctionSettlement;
+}
+
+export type AuctionSummary = LiquidationAuction & { currentPrice: number };
+
+@Injectable()
+export class LiquidationAuctionService {
+  private readonly logger = new Logger(LiquidationAuctionService.name);
+  private readonly AUCTION_DURATION_MINUTES = 60;
+  private readonly RESERVE_DISCOUNT = 0.2; // reserve 20% below collateral market value
+  private readonly MIN_BID_INCREMENT = 0.01; // 1% of the reserve price
+
+  constructor(
+    @InjectRepository(LiquidationAuction)
+    private auctionRepository: Repository<LiquidationAuction>,
+    @InjectRepository(AuctionBid)
+    private auctionBidRepository: Repository<AuctionBid>,
+    private collateralService: CollateralService,
+    private monitoringService: MonitoringService,
+    private configService: ConfigService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Open an auction on an under-collateralized loan's collateral, priced
+   * in the loan's borrow token. Given a debt to cover short of the whole
+   * balance, only enough collateral to cover it and the penalty is sold.
+   * Returns the loan's open auction if it already has one.
+   */
+  async openAuction(
+    loanId: string,
+    penaltyRate: number,
+    type?: AuctionType,
+    debtToCover?: number,
+  ): Promise<LiquidationAuction> {
+    const auctionType =
+      type ||
+      (this.configService.get<string>(
+        'LIQUIDATION_AUCTION_TYPE',
+        AuctionType.DUTCH,
+      ) as AuctionType);
+
+    const { auction, opened } = await this.dataSource.transaction(
+      async (manager) => {
+        const loan = await manager.findOne(ActiveLoan, {
+          where: { id: loanId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!loan || loan.status !== ActiveLoanStatus.ACTIVE) {
+          throw new Error('Active loan not found');
+        }
+
+        if (!loan.borrowTokenId) {
+          throw new Error('Loan has no borrow token to auction against');
+        }
+
+        const existing = await manager.findOne(LiquidationAuction, {
+          where: { activeLoanId: loan.id, status: AuctionStatus.OPEN },
+        });
+        if (existing) {
+          return { auction: existing, opened: false };
+        }
+
+        const collateralValue = await this.collateralService.getCollateralValue(
+          loan,
+          manager,
+        );
+        const borrowTokenPrice =
+          await this.collateralService.getBorrowTokenPrice(loan, manager);
+        const debt = Number(loan.remainingAmount);
+        const debtAmount =
+          debtToCover > 0
+            ? Math.min(debt, this.roundCurrency(debtToCover))
+            : debt;
+        const collateralShare =
+          debtAmount < debt
+            ? Math.min(
+                1,
+                this.roundUnits(
+                  (debtAmount * borrowTokenPrice * (1 + penaltyRate)) /
+                    collateralValue,
+                ),
+              )
+            : 1;
+        const marketPrice =
+          (collateralValue * collateralShare) / borrowTokenPrice;
+        const reservePrice = this.roundUnits(
+          marketPrice * (1 - this.RESERVE_DISCOUNT),
+        );
+        const startsAt = new Date();
+        const endsAt = new Date(
+          startsAt.getTime() + this.AUCTION_DURATION_MINUTES * 60 * 1000,
+        );
+
+        const auction = await manager.save(
+          manager.create(LiquidationAuction, {
+            activeLoanId: loan.id,
+            borrowTokenId: loan.borrowTokenId,
+            type: auctionType,
+            status: AuctionStatus.OPEN,
+            debtAmount,
+            collateralValue: this.roundCurrency(
+              collateralValue * collateralShare,
+            ),
+            collateralShare,
+            startPrice:
+              auctionType === AuctionType.DUTCH
+                ? this.roundUnits(marketPrice)
+                : reservePrice,
+            reservePrice,
+            minBidIncrement: this.roundUnits(
+              reservePrice * this.MIN_BID_INCREMENT,
+            ),
+            startsAt,
+            endsAt,
+            metadata: { penaltyRate },
+          }),
+        );
+
+        loan.metadata = {
+          ...(loan.metadata || {}),
+          liquidationAuctionId: auction.id,
+        };
+        await manager.save(loan);
+
+        return { auction, opened: true };
+      },
+    );
+
+    if (opened) {
+      this.logger.warn(
+        `${auction.type} liquidation auction ${auction.id} opened for loan ${loanId}`,
+      );
+      await this.monitoringService.trackLoanEvent(
+        loanId,
+        'liquidation_auction_opened',
+        {
+          auctionId: auction.id,
+          type: auction.type,
+          debtAmount: auction.debtAmount,
+          collateralShare: auction.collateralShare,
+          startPrice: auction.startPrice,
+          reservePrice: auction.reservePrice,
+          endsAt: auction.endsAt,
+        },
+      );
+    }
+
+    return auction;
+  }
+
+  /**
+   * Place a bid in the loan's borrow token. A Dutch auction is won by the
+   * first bid at or above the current price, which is all the winner
+   * pays. An English auction escrows each bid until it is outbid or the
+   * auction ends.
+   */
+  async placeBid(
+    auctionId: string,
+    bidderId: string,
+    amount: number,
+  ): Promise<AuctionBidResult> {
+    try {
+      if (!(amount > 0)) {
+        throw new Error('Bid amount must be positive');
+      }
+
+      const result = await this.dataSource.transaction(async (manager) => {
+        const auction = await manager.findOne(LiquidationAuction, {
+          where: { id: auctionId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!auction || auction.status !== AuctionStatus.OPEN) {
+          throw new Error('Auction is not open');
+        }
+
+        const now = new Date();
+        if (now >= auction.endsAt) {
+          throw new Error('Auction has ended');
+        }
+
+        const loan = await manager.findOne(ActiveLoan, {
+          where: { id: auction.activeLoanId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!loan || loan.status !== ActiveLoanStatus.ACTIVE) {
+          throw new Error('Loan is no longer active');
+        }
+
+        const isLender =
+          loan.lenderId === bidderId ||
+          (await manager.count(LoanParticipation, {
+            where: { activeLoanId: loan.id, lenderId: bidderId },
+          })) > 0;
+        if (loan.borrowerId === bidderId || isLender) {
+          throw new Error('Loan parties cannot bid on its collateral');
+        }
+
+        if (auction.type === AuctionType.DUTCH) {
+          const price = this.getCurrentPrice(auction, now);
+          if (amount < price) {
+            throw new Error(`Bid is below the current price of ${price}`);
+          }
+
+          await this.collateralService.lockTokens(
+            manager,
+            bidderId,
+            auction.borrowTokenId,
+            price,
+          );
+          const bid = await manager.save(
+            manager.create(AuctionBid, {
+              auctionId: auction.id,
+              bidderId,
+              amount: price,
+              status: AuctionBidStatus.LEADING,
+            }),
+          );
+          const settlement = await this.settleAuction(
+            manager,
+            auction,
+            bid,
+            loan,
+          );
+
+          return { auction, bid, settlement };
+        }
+
+        const minimumBid = this.getCurrentPrice(auction, now);
+        if (amount < minimumBid) {
+          throw new Error(`Bid must be at least ${minimumBid}`);
+        }
+
+        await this.collateralService.lockTokens(
+          manager,
+          bidderId,
+          auction.borrowTokenId,
+          amount,
+        );
+
+        if (auction.highestBidId) {
+          const previous = await manager.findOne(AuctionBid, {
+            where: { id: auction.highestBidId },
+          });
+          await this.refundBid(
+            manager,
+            auction,
+            previous,
+            AuctionBidStatus.OUTBID,
+          );
+        }
+
+        const bid = await manager.save(
+          manager.create(AuctionBid, {
+            auctionId: auction.id,
+            bidderId,
+            amount,
+            status: AuctionBidStatus.LEADING,
+          }),
+        );
+        auction.highestBidId = bid.id;
+        auction.highestBidAmount = amount;
+        await manager.save(auction);
+
+        return { auction, bid };
+      });
+
+      this.logger.log(
+        `Bid ${result.bid.id} of ${result.bid.amount} placed on auction ${auctionId}`,
+      );
+
+      if (result.settlement) {
+        await this.trackSettlement(result.settlement);
+      }
+
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to place auction bid', error);
+      throw new Error(`Auction bid failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Close auctions past their end time - runs every minute. English
+   * auctions settle to the highest bid; auctions without a winning bid
+   * expire and the collateral goes to the lenders, unless only part of it
+   * was on sale, in which case the next liquidation check retries.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async closeEndedAuctions(): Promise<void> {
+    try {
+      const ended = await this.auctionRepository.find({
+        where: { status: AuctionStatus.OPEN, endsAt: LessThan(new Date()) },
+      });
+
+      for (const auction of ended) {
+        try {
+          await this.closeAuction(auction.id);
+        } catch (error) {
+          this.logger.error(`Error closing auction ${auction.id}`, error);
+          await this.monitoringService.recordError(error, 'auction_close', {
+            auctionId: auction.id,
+          });
+        }
+      }
+    } catch (error) {
+      this.logger.error('Error during auction close-out', error);
+      await this.monitoringService.recordError(error, 'auction_close_out');
+    }
+  }
+
+  /**
+   * List open auctions with their current price (Dutch) or minimum next
+   * bid (English)
+   */
+  async getOpenAuctions(): Promise<AuctionSummary[]> {
+    const auctions = await this.auctionRepository.find({
+      where: { status: AuctionStatus.OPEN },
+      relations: ['borrowToken'],
+      order: { endsAt: 'ASC' },
+    });
+    const now = new Date();
+
+    return auctions.map((auction) => ({
+      ...auction,
+      currentPrice: this.getCurrentPrice(auction, now),
+    }));
+  }
+
+  /**
+   * Get an auction with its bids, highest first
+   */
+  async getAuction(auctionId: string): Promise<AuctionSummary> {
+    const auction = await this.auctionRepository.findOne({
+      where: { id: auctionId },
+      relations: ['borrowToken'],
+    });
+    if (!auction) {
+      throw new Error('Auction not found');
+    }
+
+    auction.bids = await this.auctionBidRepository.find({
+      where: { auctionId },
+      order: { amount: 'DESC' },
+    });
+
+    return {
+      ...auction,
+      currentPrice: this.getCurrentPrice(auction, new Date()),
+    };
+  }
+
+  private async closeAuction(auctionId: string): Promise<void> {
+    const settlement = await this.dataSource.transaction(async (manager) => {
+      const auction = await manager.findOne(LiquidationAuction, {
+        where: { id: auctionId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!auction || auction.status !== AuctionStatus.OPEN) {
+        return null;
+      }
+
+      const loan = await manager.findOne(ActiveLoan, {
+        where: { id: auction.activeLoanId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const leadingBid = auction.highestBidId
+        ? await manager.findOne(AuctionBid, {
+            where: { id: auction.highestBidId },
+          })
+        : null;
+
+      // The borrower repaid or the loan was otherwise closed mid-auction
+      if (!loan || loan.status !== ActiveLoanStatus.ACTIVE) {
+        if (leadingBid) {
+          await this.refundBid(
+            manager,
+            auction,
+            leadingBid,
+            AuctionBidStatus.REFUNDED,
+          );
+        }
+        auction.status = AuctionStatus.CANCELLED;
+        await manager.save(auction);
+        return null;
+      }
+
+      if (leadingBid) {
+        return this.settleAuction(manager, auction, leadingBid, loan);
+      }
+
+      auction.status = AuctionStatus.EXPIRED;
+      await manager.save(auction);
+
+      if (Number(auction.collateralShare) < 1) {
+        this.logger.warn(
+          `Partial liquidation auction ${auction.id} expired without bids`,
+        );
+        return null;
+      }
+
+      const transfers = await this.collateralService.seizeCollateral(
+        manager,
+        loan,
+      );
+      loan.status = ActiveLoanStatus.LIQUIDATED;
+      loan.collateralValue = 0;
+      loan.currentCollateralRatio = null;
+      loan.metadata = {
+        ...(loan.metadata || {}),
+        liquidation: { auctionId: auction.id, expired: true, transfers },
+      };
+      await manager.save(loan);
+
+      this.logger.warn(
+        `Auction ${auction.id} expired without bids; collateral seized by lenders`,
+      );
+      return null;
+    });
+
+    if (settlement) {
+      await this.trackSettlement(settlement);
+    }
+  }
+
+  /**
+   * Pay the winning bid out of the winner's escrow: the debt to the
+   * lenders first, then the liquidation penalty to the lenders, then any
+   * surplus to the borrower. The winner receives the collateral on sale.
+   * A loan left with debt and collateral after a partial sale stays active;
+   * one left with collateral but no debt is repaid and the rest released.
+   */
+  private async settleAuction(
+    manager: EntityManager,
+    auction: LiquidationAuction,
+    bid: AuctionBid,
+    loan: ActiveLoan,
+  ): Promise<AuctionSettlement> {
+    const winningBid = Number(bid.amount);
+    const debt = Math.min(
+      Number(loan.remainingAmount),
+      Number(auction.debtAmount),
+    );
+    const penaltyRate = Number(auction.metadata?.penaltyRate || 0);
+    const debtRepaid = this.roundCurrency(Math.min(winningBid, debt));
+    const penalty = this.roundCurrency(
+      Math.min(winningBid - debtRepaid, debt * penaltyRate),
+    );
+    const borrowerSurplus = this.roundUnits(winningBid - debtRepaid - penalty);
+
+    const lenderPayouts = await this.allocateToLenders(
+      manager,
+      loan,
+      debtRepaid,
+      penalty,
+    );
+    await this.collateralService.payOutLockedTokens(
+      manager,
+      bid.bidderId,
+      auction.borrowTokenId,
+      [
+        ...lenderPayouts,
+        { recipientId: loan.borrowerId, amount: borrowerSurplus },
+      ],
+    );
+    const collateralShare = Number(auction.collateralShare);
+    const collateralTransfers = await this.collateralService.awardCollateral(
+      manager,
+      loan,
+      bid.bidderId,
+      collateralShare,
+    );
+
+    const settledAt = new Date();
+    await manager.save(
+      manager.create(LoanPayment, {
+        activeLoanId: loan.id,
+        amount: this.roundCurrency(debtRepaid + penalty),
+        principalAmount: debtRepaid,
+        paymentType: PaymentType.LIQUIDATION,
+        status: PaymentStatus.COMPLETED,
+        paymentDate: settledAt,
+        processedAt: settledAt,
+        metadata: { auctionId: auction.id, penalty, lenderPayouts },
+      }),
+    );
+
+    const settlement: AuctionSettlement = {
+      auctionId: auction.id,
+      loanId: loan.id,
+      winnerId: bid.bidderId,
+      winningBid,
+      debtRepaid,
+      penalty,
+      borrowerSurplus,
+      remainingDebt: this.roundCurrency(
+        Number(loan.remainingAmount) - debtRepaid,
+      ),
+      collateralTransfers,
+    };
+    const liquidation = {
+      auctionId: auction.id,
+      winningBid,
+      debtRepaid,
+      penalty,
+      borrowerSurplus,
+    };
+
+    loan.remainingAmount = settlement.remainingDebt;
+    if (collateralShare < 1 && settlement.remainingDebt <= 0) {
+      // The borrower paid down the rest of the debt during the auction;
+      // the collateral that was not on sale goes back to them
+      await this.collateralService.releaseCollateral(manager, loan);
+      const { marginCall, liquidationAuctionId, ...metadata } =
+        loan.metadata || {};
+      loan.status = ActiveLoanStatus.REPAID;
+      loan.collateralValue = 0;
+      loan.currentCollateralRatio = null;
+      loan.metadata = {
+        ...metadata,
+        partialLiquidations: [
+          ...(metadata.partialLiquidations || []),
+          { ...liquidation, collateralShare, settledAt },
+        ],
+      };
+      await manager.update(LoanApplication, loan.loanApplicationId, {
+        status: LoanApplicationStatus.COMPLETED,
+      });
+    } else if (collateralShare < 1) {
+      // The loan carries on with its remaining collateral, which
+      // awardCollateral has revalued; any margin call is answered
+      const { marginCall, liquidationAuctionId, ...metadata } =
+        loan.metadata || {};
+      loan.metadata = {
+        ...metadata,
+        partialLiquidations: [
+          ...(metadata.partialLiquidations || []),
+          { ...liquidation, collateralShare, settledAt },
+        ],
+      };
+    } else {
+      loan.status = ActiveLoanStatus.LIQUIDATED;
+      loan.collateralValue = 0;
+      loan.currentCollateralRatio = null;
+      loan.metadata = { ...(loan.metadata || {}), liquidation };
+    }
+    await manager.save(loan);
+
+    bid.status = AuctionBidStatus.WON;
+    await manager.save(bid);
+
+    auction.status = AuctionStatus.SETTLED;
+    auction.highestBidId = bid.id;
+    auction.highestBidAmount = winningBid;
+    auction.winnerId = bid.bidderId;
+    auction.settledAt = settledAt;
+    auction.metadata = {
+      ...(auction.metadata || {}),
+      settlement: { debtRepaid, penalty, borrowerSurplus },
+    };
+    await manager.save(auction);
+
+    return settlement;
+  }
+
+  /**
+   * Split repaid debt and penalty between the loan's lenders pro rata to
+   * their shares. The last lender absorbs rounding.
+   */
+  private async allocateToLenders(
+    manager: EntityManager,
+    loan: ActiveLoan,
+    debtRepaid: number,
+    penalty: number,
+  ): Promise<{ recipientId: string; amount: number }[]> {
+    const participations = await manager.find(LoanParticipation, {
+      where: { activeLoanId: loan.id },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+    if (participations.length === 0) {
+      return [{ recipientId: loan.lenderId, amount: debtRepaid + penalty }];
+    }
+
+    let principalAllocated = 0;
+    let penaltyAllocated = 0;
+    const payouts = participations.map((participation, index) => {
+      const isLast = index === participations.length - 1;
+      const share = Number(participation.share);
+      const principal = isLast
+        ? this.roundCurrency(debtRepaid - principalAllocated)
+        : this.roundCurrency(debtRepaid * share);
+      const fee = isLast
+        ? this.roundCurrency(penalty - penaltyAllocated)
+        : this.roundCurrency(penalty * share);
+      principalAllocated = this.roundCurrency(principalAllocated + principal);
+      penaltyAllocated = this.roundCurrency(penaltyAllocated + fee);
+
+      participation.principalRepaid = this.roundCurrency(
+        Number(participation.principalRepaid) + principal,
+      );
+      participation.feesEarned = this.roundCurrency(
+        Number(participation.feesEarned) + fee,
+      );
+
+      return {
+        recipientId: participation.lenderId,
+        amount: this.roundCurrency(principal + fee),
+      };
+    });
+    await manager.save(participations);
+
+    return payouts;
+  }
+
+  private async refundBid(
+    manager: EntityManager,
+    auction: LiquidationAuction,
+    bid: AuctionBid,
+    status: AuctionBidStatus,
+  ): Promise<void> {
+    await this.collateralService.unlockTokens(
+      manager,
+      bid.bidderId,
+      auction.borrowTokenId,
+      Number(bid.amount),
+    );
+    bid.status = status;
+    await manager.save(bid);
+  }
+
+  /**
+   * The Dutch price falls linearly from the start price to the reserve
+   * over the auction; the English price is the minimum next bid
+   */
+  private getCurrentPrice(auction: LiquidationAuction, now: Date): number {
+    const startPrice = Number(auction.startPrice);
+    const reservePrice = Number(auction.reservePrice);
+
+    if (auction.type === AuctionType.ENGLISH) {
+      return auction.highestBidAmount
+        ? this.roundUnits(
+            Number(auction.highestBidAmount) + Number(auction.minBidIncrement),
+          )
+        : reservePrice;
+    }
+
+    const elapsed = now.getTime() - new Date(auction.startsAt).getTime();
+    const duration =
+      new Date(auction.endsAt).getTime() - new Date(auction.startsAt).getTime();
+    const progress = Math.min(1, Math.max(0, elapsed / duration));
+
+    return this.roundUnits(startPrice - (startPrice - reservePrice) * progress);
+  }
+
+  private async trackSettlement(settlement: AuctionSettlement): Promise<void> {
+    this.logger.log(
+      `Auction ${settlement.auctionId} settled: ${settlement.winningBid} from ${settlement.winnerId}`,
+    );
+    await this.monitoringService.trackLoanEvent(
+      settlement.loanId,
+      'liquidation_auction_settled',
+      settlement,
+    );
+  }
+
+  private roundUnits(value: number): number {
+    return Math.round(value * 1e8) / 1e8;
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -1,12 +1,24 @@
-import { Controller, Get, Post, Param, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Controller, Get, Post, Param, Body, Query, Request, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiBody, ApiQuery } from '@nestjs/swagger';
 import { LiquidationService } from './liquidation.service';
+import { LiquidationAuctionService } from './liquidation-auction.service';
+import { AuctionType } from '../entities/liquidation-auction.entity';
+import { UserRole } from '../entities/user.entity';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+export class PlaceAuctionBidDto {
+  amount: number;
+}
 
 @ApiTags('liquidation')
 @Controller('liquidation')
 export class LiquidationController {
-  constructor(private readonly liquidationService: LiquidationService) {}
+  constructor(
+    private readonly liquidationService: LiquidationService,
+    private readonly liquidationAuctionService: LiquidationAuctionService,
+  ) {}
 
   @Get('status')
   @UseGuards(JwtAuthGuard)
@@ -17,13 +29,34 @@ export class LiquidationController {
     return this.liquidationService.getLiquidationStatus();
   }
 
+  @Get('simulate')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Simulate liquidations under a hypothetical price shock (read-only)' })
+  @ApiQuery({ name: 'collateralPriceShock', type: Number, required: false, description: 'Fractional collateral price move, e.g. -0.3' })
+  @ApiQuery({ name: 'borrowPriceShock', type: Number, required: false, description: 'Fractional borrow token price move' })
+  @ApiResponse({ status: 200, description: 'Liquidation simulation completed' })
+  async simulateLiquidations(
+    @Query('collateralPriceShock') collateralPriceShock?: string,
+    @Query('borrowPriceShock') borrowPriceShock?: string,
+  ) {
+    return this.liquidationService.simulateLiquidations({
+      collateralPriceShock: Number(collateralPriceShock || 0),
+      borrowPriceShock: Number(borrowPriceShock || 0),
+    });
+  }
+
   @Post('trigger/:loanId')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Manually trigger liquidation for a loan' })
+  @ApiQuery({ name: 'auctionType', enum: AuctionType, required: false })
   @ApiResponse({ status: 200, description: 'Liquidation triggered successfully' })
-  async triggerLiquidation(@Param('loanId') loanId: string) {
-    return this.liquidationService.triggerLiquidation(loanId);
+  async triggerLiquidation(
+    @Param('loanId') loanId: string,
+    @Query('auctionType') auctionType?: AuctionType,
+  ) {
+    return this.liquidationService.triggerLiquidation(loanId, auctionType);
   }
 
   @Get('history')
@@ -34,4 +67,37 @@ export class LiquidationController {
   async getLiquidationHistory() {
     return this.liquidationService.getLiquidationHistory();
   }
+
+  @Get('auctions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List open liquidation auctions with current prices' })
+  @ApiResponse({ status: 200, description: 'Open auctions retrieved' })
+  async getOpenAuctions() {
+    return this.liquidationAuctionService.getOpenAuctions();
+  }
+
+  @Get('auctions/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get a liquidation auction and its bids' })
+  @ApiResponse({ status: 200, description: 'Auction retrieved' })
+  async getAuction(@Param('id') auctionId: string) {
+    return this.liquidationAuctionService.getAuction(auctionId);
+  }
+
+  @Post('auctions/:id/bids')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.LIQUIDATOR)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Bid on a liquidation auction in the loan's borrow token" })
+  @ApiBody({ type: PlaceAuctionBidDto })
+  @ApiResponse({ status: 201, description: 'Bid placed' })
+  async placeBid(
+    @Request() req,
+    @Param('id') auctionId: string,
+    @Body() bidData: PlaceAuctionBidDto,
+  ) {
+    return this.liquidationAuctionService.placeBid(auctionId, req.user.id, bidData.amount);
+  }
 }
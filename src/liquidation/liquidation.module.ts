@@ -2,19 +2,31 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { LiquidationService } from './liquidation.service';
 import { LiquidationController } from './liquidation.controller';
+import { LiquidationAuctionService } from './liquidation-auction.service';
 import { ActiveLoan } from '../entities/active-loan.entity';
 import { User } from '../entities/user.entity';
+import { LiquidationAuction } from '../entities/liquidation-auction.entity';
+import { AuctionBid } from '../entities/auction-bid.entity';
 import { SolanaModule } from '../solana/solana.module';
 import { MonitoringModule } from '../monitoring/monitoring.module';
+import { CollateralModule } from '../collateral/collateral.module';
+import { GovernanceModule } from '../governance/governance.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([ActiveLoan, User]),
+    TypeOrmModule.forFeature([
+      ActiveLoan,
+      User,
+      LiquidationAuction,
+      AuctionBid,
+    ]),
     SolanaModule,
     MonitoringModule,
+    CollateralModule,
+    GovernanceModule,
   ],
-  providers: [LiquidationService],
+  providers: [LiquidationService, LiquidationAuctionService],
   controllers: [LiquidationController],
-  exports: [LiquidationService],
+  exports: [LiquidationService, LiquidationAuctionService],
 })
 export class LiquidationModule {}
@@ -0,0 +1,218 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { LiquidationService } from './liquidation.service';
+import { LiquidationAuctionService } from './liquidation-auction.service';
+import { SolanaService } from '../solana/solana.service';
+import { MonitoringService } from '../monitoring/monitoring.service';
+import { CollateralService } from '../collateral/collateral.service';
+import { ProtocolConfigService } from '../governance/protocol-config.service';
+import { ActiveLoan, ActiveLoanStatus } from '../entities/active-loan.entity';
+import { User } from '../entities/user.entity';
+
+describe('LiquidationService', () => {
+  const loans = [
+    { id: 'healthy', remainingAmount: 1000, collateralValue: 2000 },
+    { id: 'thin', remainingAmount: 1000, collateralValue: 1600 },
+    { id: 'underwater', remainingAmount: 1000, collateralValue: 1300 },
+  ].map((loan) => ({ ...loan, status: ActiveLoanStatus.ACTIVE }) as any);
+
+  let activeLoanRepository: any;
+  let liquidationAuctionService: any;
+  let eventEmitter: any;
+  let lockedLoan: any;
+  let collateralService: any;
+  let liquidationService: LiquidationService;
+
+  beforeEach(async () => {
+    activeLoanRepository = {
+      find: jest.fn(async () => loans),
+      update: jest.fn(),
+    };
+    liquidationAuctionService = {
+      openAuction: jest.fn(async () => ({ id: 'auction-1' })),
+    };
+    eventEmitter = { emit: jest.fn() };
+    const manager = {
+      findOne: jest.fn(async () => lockedLoan),
+      save: jest.fn(async (entity) => entity),
+    };
+    collateralService = {
+      getCollateralValue: jest.fn(async (loan: ActiveLoan) =>
+        Number(loan.collateralValue),
+      ),
+      getBorrowTokenPrice: jest.fn(async () => 1),
+      seizeCollateral: jest.fn(async () => []),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        LiquidationService,
+        {
+          provide: getRepositoryToken(ActiveLoan),
+          useValue: activeLoanRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: {} },
+        { provide: SolanaService, useValue: {} },
+        {
+          provide: MonitoringService,
+          useValue: { trackLoanEvent: jest.fn(), recordError: jest.fn() },
+        },
+        { provide: CollateralService, useValue: collateralService },
+        {
+          provide: LiquidationAuctionService,
+          useValue: liquidationAuctionService,
+        },
+        {
+          provide: ProtocolConfigService,
+          useValue: {
+            getParameters: () => ({
+              liquidationThreshold: 1.2,
+              minCollateralRatio: 1.5,
+              liquidationPenalty: 0.05,
+            }),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key, defaultValue) => defaultValue) },
+        },
+        { provide: EventEmitter2, useValue: eventEmitter },
+        {
+          provide: DataSource,
+          useValue: { transaction: jest.fn((work) => work(manager)) },
+        },
+      ],
+    }).compile();
+
+    liquidationService = module.get(LiquidationService);
+  });
+
+  it('should report loans a collateral shock would liquidate', async () => {
+    const simulation = await liquidationService.simulateLiquidations({
+      collateralPriceShock: -0.3,
+    });
+
+    expect(simulation.loansLiquidated).toBe(2);
+    expect(simulation.loans.map((loan) => loan.loanId)).toEqual([
+      'thin',
+      'underwater',
+    ]);
+
+    const [thin, underwater] = simulation.loans;
+    expect(thin.currentCollateralRatio).toBeCloseTo(1.12);
+    expect(thin.collateralRatioBeforeShock).toBeCloseTo(1.6);
+    // Only enough debt to restore a 1.5 ratio: (1500 - 1120) / 0.45
+    expect(thin.liquidationValue).toBe(844.44);
+    expect(thin.penaltyRevenue).toBe(42.22);
+    expect(thin.shortfall).toBe(0);
+    expect(underwater.liquidationValue).toBe(1000);
+    expect(underwater.penaltyRevenue).toBe(0);
+    expect(underwater.shortfall).toBe(90);
+    expect(simulation.totalPenaltyRevenue).toBe(42.22);
+    expect(simulation.totalShortfall).toBe(90);
+  });
+
+  it('should never write or liquidate while simulating or reporting status', async () => {
+    await liquidationService.simulateLiquidations({
+      collateralPriceShock: -0.5,
+    });
+    const status = await liquidationService.getLiquidationStatus();
+
+    expect(status.atRiskLoans).toBe(1);
+    expect(activeLoanRepository.update).not.toHaveBeenCalled();
+    expect(liquidationAuctionService.openAuction).not.toHaveBeenCalled();
+  });
+
+  it('should issue a margin call instead of liquidating within the window', async () => {
+    lockedLoan = {
+      id: 'critical',
+      borrowerId: 'borrower-1',
+      borrowTokenId: 'usdc',
+      status: ActiveLoanStatus.ACTIVE,
+      remainingAmount: 1000,
+      collateralValue: 1100,
+    };
+
+    await liquidationService.checkLoanForLiquidation(lockedLoan);
+
+    expect(lockedLoan.metadata.marginCall).toMatchObject({
+      collateralRatio: 1.1,
+      collateralShortfall: 400,
+      repaymentRequired: 266.67,
+    });
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      'margin_call_issued',
+      expect.objectContaining({ loanId: 'critical', borrowerId: 'borrower-1' }),
+    );
+    expect(liquidationAuctionService.openAuction).not.toHaveBeenCalled();
+  });
+
+  it('should liquidate just enough to restore health once the margin call expires', async () => {
+    lockedLoan = {
+      id: 'critical',
+      borrowerId: 'borrower-1',
+      borrowTokenId: 'usdc',
+      status: ActiveLoanStatus.ACTIVE,
+      remainingAmount: 1000,
+      collateralValue: 1100,
+      metadata: {
+        marginCall: { deadline: new Date(Date.now() - 1000).toISOString() },
+      },
+    };
+
+    await liquidationService.checkLoanForLiquidation(lockedLoan);
+
+    expect(lockedLoan.metadata.marginCall.expiredAt).toBeDefined();
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      'margin_call_expired',
+      expect.anything(),
+    );
+    const [, , , debtToCover] =
+      liquidationAuctionService.openAuction.mock.calls[0];
+    expect(debtToCover).toBeCloseTo(400 / 0.45);
+  });
+
+  it('should seize only the collateral covering a partial liquidation of a loan without a borrow token', async () => {
+    lockedLoan = {
+      id: 'legacy',
+      borrowerId: 'borrower-1',
+      status: ActiveLoanStatus.ACTIVE,
+      remainingAmount: 1000,
+      collateralValue: 1100,
+      metadata: {
+        marginCall: { deadline: new Date(Date.now() - 1000).toISOString() },
+      },
+    };
+
+    const result = await liquidationService.liquidateLoan(
+      lockedLoan,
+      400 / 0.45,
+    );
+
+    // 888.89 of debt plus the 5% penalty out of 1100 of collateral
+    const [, , share] = collateralService.seizeCollateral.mock.calls[0];
+    expect(share).toBeCloseTo(933.33 / 1100);
+    expect(result).toMatchObject({
+      success: true,
+      liquidatedAmount: 888.89,
+      remainingDebt: 111.11,
+    });
+    expect(lockedLoan).toMatchObject({
+      status: ActiveLoanStatus.ACTIVE,
+      remainingAmount: 111.11,
+      collateralValue: 166.67,
+      currentCollateralRatio: 1.5,
+    });
+    expect(lockedLoan.metadata.marginCall).toBeUndefined();
+    expect(liquidationAuctionService.openAuction).not.toHaveBeenCalled();
+  });
+
+  it('should reject shocks that wipe out the price', async () => {
+    await expect(
+      liquidationService.simulateLiquidations({ collateralPriceShock: -1 }),
+    ).rejects.toThrow('Price shocks must be numbers greater than -1');
+  });
+});
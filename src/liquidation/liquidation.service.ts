@@ -1,11 +1,17 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, Repository } from 'typeorm';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { ActiveLoan, ActiveLoanStatus } from '../entities/active-loan.entity';
 import { User } from '../entities/user.entity';
 import { SolanaService } from '../solana/solana.service';
 import { MonitoringService } from '../monitoring/monitoring.service';
+import { CollateralService } from '../collateral/collateral.service';
+import { LiquidationAuctionService } from './liquidation-auction.service';
+import { AuctionType } from '../entities/liquidation-auction.entity';
+import { ProtocolConfigService } from '../governance/protocol-config.service';
 
 export interface LiquidationCheck {
   loanId: string;
@@ -15,6 +21,7 @@ export interface LiquidationCheck {
   liquidationAmount: number;
   collateralValue: number;
   debtAmount: number;
+  debtValue: number;
 }
 
 export interface LiquidationResult {
@@ -23,14 +30,61 @@ export interface LiquidationResult {
   liquidatedAmount: number;
   remainingDebt: number;
   transactionHash?: string;
+  auctionId?: string;
   error?: string;
 }
 
+export enum MarginCallEvent {
+  ISSUED = 'margin_call_issued',
+  RESOLVED = 'margin_call_resolved',
+  EXPIRED = 'margin_call_expired',
+}
+
+export interface MarginCall {
+  issuedAt: Date;
+  deadline: Date;
+  expiredAt?: Date;
+  collateralRatio: number;
+  requiredCollateralRatio: number;
+  collateralShortfall: number; // USD of collateral to add to restore the required ratio
+  repaymentRequired: number; // borrow token units to repay instead
+}
+
+export interface MarginCallNotification {
+  event: MarginCallEvent;
+  loanId: string;
+  borrowerId: string;
+  marginCall: MarginCall;
+}
+
+export interface PriceShock {
+  collateralPriceShock?: number;
+  borrowPriceShock?: number;
+}
+
+export interface SimulatedLiquidation extends LiquidationCheck {
+  collateralRatioBeforeShock: number;
+  liquidationValue: number; // USD
+  penaltyRevenue: number; // USD
+  shortfall: number; // USD of debt the collateral would not cover
+}
+
+export interface LiquidationSimulation {
+  collateralPriceShock: number;
+  borrowPriceShock: number;
+  totalActiveLoans: number;
+  loansLiquidated: number;
+  totalLiquidationValue: number;
+  totalPenaltyRevenue: number;
+  totalShortfall: number;
+  loans: SimulatedLiquidation[];
+  failedLoanIds: string[];
+}
+
 @Injectable()
 export class LiquidationService {
   private readonly logger = new Logger(LiquidationService.name);
-  private readonly LIQUIDATION_THRESHOLD = 1.2; // 120% collateral ratio threshold
-  private readonly LIQUIDATION_PENALTY = 0.05; // 5% penalty
+  private readonly DEFAULT_MARGIN_CALL_WINDOW_HOURS = 24;
 
   constructor(
     @InjectRepository(ActiveLoan)
@@ -39,6 +93,12 @@ export class LiquidationService {
     private userRepository: Repository<User>,
     private solanaService: SolanaService,
     private monitoringService: MonitoringService,
+    private collateralService: CollateralService,
+    private liquidationAuctionService: LiquidationAuctionService,
+    private protocolConfigService: ProtocolConfigService,
+    private configService: ConfigService,
+    private eventEmitter: EventEmitter2,
+    private dataSource: DataSource,
   ) {}
 
   /**
@@ -66,42 +126,32 @@ export class LiquidationService {
   }
 
   /**
-   * Check individual loan for liquidation
+   * Check individual loan for liquidation, record its current collateral
+   * ratio and margin call, and liquidate it if it is under the threshold
+   * once its margin call has expired
    */
   async checkLoanForLiquidation(loan: ActiveLoan): Promise<LiquidationCheck | null> {
     try {
-      // Get current collateral value (in production, this would be real-time)
-      const collateralValue = await this.getCurrentCollateralValue(loan);
-      const debtAmount = loan.remainingAmount;
-      const currentRatio = collateralValue / debtAmount;
-      const requiredRatio = this.LIQUIDATION_THRESHOLD;
-
-      const needsLiquidation = currentRatio < requiredRatio;
-      const liquidationAmount = needsLiquidation ? 
-        debtAmount - (collateralValue / requiredRatio) : 0;
-
-      const check: LiquidationCheck = {
-        loanId: loan.id,
-        currentCollateralRatio: currentRatio,
-        requiredCollateralRatio: requiredRatio,
-        needsLiquidation,
-        liquidationAmount: Math.max(0, liquidationAmount),
-        collateralValue,
-        debtAmount,
-      };
+      const check = await this.evaluateLoan(loan);
 
       // Update loan with current collateral ratio
       await this.activeLoanRepository.update(loan.id, {
-        currentCollateralRatio: currentRatio,
-        collateralValue,
+        currentCollateralRatio: check.currentCollateralRatio,
+        collateralValue: check.collateralValue,
       });
 
-      if (needsLiquidation) {
-        this.logger.warn(`Loan ${loan.id} needs liquidation. Ratio: ${currentRatio.toFixed(2)}`);
+      const marginCall = await this.updateMarginCall(loan.id, check);
+      if (check.needsLiquidation && !marginCall?.expiredAt) {
+        this.logger.warn(`Loan ${loan.id} is below the liquidation threshold within its margin call window`);
+        return check;
+      }
+
+      if (check.needsLiquidation) {
+        this.logger.warn(`Loan ${loan.id} needs liquidation. Ratio: ${check.currentCollateralRatio.toFixed(2)}`);
         await this.monitoringService.trackLoanEvent(loan.id, 'liquidation_required', check);
         
         // Trigger liquidation
-        await this.liquidateLoan(loan, liquidationAmount);
+        await this.liquidateLoan(loan, check.liquidationAmount);
       }
 
       return check;
@@ -113,18 +163,166 @@ export class LiquidationService {
   }
 
   /**
-   * Liquidate a loan
+   * Evaluate a loan against the governance liquidation threshold without
+   * writing anything. The liquidation amount is just enough debt to bring
+   * the collateral left after covering it and the penalty back to the
+   * minimum collateral ratio, or all of it. Price shocks are fractional
+   * moves applied to the current oracle prices, e.g. -0.3 for a 30% drop.
+   */
+  async evaluateLoan(loan: ActiveLoan, shock: PriceShock = {}): Promise<LiquidationCheck> {
+    const collateralValue =
+      (await this.getCurrentCollateralValue(loan)) * (1 + (shock.collateralPriceShock || 0));
+    const debtAmount = Number(loan.remainingAmount);
+    // Compare in USD; the debt may be denominated in any token
+    const borrowTokenPrice =
+      (await this.collateralService.getBorrowTokenPrice(loan)) * (1 + (shock.borrowPriceShock || 0));
+    const debtValue = debtAmount * borrowTokenPrice;
+    const currentRatio = collateralValue / debtValue;
+    const { liquidationThreshold, minCollateralRatio, liquidationPenalty } =
+      this.protocolConfigService.getParameters();
+    const requiredRatio = liquidationThreshold;
+
+    const needsLiquidation = currentRatio < requiredRatio;
+    const targetRatio = minCollateralRatio;
+    const restoringValue =
+      (targetRatio * debtValue - collateralValue) / (targetRatio - 1 - liquidationPenalty);
+    const liquidationAmount = needsLiquidation
+      ? Math.min(debtAmount, restoringValue / borrowTokenPrice)
+      : 0;
+
+    return {
+      loanId: loan.id,
+      currentCollateralRatio: currentRatio,
+      requiredCollateralRatio: requiredRatio,
+      needsLiquidation,
+      liquidationAmount: Math.max(0, liquidationAmount),
+      collateralValue,
+      debtAmount,
+      debtValue,
+    };
+  }
+
+  /**
+   * Simulate a price shock across all active loans and report which would
+   * be liquidated once their margin calls expire, for how much, and the
+   * penalty revenue and bad debt that would result. Read-only: nothing is
+   * written or liquidated.
    */
-  async liquidateLoan(loan: ActiveLoan, liquidationAmount: number): Promise<LiquidationResult> {
+  async simulateLiquidations(shock: PriceShock): Promise<LiquidationSimulation> {
+    const shocks = [shock.collateralPriceShock ?? 0, shock.borrowPriceShock ?? 0];
+    if (!shocks.every((value) => Number.isFinite(value) && value > -1)) {
+      throw new Error('Price shocks must be numbers greater than -1');
+    }
+
+    const activeLoans = await this.activeLoanRepository.find({
+      where: { status: ActiveLoanStatus.ACTIVE },
+    });
+
+    const { liquidationPenalty } = this.protocolConfigService.getParameters();
+    const loans: SimulatedLiquidation[] = [];
+    const failedLoanIds: string[] = [];
+    for (const loan of activeLoans) {
+      try {
+        const current = await this.evaluateLoan(loan);
+        const shocked = await this.evaluateLoan(loan, shock);
+        const borrowTokenPrice = shocked.debtAmount > 0 ? shocked.debtValue / shocked.debtAmount : 0;
+        const liquidationValue = shocked.liquidationAmount * borrowTokenPrice;
+        // An auction recovers up to the collateral's value; the penalty
+        // comes out of what is left after the liquidated debt
+        const recoveredValue = Math.min(shocked.collateralValue, liquidationValue);
+        const penaltyRevenue = shocked.needsLiquidation
+          ? Math.min(shocked.collateralValue - recoveredValue, liquidationValue * liquidationPenalty)
+          : 0;
+
+        loans.push({
+          ...shocked,
+          liquidationValue: this.roundCurrency(liquidationValue),
+          penaltyRevenue: this.roundCurrency(penaltyRevenue),
+          shortfall: shocked.needsLiquidation
+            ? this.roundCurrency(liquidationValue - recoveredValue)
+            : 0,
+          collateralRatioBeforeShock: current.currentCollateralRatio,
+        });
+      } catch (error) {
+        this.logger.warn(`Could not simulate loan ${loan.id}: ${error.message}`);
+        failedLoanIds.push(loan.id);
+      }
+    }
+
+    const liquidated = loans.filter((loan) => loan.needsLiquidation);
+
+    return {
+      collateralPriceShock: shock.collateralPriceShock || 0,
+      borrowPriceShock: shock.borrowPriceShock || 0,
+      totalActiveLoans: activeLoans.length,
+      loansLiquidated: liquidated.length,
+      totalLiquidationValue: this.roundCurrency(
+        liquidated.reduce((sum, loan) => sum + loan.liquidationValue, 0),
+      ),
+      totalPenaltyRevenue: this.roundCurrency(
+        liquidated.reduce((sum, loan) => sum + loan.penaltyRevenue, 0),
+      ),
+      totalShortfall: this.roundCurrency(
+        liquidated.reduce((sum, loan) => sum + loan.shortfall, 0),
+      ),
+      loans: liquidated,
+      failedLoanIds,
+    };
+  }
+
+  /**
+   * Liquidate a loan. Loans denominated in a borrow token are sold to
+   * liquidators by auction, only as much collateral as covers the
+   * liquidation amount; the winning bid settles the debt later. Other
+   * loans hand their lenders the collateral covering the liquidation
+   * amount and penalty, all of it only when the whole debt is liquidated.
+   */
+  async liquidateLoan(
+    loan: ActiveLoan,
+    liquidationAmount: number,
+    auctionType?: AuctionType,
+  ): Promise<LiquidationResult> {
     try {
       this.logger.log(`Starting liquidation for loan ${loan.id}, amount: ${liquidationAmount}`);
+      const { liquidationPenalty } = this.protocolConfigService.getParameters();
+
+      if (loan.borrowTokenId) {
+        const auction = await this.liquidationAuctionService.openAuction(
+          loan.id,
+          liquidationPenalty,
+          auctionType,
+          liquidationAmount,
+        );
+
+        return {
+          success: true,
+          loanId: loan.id,
+          liquidatedAmount: 0,
+          remainingDebt: Number(loan.remainingAmount),
+          auctionId: auction.id,
+        };
+      }
 
       // Calculate liquidation penalty
-      const penaltyAmount = liquidationAmount * this.LIQUIDATION_PENALTY;
+      const penaltyAmount = liquidationAmount * liquidationPenalty;
       const totalLiquidationAmount = liquidationAmount + penaltyAmount;
 
-      // Check if borrower has sufficient collateral
-      const collateralValue = await this.getCurrentCollateralValue(loan);
+      // Check if borrower has sufficient collateral, in borrow token units
+      const collateralValue =
+        (await this.getCurrentCollateralValue(loan)) /
+        (await this.collateralService.getBorrowTokenPrice(loan));
+      if (
+        collateralValue >= totalLiquidationAmount &&
+        liquidationAmount < Number(loan.remainingAmount)
+      ) {
+        return await this.liquidatePartially(
+          loan,
+          liquidationAmount,
+          totalLiquidationAmount,
+          collateralValue,
+        );
+      }
+
       if (collateralValue < totalLiquidationAmount) {
         // Partial liquidation
         const actualLiquidationAmount = collateralValue * 0.95; // 95% of collateral value
@@ -187,6 +385,73 @@ export class LiquidationService {
     }
   }
 
+  /**
+   * Seize the share of a loan's collateral that covers the liquidation
+   * amount and penalty and reduce the debt by the liquidation amount. The
+   * loan carries on with its remaining collateral; any margin call is
+   * answered.
+   */
+  private async liquidatePartially(
+    loan: ActiveLoan,
+    liquidationAmount: number,
+    seizedValue: number,
+    collateralValue: number,
+  ): Promise<LiquidationResult> {
+    const collateralShare = seizedValue / collateralValue;
+    const liquidatedAmount = this.roundCurrency(liquidationAmount);
+    const transactionHash = `liquidation_${loan.id}_${Date.now()}`;
+
+    const { transfers, remainingDebt } = await this.dataSource.transaction(async (manager) => {
+      const lockedLoan = await manager.findOne(ActiveLoan, {
+        where: { id: loan.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!lockedLoan || lockedLoan.status !== ActiveLoanStatus.ACTIVE) {
+        throw new Error('Loan is not active');
+      }
+
+      const transfers = await this.collateralService.seizeCollateral(manager, lockedLoan, collateralShare);
+      const remainingDebt = this.roundCurrency(Number(lockedLoan.remainingAmount) - liquidatedAmount);
+      const remainingCollateral = this.roundCurrency(collateralValue - seizedValue);
+      const { marginCall, ...metadata } = lockedLoan.metadata || {};
+
+      lockedLoan.remainingAmount = remainingDebt;
+      lockedLoan.collateralValue = remainingCollateral;
+      lockedLoan.currentCollateralRatio =
+        remainingDebt > 0 ? this.roundCurrency(remainingCollateral / remainingDebt) : null;
+      lockedLoan.metadata = {
+        ...metadata,
+        partialLiquidations: [
+          ...(metadata.partialLiquidations || []),
+          {
+            liquidatedAmount,
+            seizedValue: this.roundCurrency(seizedValue),
+            collateralShare,
+            transactionHash,
+            liquidatedAt: new Date(),
+          },
+        ],
+      };
+      await manager.save(lockedLoan);
+
+      return { transfers, remainingDebt };
+    });
+
+    await this.monitoringService.trackLoanEvent(loan.id, 'collateral_seized', { transfers });
+    await this.monitoringService.trackLoanEvent(loan.id, 'loan_liquidated_partial', {
+      liquidatedAmount,
+      remainingDebt,
+    });
+
+    return {
+      success: true,
+      loanId: loan.id,
+      liquidatedAmount,
+      remainingDebt,
+      transactionHash,
+    };
+  }
+
   /**
    * Execute the actual liquidation transaction
    */
@@ -204,14 +469,18 @@ export class LiquidationService {
         throw new Error('Borrower wallet not found');
       }
 
-      // Simulate collateral transfer to lender
+      // Transfer the pledged collateral from borrower to lender(s)
+      const transfers = await this.dataSource.transaction((manager) =>
+        this.collateralService.seizeCollateral(manager, loan),
+      );
       const transactionHash = `liquidation_${loan.id}_${Date.now()}`;
-      
-      // In production, this would:
-      // 1. Transfer collateral from borrower to lender
-      // 2. Update token balances
-      // 3. Record the transaction on Solana
-      
+
+      // In production, this would also record the transaction on Solana
+
+      await this.monitoringService.trackLoanEvent(loan.id, 'collateral_seized', {
+        transfers,
+      });
+
       this.logger.log(`Liquidation transaction executed: ${transactionHash}`);
       
       return { transactionHash };
@@ -222,22 +491,87 @@ export class LiquidationService {
   }
 
   /**
-   * Get current collateral value for a loan
+   * Get current collateral value for a loan at oracle prices. Throws when
+   * no valid price is available so a loan is never liquidated on a guess.
    */
   private async getCurrentCollateralValue(loan: ActiveLoan): Promise<number> {
-    try {
-      // In production, this would fetch real-time prices from oracles
-      // For now, we'll use a simulated value
-      
-      const baseValue = loan.collateralValue || (loan.principalAmount * 2);
-      const volatility = 0.1; // 10% volatility
-      const randomFactor = (Math.random() - 0.5) * 2 * volatility;
-      
-      return baseValue * (1 + randomFactor);
-    } catch (error) {
-      this.logger.error('Error getting collateral value', error);
-      return loan.collateralValue || 0;
+    return this.collateralService.getCollateralValue(loan);
+  }
+
+  /**
+   * Open a margin call when the loan falls below the minimum collateral
+   * ratio, expire it at its deadline and clear it once the ratio is
+   * restored, notifying the borrower of each change. Returns the open
+   * margin call.
+   */
+  private async updateMarginCall(loanId: string, check: LiquidationCheck): Promise<MarginCall | null> {
+    const windowHours = Number(
+      this.configService.get('MARGIN_CALL_WINDOW_HOURS', this.DEFAULT_MARGIN_CALL_WINDOW_HOURS),
+    );
+    const { minCollateralRatio } = this.protocolConfigService.getParameters();
+    const now = new Date();
+
+    const { borrowerId, marginCall, notification } = await this.dataSource.transaction(async (manager) => {
+      const loan = await manager.findOne(ActiveLoan, {
+        where: { id: loanId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!loan || loan.status !== ActiveLoanStatus.ACTIVE) {
+        return { borrowerId: null, marginCall: null, notification: null };
+      }
+
+      const { marginCall: current, ...metadata } = loan.metadata || {};
+      let marginCall: MarginCall | null = current || null;
+      let event: MarginCallEvent;
+
+      if (check.currentCollateralRatio >= minCollateralRatio) {
+        if (!marginCall) {
+          return { borrowerId: loan.borrowerId, marginCall: null, notification: null };
+        }
+        loan.metadata = metadata;
+        event = MarginCallEvent.RESOLVED;
+      } else if (!marginCall) {
+        marginCall = {
+          issuedAt: now,
+          deadline: new Date(now.getTime() + windowHours * 60 * 60 * 1000),
+          collateralRatio: this.roundCurrency(check.currentCollateralRatio),
+          requiredCollateralRatio: minCollateralRatio,
+          collateralShortfall: this.roundCurrency(
+            minCollateralRatio * check.debtValue - check.collateralValue,
+          ),
+          repaymentRequired: this.roundCurrency(
+            check.debtAmount * (1 - check.collateralValue / (minCollateralRatio * check.debtValue)),
+          ),
+        };
+        loan.metadata = { ...metadata, marginCall };
+        event = MarginCallEvent.ISSUED;
+      } else if (!marginCall.expiredAt && now >= new Date(marginCall.deadline)) {
+        marginCall = { ...marginCall, expiredAt: now };
+        loan.metadata = { ...metadata, marginCall };
+        event = MarginCallEvent.EXPIRED;
+      } else {
+        return { borrowerId: loan.borrowerId, marginCall, notification: null };
+      }
+
+      await manager.save(loan);
+      return {
+        borrowerId: loan.borrowerId,
+        marginCall: event === MarginCallEvent.RESOLVED ? null : marginCall,
+        notification: { event, marginCall },
+      };
+    });
+
+    if (notification) {
+      this.logger.log(`Loan ${loanId}: ${notification.event}`);
+      await this.monitoringService.trackLoanEvent(loanId, notification.event, notification.marginCall);
+      this.eventEmitter.emit(notification.event, {
+        ...notification,
+        loanId,
+        borrowerId,
+      } as MarginCallNotification);
     }
+
+    return marginCall;
   }
 
   /**
@@ -247,6 +581,7 @@ export class LiquidationService {
     totalActiveLoans: number;
     atRiskLoans: number;
     criticalLoans: number;
+    marginCallLoans: number;
     liquidationChecks: LiquidationCheck[];
   }> {
     const activeLoans = await this.activeLoanRepository.find({
@@ -256,18 +591,29 @@ export class LiquidationService {
     const liquidationChecks: LiquidationCheck[] = [];
     let atRiskLoans = 0;
     let criticalLoans = 0;
+    const { liquidationThreshold, minCollateralRatio } =
+      this.protocolConfigService.getParameters();
+    const marginCallLoans = activeLoans.filter(
+      (loan) => loan.metadata?.marginCall,
+    ).length;
 
+    // Read-only: evaluating never records ratios or triggers liquidation
     for (const loan of activeLoans) {
-      const check = await this.checkLoanForLiquidation(loan);
-      if (check) {
-        liquidationChecks.push(check);
-        
-        if (check.currentCollateralRatio < 1.5) {
-          atRiskLoans++;
-        }
-        if (check.currentCollateralRatio < 1.2) {
-          criticalLoans++;
-        }
+      let check: LiquidationCheck;
+      try {
+        check = await this.evaluateLoan(loan);
+      } catch (error) {
+        this.logger.warn(`Could not evaluate loan ${loan.id}: ${error.message}`);
+        continue;
+      }
+
+      liquidationChecks.push(check);
+
+      if (check.currentCollateralRatio < minCollateralRatio) {
+        atRiskLoans++;
+      }
+      if (check.currentCollateralRatio < liquidationThreshold) {
+        criticalLoans++;
       }
     }
 
@@ -275,14 +621,19 @@ export class LiquidationService {
       totalActiveLoans: activeLoans.length,
       atRiskLoans,
       criticalLoans,
+      marginCallLoans,
       liquidationChecks,
     };
   }
 
   /**
-   * Manual liquidation trigger (for admin use)
+   * Manual liquidation trigger (for admin use). The loan's margin call
+   * must have expired.
    */
-  async triggerLiquidation(loanId: string): Promise<LiquidationResult> {
+  async triggerLiquidation(
+    loanId: string,
+    auctionType?: AuctionType,
+  ): Promise<LiquidationResult> {
     const loan = await this.activeLoanRepository.findOne({
       where: { id: loanId, status: ActiveLoanStatus.ACTIVE },
     });
@@ -291,12 +642,16 @@ export class LiquidationService {
       throw new Error('Active loan not found');
     }
 
-    const check = await this.checkLoanForLiquidation(loan);
-    if (!check || !check.needsLiquidation) {
+    const check = await this.evaluateLoan(loan);
+    if (!check.needsLiquidation) {
       throw new Error('Loan does not meet liquidation criteria');
     }
 
-    return this.liquidateLoan(loan, check.liquidationAmount);
+    if (!loan.metadata?.marginCall?.expiredAt) {
+      throw new Error('Loan margin call has not expired');
+    }
+
+    return this.liquidateLoan(loan, check.liquidationAmount, auctionType);
   }
 
   /**
@@ -310,4 +665,8 @@ export class LiquidationService {
       relations: ['borrower', 'lender'],
     });
   }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
 }
@@ -6,8 +6,16 @@ import {
   Param,
   HttpException,
   HttpStatus,
+  Request,
+  UseGuards,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import {
   MagicBlockService,
   RealTimeTransaction,
@@ -18,6 +26,11 @@ import {
   TransactionMetadata,
   RoutedTransaction,
 } from './magic-router.service';
+import { UserRole } from '../entities/user.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { WhenNotPaused } from '../governance/decorators/when-not-paused.decorator';
 
 @ApiTags('MagicBlock Real-time Operations')
 @Controller('magicblock')
@@ -28,6 +41,10 @@ export class MagicBlockController {
   ) {}
 
   @Post('delegate-account')
+  @WhenNotPaused()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
   @ApiOperation({
     summary: 'Delegate account to Ephemeral Rollup for real-time processing',
   })
@@ -72,6 +89,10 @@ export class MagicBlockController {
   }
 
   @Post('real-time-loan-approval')
+  @WhenNotPaused()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.BORROWER)
+  @ApiBearerAuth()
   @ApiOperation({
     summary: 'Process real-time loan approval using Ephemeral Rollups',
   })
@@ -83,19 +104,28 @@ export class MagicBlockController {
           type: 'string',
           description: 'Loan application ID',
         },
-        borrowerId: { type: 'string', description: 'Borrower user ID' },
         amount: { type: 'number', description: 'Loan amount' },
         interestRate: { type: 'number', description: 'Interest rate' },
         duration: { type: 'number', description: 'Loan duration in days' },
         collateralRatio: { type: 'number', description: 'Collateral ratio' },
+        borrowTokenId: {
+          type: 'string',
+          description: 'Token the loan is denominated in',
+        },
+        collateralTokenIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Tokens accepted as collateral',
+        },
       },
       required: [
         'loanApplicationId',
-        'borrowerId',
         'amount',
         'interestRate',
         'duration',
         'collateralRatio',
+        'borrowTokenId',
+        'collateralTokenIds',
       ],
     },
   })
@@ -106,24 +136,28 @@ export class MagicBlockController {
   @ApiResponse({ status: 400, description: 'Invalid request parameters' })
   @ApiResponse({ status: 500, description: 'Loan approval processing failed' })
   async processRealTimeLoanApproval(
+    @Request() req,
     @Body()
     body: {
       loanApplicationId: string;
-      borrowerId: string;
       amount: number;
       interestRate: number;
       duration: number;
       collateralRatio: number;
+      borrowTokenId: string;
+      collateralTokenIds: string[];
     }
   ): Promise<RealTimeTransaction> {
     try {
       return await this.magicBlockService.processRealTimeLoanApproval(
         body.loanApplicationId,
-        body.borrowerId,
+        req.user.id,
         body.amount,
         body.interestRate,
         body.duration,
-        body.collateralRatio
+        body.collateralRatio,
+        body.borrowTokenId,
+        body.collateralTokenIds
       );
     } catch (error) {
       throw new HttpException(
@@ -134,6 +168,9 @@ export class MagicBlockController {
   }
 
   @Post('real-time-payment')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.BORROWER)
+  @ApiBearerAuth()
   @ApiOperation({
     summary: 'Process real-time loan payment using Ephemeral Rollups',
   })
@@ -143,12 +180,8 @@ export class MagicBlockController {
       properties: {
         loanId: { type: 'string', description: 'Active loan ID' },
         paymentAmount: { type: 'number', description: 'Payment amount' },
-        borrowerSecretKey: {
-          type: 'string',
-          description: 'Borrower secret key for signing',
-        },
       },
-      required: ['loanId', 'paymentAmount', 'borrowerSecretKey'],
+      required: ['loanId', 'paymentAmount'],
     },
   })
   @ApiResponse({
@@ -158,18 +191,18 @@ export class MagicBlockController {
   @ApiResponse({ status: 400, description: 'Invalid request parameters' })
   @ApiResponse({ status: 500, description: 'Payment processing failed' })
   async processRealTimePayment(
+    @Request() req,
     @Body()
     body: {
       loanId: string;
       paymentAmount: number;
-      borrowerSecretKey: string;
     }
   ): Promise<RealTimeTransaction> {
     try {
       return await this.magicBlockService.processRealTimePayment(
         body.loanId,
         body.paymentAmount,
-        body.borrowerSecretKey
+        req.user.id
       );
     } catch (error) {
       throw new HttpException(
@@ -180,6 +213,10 @@ export class MagicBlockController {
   }
 
   @Post('real-time-loan-offer')
+  @WhenNotPaused()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.LENDER)
+  @ApiBearerAuth()
   @ApiOperation({
     summary: 'Create real-time loan offer using Ephemeral Rollups',
   })
@@ -187,7 +224,6 @@ export class MagicBlockController {
     schema: {
       type: 'object',
       properties: {
-        lenderId: { type: 'string', description: 'Lender user ID' },
         loanApplicationId: {
           type: 'string',
           description: 'Loan application ID',
@@ -200,7 +236,6 @@ export class MagicBlockController {
         terms: { type: 'string', description: 'Loan terms and conditions' },
       },
       required: [
-        'lenderId',
         'loanApplicationId',
         'offeredAmount',
         'offeredInterestRate',
@@ -215,9 +250,9 @@ export class MagicBlockController {
   @ApiResponse({ status: 400, description: 'Invalid request parameters' })
   @ApiResponse({ status: 500, description: 'Loan offer creation failed' })
   async createRealTimeLoanOffer(
+    @Request() req,
     @Body()
     body: {
-      lenderId: string;
       loanApplicationId: string;
       offeredAmount: number;
       offeredInterestRate: number;
@@ -226,7 +261,7 @@ export class MagicBlockController {
   ): Promise<RealTimeTransaction> {
     try {
       return await this.magicBlockService.createRealTimeLoanOffer(
-        body.lenderId,
+        req.user.id,
         body.loanApplicationId,
         body.offeredAmount,
         body.offeredInterestRate,
@@ -318,6 +353,7 @@ export class MagicBlockController {
 
   // Magic Router endpoints
   @Post('router/route-transaction')
+  @WhenNotPaused()
   @ApiOperation({ summary: 'Route transaction using Magic Router' })
   @ApiBody({
     schema: {
@@ -8,11 +8,7 @@ import {
   TransactionInstruction,
 } from '@solana/web3.js';
 import { SolanaService } from '../solana/solana.service';
-import {
-  LendingService,
-  LoanApplication,
-  ActiveLoan,
-} from '../lending/lending.service';
+import { LendingService } from '../lending/lending.service';
 
 // MagicBlock SDK imports - using real implementations
 import {
@@ -177,7 +173,9 @@ export class MagicBlockService {
     amount: number,
     interestRate: number,
     duration: number,
-    collateralRatio: number
+    collateralRatio: number,
+    borrowTokenId: string,
+    collateralTokenIds: string[]
   ): Promise<RealTimeTransaction> {
     const transactionId = this.generateTransactionId();
 
@@ -271,6 +269,8 @@ export class MagicBlockService {
         interestRate,
         duration,
         collateralRatio,
+        borrowTokenId,
+        collateralTokenIds,
       });
 
       this.logger.log(`✅ Real-time loan approval completed: ${transactionId}`);
@@ -296,7 +296,7 @@ export class MagicBlockService {
   async processRealTimePayment(
     loanId: string,
     paymentAmount: number,
-    borrowerSecretKey: string
+    borrowerId: string
   ): Promise<RealTimeTransaction> {
     const transactionId = this.generateTransactionId();
 
@@ -368,12 +368,10 @@ export class MagicBlockService {
       this.realTimeTransactions.set(transactionId, realTimeTx);
 
       // Process the payment through the lending service
-      const borrowerKeypair =
-        this.solanaService.createKeypairFromSecret(borrowerSecretKey);
       await this.lendingService.processLoanPayment(
         loanId,
         paymentAmount,
-        borrowerSecretKey
+        borrowerId
       );
 
       this.logger.log(`✅ Real-time payment completed: ${transactionId}`);
@@ -97,7 +97,9 @@ describe('MagicBlock Integration', () => {
         amount,
         interestRate,
         duration,
-        collateralRatio
+        collateralRatio,
+        'usdc-token-123',
+        ['sol-token-123']
       );
 
       expect(result).toBeDefined();
@@ -109,12 +111,12 @@ describe('MagicBlock Integration', () => {
     it('should process real-time payment', async () => {
       const loanId = 'loan-123';
       const paymentAmount = 1000;
-      const borrowerSecretKey = 'test-secret-key';
+      const borrowerId = 'borrower-123';
 
       const result = await magicBlockService.processRealTimePayment(
         loanId,
         paymentAmount,
-        borrowerSecretKey
+        borrowerId
       );
 
       expect(result).toBeDefined();
@@ -255,7 +257,9 @@ describe('MagicBlock Integration', () => {
         10000,
         0.08,
         365,
-        2.0
+        2.0,
+        'usdc-token-123',
+        ['sol-token-123']
       );
 
       expect(loanApplication.status).toBe('completed');
@@ -275,7 +279,7 @@ describe('MagicBlock Integration', () => {
       const payment = await magicBlockService.processRealTimePayment(
         'loan-123',
         1000,
-        'test-secret-key'
+        'borrower-123'
       );
 
       expect(payment.status).toBe('completed');
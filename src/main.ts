@@ -40,6 +40,9 @@ async function bootstrap() {
       .addBearerAuth()
       .addTag('authentication', 'User authentication and authorization')
       .addTag('lending', 'Loan applications, offers, and management')
+      .addTag('lending-pools', 'Pooled liquidity with utilization-based rates')
+      .addTag('collateral', 'Collateral escrow, top-ups and withdrawals')
+      .addTag('tokens', 'Token registry and USD price feeds')
       .addTag('encryption', 'Encrypted compute and data protection')
       .addTag('solana', 'Solana blockchain integration')
       .addTag('risk-assessment', 'Advanced risk assessment and ML models')
@@ -0,0 +1,30 @@
+import { Token } from '../entities/token.entity';
+import { OracleProvider, OracleQuote } from './oracle-provider.interface';
+
+export interface FixturePrice {
+  priceUSD: number;
+  confidence?: number;
+}
+
+/**
+ * Deterministic provider serving fixed prices keyed by token symbol, for
+ * tests and local development. Quotes are always reported as fresh.
+ */
+export class FixtureOracleProvider implements OracleProvider {
+  readonly name = 'fixture';
+
+  constructor(private readonly prices: Record<string, FixturePrice>) {}
+
+  async getQuote(token: Token): Promise<OracleQuote | null> {
+    const price = this.prices[token.symbol];
+    if (!price) {
+      return null;
+    }
+
+    return {
+      priceUSD: Number(price.priceUSD),
+      confidence: Number(price.confidence || 0),
+      publishedAt: new Date(),
+    };
+  }
+}
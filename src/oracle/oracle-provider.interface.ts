@@ -0,0 +1,21 @@
+import { Token } from '../entities/token.entity';
+
+/**
+ * Injection token for the configured list of oracle providers
+ */
+export const ORACLE_PROVIDERS = 'ORACLE_PROVIDERS';
+
+export interface OracleQuote {
+  priceUSD: number;
+  confidence: number; // absolute half-width of the confidence interval, USD
+  publishedAt: Date;
+}
+
+/**
+ * A single price feed. Providers return null for tokens they have no feed
+ * for and throw when a configured feed cannot be read.
+ */
+export interface OracleProvider {
+  readonly name: string;
+  getQuote(token: Token): Promise<OracleQuote | null>;
+}
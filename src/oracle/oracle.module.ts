@@ -0,0 +1,59 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { Connection } from '@solana/web3.js';
+import { PriceOracleService } from './price-oracle.service';
+import { ORACLE_PROVIDERS, OracleProvider } from './oracle-provider.interface';
+import { PythOracleProvider } from './pyth-oracle.provider';
+import { SwitchboardOracleProvider } from './switchboard-oracle.provider';
+import { FixtureOracleProvider } from './fixture-oracle.provider';
+import { Token } from '../entities/token.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Token])],
+  providers: [
+    PriceOracleService,
+    {
+      provide: ORACLE_PROVIDERS,
+      useFactory: (configService: ConfigService): OracleProvider[] => {
+        const connection = new Connection(
+          configService.get<string>('SOLANA_RPC_URL') ||
+            'https://api.devnet.solana.com',
+          'confirmed'
+        );
+        const names = configService
+          .get<string>('ORACLE_PROVIDERS', 'pyth,switchboard')
+          .split(',')
+          .map((name) => name.trim())
+          .filter(Boolean);
+
+        return names.map((name) => {
+          switch (name) {
+            case 'pyth':
+              return new PythOracleProvider(connection);
+            case 'switchboard':
+              return new SwitchboardOracleProvider(connection);
+            case 'fixture':
+              return new FixtureOracleProvider(
+                JSON.parse(
+                  readFileSync(
+                    configService.get<string>(
+                      'ORACLE_FIXTURE_FILE',
+                      'oracle-fixture.json'
+                    ),
+                    'utf8'
+                  )
+                )
+              );
+            default:
+              throw new Error(`Unknown oracle provider: ${name}`);
+          }
+        });
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [PriceOracleService],
+})
+export class OracleModule {}
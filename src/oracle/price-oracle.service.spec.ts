@@ -0,0 +1,93 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PriceOracleService } from './price-oracle.service';
+import { FixtureOracleProvider } from './fixture-oracle.provider';
+import {
+  ORACLE_PROVIDERS,
+  OracleProvider,
+  OracleQuote,
+} from './oracle-provider.interface';
+import { Token } from '../entities/token.entity';
+
+describe('PriceOracleService', () => {
+  const sol = { id: 'sol', symbol: 'SOL' } as Token;
+  const config = new ConfigService({
+    ORACLE_MAX_STALENESS_SECONDS: 60,
+    ORACLE_MAX_CONFIDENCE_RATIO: 0.01,
+  });
+
+  const stubProvider = (
+    name: string,
+    quote: Partial<OracleQuote> | Error
+  ): OracleProvider => ({
+    name,
+    getQuote: async () => {
+      if (quote instanceof Error) {
+        throw quote;
+      }
+      return { confidence: 0, publishedAt: new Date(), ...quote } as any;
+    },
+  });
+
+  const createService = async (providers: OracleProvider[]) => {
+    const module = await Test.createTestingModule({
+      providers: [
+        PriceOracleService,
+        { provide: getRepositoryToken(Token), useValue: {} },
+        { provide: ORACLE_PROVIDERS, useValue: providers },
+        { provide: ConfigService, useValue: config },
+      ],
+    }).compile();
+
+    return module.get(PriceOracleService);
+  };
+
+  it('should take the median of the valid quotes', async () => {
+    const service = await createService([
+      new FixtureOracleProvider({ SOL: { priceUSD: 150, confidence: 0.1 } }),
+      stubProvider('pyth', { priceUSD: 152 }),
+      stubProvider('switchboard', { priceUSD: 149 }),
+      stubProvider('extra', { priceUSD: 151 }),
+    ]);
+
+    const price = await service.getPrice(sol);
+
+    expect(price.priceUSD).toBe(150.5);
+    expect(price.sources).toHaveLength(4);
+    expect(price.rejected).toEqual([]);
+  });
+
+  it('should reject stale, wide and failing quotes', async () => {
+    const service = await createService([
+      new FixtureOracleProvider({ SOL: { priceUSD: 150 } }),
+      stubProvider('pyth', {
+        priceUSD: 90,
+        publishedAt: new Date(Date.now() - 5 * 60 * 1000),
+      }),
+      stubProvider('switchboard', { priceUSD: 200, confidence: 10 }),
+      stubProvider('broken', new Error('account not found')),
+    ]);
+
+    const price = await service.getPrice(sol);
+
+    expect(price.priceUSD).toBe(150);
+    expect(price.rejected.map((rejection) => rejection.provider)).toEqual([
+      'pyth',
+      'switchboard',
+      'broken',
+    ]);
+    expect(price.rejected[1].reason).toBe('confidence interval too wide');
+  });
+
+  it('should throw when no provider has a valid price', async () => {
+    const service = await createService([
+      new FixtureOracleProvider({ USDC: { priceUSD: 1 } }),
+      stubProvider('pyth', { priceUSD: 0 }),
+    ]);
+
+    await expect(service.getPrice(sol)).rejects.toThrow(
+      'No valid oracle price for SOL'
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Token } from '../entities/token.entity';
+import {
+  ORACLE_PROVIDERS,
+  OracleProvider,
+  OracleQuote,
+} from './oracle-provider.interface';
+
+export interface OracleSourceQuote extends OracleQuote {
+  provider: string;
+}
+
+export interface OracleRejection {
+  provider: string;
+  reason: string;
+}
+
+export interface OraclePrice {
+  symbol: string;
+  priceUSD: number;
+  sources: OracleSourceQuote[];
+  rejected: OracleRejection[];
+}
+
+@Injectable()
+export class PriceOracleService {
+  private readonly logger = new Logger(PriceOracleService.name);
+  private readonly maxStalenessSeconds: number;
+  private readonly maxConfidenceRatio: number;
+  private readonly minSources: number;
+
+  constructor(
+    @InjectRepository(Token)
+    private tokenRepository: Repository<Token>,
+    @Inject(ORACLE_PROVIDERS)
+    private readonly providers: OracleProvider[],
+    private readonly configService: ConfigService
+  ) {
+    this.maxStalenessSeconds = Number(
+      this.configService.get('ORACLE_MAX_STALENESS_SECONDS', 120)
+    );
+    this.maxConfidenceRatio = Number(
+      this.configService.get('ORACLE_MAX_CONFIDENCE_RATIO', 0.02)
+    );
+    this.minSources = Number(this.configService.get('ORACLE_MIN_SOURCES', 1));
+  }
+
+  /**
+   * Get a token's USD price as the median of every provider quote that is
+   * fresh and tight enough. Throws when fewer than the minimum number of
+   * sources pass.
+   */
+  async getPrice(token: Token): Promise<OraclePrice> {
+    const now = Date.now();
+    const sources: OracleSourceQuote[] = [];
+    const rejected: OracleRejection[] = [];
+
+    const results = await Promise.allSettled(
+      this.providers.map((provider) => provider.getQuote(token))
+    );
+    results.forEach((result, index) => {
+      const provider = this.providers[index].name;
+      if (result.status === 'rejected') {
+        rejected.push({ provider, reason: result.reason?.message });
+        return;
+      }
+
+      const quote = result.value;
+      if (!quote) {
+        return;
+      }
+
+      const reason = this.validateQuote(quote, now);
+      if (reason) {
+        rejected.push({ provider, reason });
+      } else {
+        sources.push({ provider, ...quote });
+      }
+    });
+
+    if (sources.length < this.minSources) {
+      this.logger.warn(
+        `No valid oracle price for ${token.symbol}: ${JSON.stringify(rejected)}`
+      );
+      throw new Error(`No valid oracle price for ${token.symbol}`);
+    }
+
+    return {
+      symbol: token.symbol,
+      priceUSD: this.median(sources.map((source) => source.priceUSD)),
+      sources,
+      rejected,
+    };
+  }
+
+  /**
+   * Get the oracle price of a registered token by ID
+   */
+  async getPriceByTokenId(tokenId: string): Promise<OraclePrice> {
+    const token = await this.tokenRepository.findOne({
+      where: { id: tokenId },
+    });
+    if (!token) {
+      throw new Error('Token not found');
+    }
+
+    return this.getPrice(token);
+  }
+
+  /**
+   * Get the oracle price of a registered token by symbol
+   */
+  async getPriceBySymbol(symbol: string): Promise<OraclePrice> {
+    const token = await this.tokenRepository.findOne({ where: { symbol } });
+    if (!token) {
+      throw new Error(`Token ${symbol} is not registered`);
+    }
+
+    return this.getPrice(token);
+  }
+
+  private validateQuote(quote: OracleQuote, now: number): string | null {
+    if (!(quote.priceUSD > 0)) {
+      return 'non-positive price';
+    }
+
+    const ageSeconds = (now - quote.publishedAt.getTime()) / 1000;
+    if (ageSeconds > this.maxStalenessSeconds) {
+      return `stale by ${Math.round(ageSeconds)}s`;
+    }
+
+    if (quote.confidence / quote.priceUSD > this.maxConfidenceRatio) {
+      return 'confidence interval too wide';
+    }
+
+    return null;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+
+    return sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle];
+  }
+}
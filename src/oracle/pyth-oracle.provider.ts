@@ -0,0 +1,50 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Token } from '../entities/token.entity';
+import { OracleProvider, OracleQuote } from './oracle-provider.interface';
+
+// Offsets into a Pyth v2 price account
+const EXPONENT_OFFSET = 20;
+const TIMESTAMP_OFFSET = 96;
+const AGGREGATE_PRICE_OFFSET = 208;
+const AGGREGATE_CONFIDENCE_OFFSET = 216;
+const AGGREGATE_STATUS_OFFSET = 224;
+const STATUS_TRADING = 1;
+
+/**
+ * Reads the aggregate price of a Pyth price account. The account is taken
+ * from the token's `metadata.oracles.pyth`.
+ */
+export class PythOracleProvider implements OracleProvider {
+  readonly name = 'pyth';
+
+  constructor(private readonly connection: Connection) {}
+
+  async getQuote(token: Token): Promise<OracleQuote | null> {
+    const address = token.metadata?.oracles?.pyth;
+    if (!address) {
+      return null;
+    }
+
+    const account = await this.connection.getAccountInfo(
+      new PublicKey(address)
+    );
+    if (!account) {
+      throw new Error(`Pyth price account ${address} not found`);
+    }
+
+    const data = account.data;
+    if (data.readUInt32LE(AGGREGATE_STATUS_OFFSET) !== STATUS_TRADING) {
+      throw new Error(`Pyth price for ${token.symbol} is not trading`);
+    }
+
+    const scale = Math.pow(10, data.readInt32LE(EXPONENT_OFFSET));
+    return {
+      priceUSD: Number(data.readBigInt64LE(AGGREGATE_PRICE_OFFSET)) * scale,
+      confidence:
+        Number(data.readBigUInt64LE(AGGREGATE_CONFIDENCE_OFFSET)) * scale,
+      publishedAt: new Date(
+        Number(data.readBigInt64LE(TIMESTAMP_OFFSET)) * 1000
+      ),
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Token } from '../entities/token.entity';
+import { OracleProvider, OracleQuote } from './oracle-provider.interface';
+
+// Offsets into the latest confirmed round of a Switchboard V2 aggregator
+const ROUND_OPEN_TIMESTAMP_OFFSET = 358;
+const RESULT_OFFSET = 366;
+const STD_DEVIATION_OFFSET = 386;
+
+/**
+ * Reads the latest confirmed round of a Switchboard aggregator account,
+ * using the round's standard deviation as its confidence. The account is
+ * taken from the token's `metadata.oracles.switchboard`.
+ */
+export class SwitchboardOracleProvider implements OracleProvider {
+  readonly name = 'switchboard';
+
+  constructor(private readonly connection: Connection) {}
+
+  async getQuote(token: Token): Promise<OracleQuote | null> {
+    const address = token.metadata?.oracles?.switchboard;
+    if (!address) {
+      return null;
+    }
+
+    const account = await this.connection.getAccountInfo(
+      new PublicKey(address)
+    );
+    if (!account) {
+      throw new Error(`Switchboard aggregator ${address} not found`);
+    }
+
+    const data = account.data;
+    return {
+      priceUSD: this.readDecimal(data, RESULT_OFFSET),
+      confidence: this.readDecimal(data, STD_DEVIATION_OFFSET),
+      publishedAt: new Date(
+        Number(data.readBigInt64LE(ROUND_OPEN_TIMESTAMP_OFFSET)) * 1000
+      ),
+    };
+  }
+
+  /**
+   * Decode a SwitchboardDecimal: an i128 mantissa followed by a u32 scale
+   */
+  private readDecimal(data: Buffer, offset: number): number {
+    const low = data.readBigUInt64LE(offset);
+    const high = data.readBigInt64LE(offset + 8);
+    const mantissa = (high << BigInt(64)) + low;
+    const scale = data.readUInt32LE(offset + 16);
+
+    return Number(mantissa) / Math.pow(10, scale);
+  }
+}
@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { PriceOracleService } from '../oracle/price-oracle.service';
 
 export interface RiskFactors {
   creditScore: number;
@@ -14,7 +15,7 @@ export interface RiskFactors {
     avgPaymentTime: number;
   };
   marketConditions: {
-    solPrice: number;
+    solPrice?: number; // set from the price oracle
     marketVolatility: number;
     lendingRate: number;
   };
@@ -44,7 +45,10 @@ export interface RiskAssessmentResult {
 export class RiskAssessmentService {
   private readonly logger = new Logger(RiskAssessmentService.name);
 
-  constructor(private configService: ConfigService) {}
+  constructor(
+    private configService: ConfigService,
+    private priceOracleService: PriceOracleService,
+  ) {}
 
   /**
    * Advanced risk assessment using multiple ML models
@@ -53,6 +57,16 @@ export class RiskAssessmentService {
     const startTime = Date.now();
     
     try {
+      // Market prices come from the oracle rather than the caller
+      const solPrice = await this.priceOracleService.getPriceBySymbol('SOL');
+      factors = {
+        ...factors,
+        marketConditions: {
+          ...factors.marketConditions,
+          solPrice: solPrice.priceUSD,
+        },
+      };
+
       // Calculate individual risk components
       const creditRisk = this.calculateCreditRisk(factors);
       const marketRisk = this.calculateMarketRisk(factors);
@@ -16,7 +16,6 @@ export class RiskAssessmentDto {
     avgPaymentTime: number;
   };
   marketConditions: {
-    solPrice: number;
     marketVolatility: number;
     lendingRate: number;
   };
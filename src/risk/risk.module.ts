@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { RiskAssessmentService } from './risk-assessment.service';
 import { RiskController } from './risk.controller';
+import { OracleModule } from '../oracle/oracle.module';
 
 @Module({
+  imports: [OracleModule],
   providers: [RiskAssessmentService],
   controllers: [RiskController],
   exports: [RiskAssessmentService],
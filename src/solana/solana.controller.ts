@@ -1,6 +1,7 @@
 import { Controller, Post, Get, Body, Param, Query } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
 import { SolanaService } from './solana.service';
+import { WhenNotPaused } from '../governance/decorators/when-not-paused.decorator';
 
 export class CreateWalletDto {
   // No body needed for wallet creation
@@ -46,6 +47,7 @@ export class SolanaController {
   }
 
   @Post('transfer-sol')
+  @WhenNotPaused()
   @ApiOperation({ summary: 'Transfer SOL between wallets' })
   @ApiBody({ type: TransferSOLDto })
   @ApiResponse({ status: 200, description: 'SOL transferred successfully' })
@@ -61,6 +63,7 @@ export class SolanaController {
   }
 
   @Post('transfer-token')
+  @WhenNotPaused()
   @ApiOperation({ summary: 'Transfer SPL tokens between wallets' })
   @ApiBody({ type: TransferTokenDto })
   @ApiResponse({ status: 200, description: 'Token transferred successfully' })
@@ -77,6 +80,7 @@ export class SolanaController {
   }
 
   @Post('mint-tokens')
+  @WhenNotPaused()
   @ApiOperation({ summary: 'Mint SPL tokens' })
   @ApiBody({ type: MintTokensDto })
   @ApiResponse({ status: 200, description: 'Tokens minted successfully' })
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { SolanaService } from './solana.service';
 import { SolanaController } from './solana.controller';
+import { OracleModule } from '../oracle/oracle.module';
 
 @Module({
+  imports: [OracleModule],
   providers: [SolanaService],
   controllers: [SolanaController],
   exports: [SolanaService],
@@ -18,6 +18,7 @@ import {
   getMint,
   TOKEN_PROGRAM_ID,
 } from '@solana/spl-token';
+import { PriceOracleService } from '../oracle/price-oracle.service';
 
 export interface WalletInfo {
   publicKey: string;
@@ -47,7 +48,10 @@ export class SolanaService {
   private connection: Connection;
   private readonly lendingProgramId: PublicKey;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private priceOracleService: PriceOracleService
+  ) {
     const rpcUrl =
       this.configService.get<string>('SOLANA_RPC_URL') ||
       'https://api.devnet.solana.com';
@@ -377,10 +381,9 @@ export class SolanaService {
   }
 
   /**
-   * Gets current SOL price (mock implementation)
+   * Gets current SOL price from the price oracle
    */
   async getSOLPrice(): Promise<number> {
-    // In a real implementation, you'd fetch from a price API
-    return 100; // Mock price
+    return (await this.priceOracleService.getPriceBySymbol('SOL')).priceUSD;
   }
 }
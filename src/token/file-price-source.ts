@@ -0,0 +1,35 @@
+import { promises as fs } from 'fs';
+import { Token } from '../entities/token.entity';
+import { PriceQuote, PriceSource } from './price-source.interface';
+
+/**
+ * Price source backed by a local JSON file keyed by token symbol, e.g.
+ * `{ "SOL": 150.25, "USDC": { "priceUSD": 1, "marketCap": 32000000000 } }`.
+ * The file is re-read on every update so prices can be changed while the
+ * service runs.
+ */
+export class FilePriceSource implements PriceSource {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  async getPrices(tokens: Token[]): Promise<PriceQuote[]> {
+    const prices = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+
+    return tokens
+      .filter((token) => prices[token.symbol] !== undefined)
+      .map((token) => {
+        const entry = prices[token.symbol];
+        return typeof entry === 'number'
+          ? { symbol: token.symbol, priceUSD: entry }
+          : {
+              symbol: token.symbol,
+              priceUSD: Number(entry.priceUSD),
+              marketCap:
+                entry.marketCap !== undefined
+                  ? Number(entry.marketCap)
+                  : undefined,
+            };
+      });
+  }
+}
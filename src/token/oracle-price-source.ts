@@ -0,0 +1,30 @@
+import { Token } from '../entities/token.entity';
+import {
+  OraclePrice,
+  PriceOracleService,
+} from '../oracle/price-oracle.service';
+import { PriceQuote, PriceSource } from './price-source.interface';
+
+/**
+ * Price source that records the oracle median, so `priceUSD` tracks the
+ * prices collateral is valued at. Tokens without a valid oracle price are
+ * left out.
+ */
+export class OraclePriceSource implements PriceSource {
+  readonly name = 'oracle';
+
+  constructor(private readonly priceOracleService: PriceOracleService) {}
+
+  async getPrices(tokens: Token[]): Promise<PriceQuote[]> {
+    const results = await Promise.allSettled(
+      tokens.map((token) => this.priceOracleService.getPrice(token))
+    );
+
+    return results
+      .filter(
+        (result): result is PromiseFulfilledResult<OraclePrice> =>
+          result.status === 'fulfilled'
+      )
+      .map(({ value }) => ({ symbol: value.symbol, priceUSD: value.priceUSD }));
+  }
+}
@@ -0,0 +1,21 @@
+import { Token } from '../entities/token.entity';
+
+/**
+ * Injection token for the active price source
+ */
+export const PRICE_SOURCE = 'PRICE_SOURCE';
+
+export interface PriceQuote {
+  symbol: string;
+  priceUSD: number;
+  marketCap?: number;
+}
+
+/**
+ * A feed the token price updater reads USD prices from. Tokens the source
+ * has no quote for are left out of the result.
+ */
+export interface PriceSource {
+  readonly name: string;
+  getPrices(tokens: Token[]): Promise<PriceQuote[]>;
+}
@@ -0,0 +1,124 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import {
+  PriceUpdateResult,
+  TokenOracleAccounts,
+  TokenService,
+} from './token.service';
+import { Token, TokenStatus, TokenType } from '../entities/token.entity';
+import { TokenPrice } from '../entities/token-price.entity';
+import { UserRole } from '../entities/user.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+export class CreateTokenDto {
+  symbol: string;
+  name: string;
+  decimals?: number;
+  contractAddress?: string;
+  type?: TokenType;
+  logoUrl?: string;
+  description?: string;
+  oracles?: TokenOracleAccounts; // Pyth price and Switchboard aggregator accounts
+}
+
+export class UpdateTokenDto {
+  name?: string;
+  decimals?: number;
+  contractAddress?: string;
+  logoUrl?: string;
+  description?: string;
+  status?: TokenStatus;
+  oracles?: TokenOracleAccounts;
+}
+
+@ApiTags('tokens')
+@Controller('tokens')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class TokenController {
+  constructor(private readonly tokenService: TokenService) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Register a token' })
+  @ApiBody({ type: CreateTokenDto })
+  @ApiResponse({ status: 201, description: 'Token registered' })
+  async createToken(@Body() tokenData: CreateTokenDto): Promise<Token> {
+    return this.tokenService.createToken(tokenData);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List registered tokens' })
+  @ApiQuery({ name: 'status', enum: TokenStatus, required: false })
+  @ApiResponse({ status: 200, description: 'Tokens retrieved' })
+  async getTokens(@Query('status') status?: TokenStatus): Promise<Token[]> {
+    return this.tokenService.getTokens(status);
+  }
+
+  @Post('prices/refresh')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Fetch token prices from the price source now' })
+  @ApiResponse({ status: 201, description: 'Token prices updated' })
+  async refreshPrices(): Promise<PriceUpdateResult> {
+    return this.tokenService.updatePrices();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a token' })
+  @ApiResponse({ status: 200, description: 'Token retrieved' })
+  async getToken(@Param('id') tokenId: string): Promise<Token> {
+    return this.tokenService.getToken(tokenId);
+  }
+
+  @Get(':id/prices')
+  @ApiOperation({ summary: "Get a token's price history" })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  @ApiResponse({ status: 200, description: 'Price history retrieved' })
+  async getPriceHistory(
+    @Param('id') tokenId: string,
+    @Query('limit') limit?: number
+  ): Promise<TokenPrice[]> {
+    return this.tokenService.getPriceHistory(tokenId, limit || 100);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Update a token; suspend or deactivate it to block new loans',
+  })
+  @ApiBody({ type: UpdateTokenDto })
+  @ApiResponse({ status: 200, description: 'Token updated' })
+  async updateToken(
+    @Param('id') tokenId: string,
+    @Body() update: UpdateTokenDto
+  ): Promise<Token> {
+    return this.tokenService.updateToken(tokenId, update);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Remove a token that nothing references' })
+  @ApiResponse({ status: 200, description: 'Token removed' })
+  async deleteToken(@Param('id') tokenId: string): Promise<void> {
+    return this.tokenService.deleteToken(tokenId);
+  }
+}
@@ -0,0 +1,58 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { TokenService } from './token.service';
+import { TokenController } from './token.controller';
+import { FilePriceSource } from './file-price-source';
+import { OraclePriceSource } from './oracle-price-source';
+import { PRICE_SOURCE, PriceSource } from './price-source.interface';
+import { Token } from '../entities/token.entity';
+import { TokenBalance } from '../entities/token-balance.entity';
+import { TokenPrice } from '../entities/token-price.entity';
+import { LoanApplication } from '../entities/loan-application.entity';
+import { ActiveLoan } from '../entities/active-loan.entity';
+import { CollateralPledge } from '../entities/collateral-pledge.entity';
+import { MonitoringModule } from '../monitoring/monitoring.module';
+import { OracleModule } from '../oracle/oracle.module';
+import { PriceOracleService } from '../oracle/price-oracle.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Token,
+      TokenBalance,
+      TokenPrice,
+      LoanApplication,
+      ActiveLoan,
+      CollateralPledge,
+    ]),
+    MonitoringModule,
+    OracleModule,
+  ],
+  providers: [
+    TokenService,
+    {
+      provide: PRICE_SOURCE,
+      useFactory: (
+        configService: ConfigService,
+        priceOracleService: PriceOracleService
+      ): PriceSource => {
+        const source = configService.get<string>('PRICE_SOURCE', 'oracle');
+        switch (source) {
+          case 'file':
+            return new FilePriceSource(
+              configService.get<string>('PRICE_SOURCE_FILE', 'prices.json')
+            );
+          case 'oracle':
+            return new OraclePriceSource(priceOracleService);
+          default:
+            throw new Error(`Unknown price source: ${source}`);
+        }
+      },
+      inject: [ConfigService, PriceOracleService],
+    },
+  ],
+  controllers: [TokenController],
+  exports: [TokenService],
+})
+export class TokenModule {}
@@ -0,0 +1,192 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { TokenService } from './token.service';
+import { FilePriceSource } from './file-price-source';
+import { PRICE_SOURCE } from './price-source.interface';
+import { Token, TokenStatus } from '../entities/token.entity';
+import { TokenBalance } from '../entities/token-balance.entity';
+import { TokenPrice } from '../entities/token-price.entity';
+import { LoanApplication } from '../entities/loan-application.entity';
+import { ActiveLoan } from '../entities/active-loan.entity';
+import { CollateralPledge } from '../entities/collateral-pledge.entity';
+import { MonitoringService } from '../monitoring/monitoring.service';
+import { PriceOracleService } from '../oracle/price-oracle.service';
+import { ORACLE_PROVIDERS } from '../oracle/oracle-provider.interface';
+import { PythOracleProvider } from '../oracle/pyth-oracle.provider';
+
+describe('TokenService', () => {
+  let priceFile: string;
+  let tokens: Token[];
+  let history: any[];
+  let tokenService: TokenService;
+
+  beforeEach(async () => {
+    priceFile = path.join(
+      await fs.mkdtemp(path.join(os.tmpdir(), 'prices-')),
+      'prices.json'
+    );
+    await fs.writeFile(
+      priceFile,
+      JSON.stringify({
+        SOL: 150.25,
+        USDC: { priceUSD: 1, marketCap: 32000000000 },
+      })
+    );
+
+    tokens = [
+      { id: 'sol', symbol: 'SOL', status: TokenStatus.ACTIVE },
+      { id: 'usdc', symbol: 'USDC', status: TokenStatus.SUSPENDED },
+      { id: 'bonk', symbol: 'BONK', status: TokenStatus.ACTIVE },
+    ] as Token[];
+    history = [];
+
+    const tokenRepository = {
+      find: jest.fn(async () => tokens),
+      findOne: jest.fn(
+        async ({ where }) =>
+          tokens.find((token) =>
+            where.symbol ? token.symbol === where.symbol : token.id === where.id
+          ) || null
+      ),
+      create: jest.fn((token) => token),
+      save: jest.fn(async (saved) => {
+        if (!Array.isArray(saved) && !tokens.includes(saved)) {
+          saved.id = saved.symbol.toLowerCase();
+          tokens.push(saved);
+        }
+        return saved;
+      }),
+    };
+    const tokenPriceRepository = {
+      create: jest.fn((price) => price),
+      save: jest.fn(async (prices) => {
+        history.push(...prices);
+        return prices;
+      }),
+    };
+    const module = await Test.createTestingModule({
+      providers: [
+        TokenService,
+        { provide: getRepositoryToken(Token), useValue: tokenRepository },
+        {
+          provide: getRepositoryToken(TokenPrice),
+          useValue: tokenPriceRepository,
+        },
+        { provide: getRepositoryToken(TokenBalance), useValue: {} },
+        { provide: getRepositoryToken(LoanApplication), useValue: {} },
+        { provide: getRepositoryToken(ActiveLoan), useValue: {} },
+        { provide: getRepositoryToken(CollateralPledge), useValue: {} },
+        { provide: PRICE_SOURCE, useValue: new FilePriceSource(priceFile) },
+        {
+          provide: MonitoringService,
+          useValue: { recordError: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    tokenService = module.get(TokenService);
+  });
+
+  it('should write file prices to every quoted token and record history', async () => {
+    const result = await tokenService.updatePrices();
+
+    expect(result).toEqual({ source: 'file', updated: 2, missing: ['BONK'] });
+    expect(tokens[0].priceUSD).toBe(150.25);
+    expect(tokens[1].priceUSD).toBe(1);
+    expect(tokens[1].marketCap).toBe(32000000000);
+    expect(tokens[2].priceUSD).toBeUndefined();
+    expect(history).toEqual([
+      { tokenId: 'sol', priceUSD: 150.25, marketCap: null, source: 'file' },
+      {
+        tokenId: 'usdc',
+        priceUSD: 1,
+        marketCap: 32000000000,
+        source: 'file',
+      },
+    ]);
+  });
+
+  it('should pick up price changes on the next update', async () => {
+    await tokenService.updatePrices();
+    await fs.writeFile(priceFile, JSON.stringify({ SOL: 120 }));
+
+    const result = await tokenService.updatePrices();
+
+    expect(result.updated).toBe(1);
+    expect(tokens[0].priceUSD).toBe(120);
+    expect(history.map((price) => price.priceUSD)).toEqual([150.25, 1, 120]);
+  });
+
+  describe('oracle accounts', () => {
+    const pythAccount = 'H6ARHf6YXhGYeQfUzQNGk6rDNnLBQKrenN712K4AQJEG';
+
+    const pythPriceAccount = (price: number, confidence: number) => {
+      const data = Buffer.alloc(240);
+      data.writeInt32LE(-8, 20);
+      data.writeBigInt64LE(BigInt(Math.floor(Date.now() / 1000)), 96);
+      data.writeBigInt64LE(BigInt(Math.round(price * 1e8)), 208);
+      data.writeBigUInt64LE(BigInt(Math.round(confidence * 1e8)), 216);
+      data.writeUInt32LE(1, 224);
+      return { data };
+    };
+
+    it('should price a token from the Pyth account it was registered with', async () => {
+      const token = await tokenService.createToken({
+        symbol: 'JUP',
+        name: 'Jupiter',
+        oracles: { pyth: pythAccount },
+      });
+      expect(token.metadata).toEqual({ oracles: { pyth: pythAccount } });
+
+      const connection = {
+        getAccountInfo: jest.fn(async (address) =>
+          address.toBase58() === pythAccount
+            ? pythPriceAccount(0.85, 0.001)
+            : null
+        ),
+      };
+      const module = await Test.createTestingModule({
+        providers: [
+          PriceOracleService,
+          { provide: getRepositoryToken(Token), useValue: {} },
+          {
+            provide: ORACLE_PROVIDERS,
+            useValue: [new PythOracleProvider(connection as any)],
+          },
+          {
+            provide: ConfigService,
+            useValue: new ConfigService({
+              ORACLE_MAX_STALENESS_SECONDS: 60,
+              ORACLE_MAX_CONFIDENCE_RATIO: 0.01,
+            }),
+          },
+        ],
+      }).compile();
+      const priceOracleService = module.get(PriceOracleService);
+
+      const price = await priceOracleService.getPrice(
+        await tokenService.getToken(token.id)
+      );
+
+      expect(price.priceUSD).toBeCloseTo(0.85, 8);
+      expect(price.sources.map((source) => source.provider)).toEqual(['pyth']);
+    });
+
+    it('should reject oracle accounts that are not public keys and clear removed ones', async () => {
+      await tokenService.updateToken('sol', {
+        oracles: { pyth: pythAccount, switchboard: pythAccount },
+      });
+      await expect(
+        tokenService.updateToken('sol', { oracles: { switchboard: 'feed' } })
+      ).rejects.toThrow('Token update failed');
+
+      await tokenService.updateToken('sol', { oracles: { switchboard: null } });
+
+      expect(tokens[0].metadata).toEqual({ oracles: { pyth: pythAccount } });
+    });
+  });
+});
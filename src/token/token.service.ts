@@ -0,0 +1,306 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Repository } from 'typeorm';
+import { PublicKey } from '@solana/web3.js';
+import { Token, TokenStatus, TokenType } from '../entities/token.entity';
+import { TokenBalance } from '../entities/token-balance.entity';
+import { TokenPrice } from '../entities/token-price.entity';
+import { LoanApplication } from '../entities/loan-application.entity';
+import { ActiveLoan } from '../entities/active-loan.entity';
+import { CollateralPledge } from '../entities/collateral-pledge.entity';
+import { MonitoringService } from '../monitoring/monitoring.service';
+import { PRICE_SOURCE, PriceSource } from './price-source.interface';
+
+/**
+ * On-chain price accounts the oracle providers read for a token. Setting
+ * an account to null removes it.
+ */
+export interface TokenOracleAccounts {
+  pyth?: string | null;
+  switchboard?: string | null;
+}
+
+export interface TokenParams {
+  symbol: string;
+  name: string;
+  decimals?: number;
+  contractAddress?: string;
+  type?: TokenType;
+  logoUrl?: string;
+  description?: string;
+  oracles?: TokenOracleAccounts;
+}
+
+export interface TokenUpdate extends Partial<TokenParams> {
+  status?: TokenStatus;
+}
+
+export interface PriceUpdateResult {
+  source: string;
+  updated: number;
+  missing: string[];
+}
+
+@Injectable()
+export class TokenService {
+  private readonly logger = new Logger(TokenService.name);
+
+  constructor(
+    @InjectRepository(Token)
+    private tokenRepository: Repository<Token>,
+    @InjectRepository(TokenPrice)
+    private tokenPriceRepository: Repository<TokenPrice>,
+    @InjectRepository(TokenBalance)
+    private tokenBalanceRepository: Repository<TokenBalance>,
+    @InjectRepository(LoanApplication)
+    private loanApplicationRepository: Repository<LoanApplication>,
+    @InjectRepository(ActiveLoan)
+    private activeLoanRepository: Repository<ActiveLoan>,
+    @InjectRepository(CollateralPledge)
+    private collateralPledgeRepository: Repository<CollateralPledge>,
+    @Inject(PRICE_SOURCE)
+    private readonly priceSource: PriceSource,
+    private readonly monitoringService: MonitoringService
+  ) {}
+
+  /**
+   * Register a token
+   */
+  async createToken(params: TokenParams): Promise<Token> {
+    try {
+      const existing = await this.tokenRepository.findOne({
+        where: { symbol: params.symbol },
+      });
+      if (existing) {
+        throw new Error(`Token ${params.symbol} is already registered`);
+      }
+
+      const { oracles, ...details } = params;
+      const token = await this.tokenRepository.save(
+        this.tokenRepository.create({
+          ...details,
+          status: TokenStatus.ACTIVE,
+          metadata: oracles
+            ? { oracles: this.mergeOracleAccounts({}, oracles) }
+            : undefined,
+        })
+      );
+
+      this.logger.log(`Token registered: ${token.symbol} (${token.id})`);
+
+      return token;
+    } catch (error) {
+      this.logger.error('Failed to create token', error);
+      throw new Error('Token creation failed');
+    }
+  }
+
+  /**
+   * Update a token's details or status. Suspended and inactive tokens
+   * cannot back or denominate new loans; existing loans keep being valued.
+   */
+  async updateToken(tokenId: string, update: TokenUpdate): Promise<Token> {
+    try {
+      const token = await this.getToken(tokenId);
+      const previousStatus = token.status;
+      const { oracles, ...details } = update;
+
+      Object.assign(token, details);
+      if (oracles) {
+        token.metadata = {
+          ...(token.metadata || {}),
+          oracles: this.mergeOracleAccounts(
+            token.metadata?.oracles || {},
+            oracles
+          ),
+        };
+      }
+      const savedToken = await this.tokenRepository.save(token);
+
+      if (update.status && update.status !== previousStatus) {
+        this.logger.warn(
+          `Token ${token.symbol} status changed: ${previousStatus} -> ${update.status}`
+        );
+      }
+
+      return savedToken;
+    } catch (error) {
+      this.logger.error('Failed to update token', error);
+      throw new Error('Token update failed');
+    }
+  }
+
+  /**
+   * Remove a token that nothing references. Tokens in use are deactivated
+   * instead.
+   */
+  async deleteToken(tokenId: string): Promise<void> {
+    try {
+      const token = await this.getToken(tokenId);
+
+      const references = await Promise.all([
+        this.tokenBalanceRepository.count({ where: { tokenId } }),
+        this.collateralPledgeRepository.count({ where: { tokenId } }),
+        this.activeLoanRepository.count({ where: { borrowTokenId: tokenId } }),
+        this.loanApplicationRepository.count({
+          where: { borrowTokenId: tokenId },
+        }),
+      ]);
+      if (references.some((count) => count > 0)) {
+        throw new Error(`Token ${token.symbol} is in use; deactivate it`);
+      }
+
+      await this.tokenPriceRepository.delete({ tokenId });
+      await this.tokenRepository.remove(token);
+
+      this.logger.log(`Token removed: ${token.symbol}`);
+    } catch (error) {
+      this.logger.error('Failed to delete token', error);
+      throw new Error('Token deletion failed');
+    }
+  }
+
+  /**
+   * List registered tokens, optionally filtered by status
+   */
+  async getTokens(status?: TokenStatus): Promise<Token[]> {
+    return this.tokenRepository.find({
+      where: status ? { status } : {},
+      order: { symbol: 'ASC' },
+    });
+  }
+
+  /**
+   * Get a token by ID
+   */
+  async getToken(tokenId: string): Promise<Token> {
+    const token = await this.tokenRepository.findOne({
+      where: { id: tokenId },
+    });
+    if (!token) {
+      throw new Error('Token not found');
+    }
+
+    return token;
+  }
+
+  /**
+   * Get a token's recorded prices, newest first
+   */
+  async getPriceHistory(
+    tokenId: string,
+    limit: number = 100
+  ): Promise<TokenPrice[]> {
+    await this.getToken(tokenId);
+
+    return this.tokenPriceRepository.find({
+      where: { tokenId },
+      order: { recordedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Scheduled price update - runs every 5 minutes
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async performPriceUpdate(): Promise<void> {
+    try {
+      await this.updatePrices();
+    } catch (error) {
+      this.logger.error('Error during scheduled price update', error);
+      await this.monitoringService.recordError(error, 'token_price_update');
+    }
+  }
+
+  /**
+   * Fetch prices for all registered tokens from the price source, write
+   * them to `priceUSD` and append them to the price history
+   */
+  async updatePrices(): Promise<PriceUpdateResult> {
+    const tokens = await this.tokenRepository.find();
+    if (tokens.length === 0) {
+      return { source: this.priceSource.name, updated: 0, missing: [] };
+    }
+
+    const quotes = await this.priceSource.getPrices(tokens);
+    const quotesBySymbol = new Map(
+      quotes
+        .filter((quote) => quote.priceUSD > 0)
+        .map((quote) => [quote.symbol, quote])
+    );
+
+    const updated: Token[] = [];
+    const history: TokenPrice[] = [];
+    for (const token of tokens) {
+      const quote = quotesBySymbol.get(token.symbol);
+      if (!quote) {
+        continue;
+      }
+
+      token.priceUSD = quote.priceUSD;
+      if (quote.marketCap !== undefined) {
+        token.marketCap = quote.marketCap;
+      }
+      updated.push(token);
+      history.push(
+        this.tokenPriceRepository.create({
+          tokenId: token.id,
+          priceUSD: quote.priceUSD,
+          marketCap: quote.marketCap ?? null,
+          source: this.priceSource.name,
+        })
+      );
+    }
+
+    await this.tokenRepository.save(updated);
+    await this.tokenPriceRepository.save(history);
+
+    const missing = tokens
+      .filter((token) => !quotesBySymbol.has(token.symbol))
+      .map((token) => token.symbol);
+    if (missing.length > 0) {
+      this.logger.warn(
+        `No ${this.priceSource.name} price for: ${missing.join(', ')}`
+      );
+    }
+
+    this.logger.log(
+      `Token prices updated from ${this.priceSource.name}: ${updated.length}/${tokens.length}`
+    );
+
+    return { source: this.priceSource.name, updated: updated.length, missing };
+  }
+
+  /**
+   * Apply oracle account changes, checking each account is a valid public
+   * key
+   */
+  private mergeOracleAccounts(
+    current: TokenOracleAccounts,
+    changes: TokenOracleAccounts
+  ): TokenOracleAccounts {
+    const merged = { ...current };
+
+    for (const provider of ['pyth', 'switchboard'] as const) {
+      const address = changes[provider];
+      if (address === undefined) {
+        continue;
+      }
+
+      if (address === null) {
+        delete merged[provider];
+        continue;
+      }
+
+      try {
+        merged[provider] = new PublicKey(address).toBase58();
+      } catch {
+        throw new Error(`Invalid ${provider} oracle account: ${address}`);
+      }
+    }
+
+    return merged;
+  }
+}